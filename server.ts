@@ -2,7 +2,34 @@ import express from "express";
 import { createServer as createViteServer } from "vite";
 import Database from "better-sqlite3";
 import path from "path";
+import crypto from "crypto";
+import dotenv from "dotenv";
 import { fileURLToPath } from "url";
+import { addDays, addMonths, endOfMonth, format, isValid, parseISO } from "date-fns";
+import { expandSchedule } from "./src/lib/schedule";
+import { resolvePeriod } from "./src/lib/period";
+import { CSV_DELIMITERS, detectDelimiter, duplicateKey, guessMapping, mapCsvRows, parseCSV } from "./src/lib/csv";
+import { inferOfxType, parseOfx } from "./src/lib/ofx";
+import { buildInvoices } from "./src/lib/invoices";
+import { categoryFamily, isDescendant } from "./src/lib/categories";
+import { categorize } from "./src/lib/rules";
+import { forecastGoal } from "./src/lib/forecast";
+import { budgetPeriodRange, budgetStatus, budgetVariance, referenceDate } from "./src/lib/budgets";
+import { envelopeSummary } from "./src/lib/envelopes";
+import { NOTIFICATION_SETTINGS, detectNotifications } from "./src/lib/notifications";
+import { computePosition, isOversold } from "./src/lib/positions";
+import { fixedIncomeValue, parseRateSeries } from "./src/lib/fixedIncome";
+import { ASSET_CLASS_LABELS, guessAssetClass, rebalance } from "./src/lib/allocation";
+import { computeNetWorth } from "./src/lib/networth";
+import { AiRequest, createAiProvider } from "./src/lib/ai";
+import { INSIGHTS_SCHEMA, INSIGHTS_SYSTEM, insightsPrompt, parseInsights, ruleBasedInsights } from "./src/lib/insights";
+import { detectAnomalies } from "./src/lib/anomalies";
+import { detectSubscriptions, firstChargeAfter, recurringSubscription } from "./src/lib/subscriptions";
+import { ASK_SCHEMA, ASK_SYSTEM, AskContext, askPrompt, describeAnswer, planQuestion, runAskQuery, sanitizeQuery } from "./src/lib/ask";
+import { QUICK_ADD_SCHEMA, QUICK_ADD_SYSTEM, QuickAddContext, parseQuickAdd, quickAddPrompt, sanitizeDraft } from "./src/lib/quickAdd";
+import { Account, Budget, Category, CategoryRule, CsvColumnMapping, CsvImportOptions, CsvImportPreview, EnvelopeMove, EnvelopeSummary, AssetClass, AskQuery, Goal, InsightContext, ReviewDraft, IndexRate, Investment, InvestmentOperation, ImportRowResult, OfxImportPreview, RuleApplication, Transaction, Transfer } from "./src/types";
+
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -41,81 +68,1664 @@ db.exec(`
     category TEXT NOT NULL
   );
 
-  CREATE TABLE IF NOT EXISTS budgets (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    category TEXT NOT NULL UNIQUE,
-    limit_amount REAL NOT NULL,
-    period TEXT DEFAULT 'monthly'
-  );
-`);
+  CREATE TABLE IF NOT EXISTS budgets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    category TEXT NOT NULL UNIQUE,
+    limit_amount REAL NOT NULL,
+    period TEXT DEFAULT 'monthly'
+  );
+
+  CREATE TABLE IF NOT EXISTS accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    type TEXT CHECK(type IN ('checking', 'savings', 'credit_card', 'cash')) NOT NULL,
+    opening_balance REAL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS transfers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    from_account_id INTEGER NOT NULL REFERENCES accounts(id),
+    to_account_id INTEGER NOT NULL REFERENCES accounts(id),
+    amount REAL NOT NULL,
+    date TEXT NOT NULL,
+    description TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS categories (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    parent_id INTEGER REFERENCES categories(id),
+    type TEXT CHECK(type IN ('income', 'expense')) NOT NULL,
+    icon TEXT,
+    color TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS category_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    priority INTEGER NOT NULL DEFAULT 0,
+    description_pattern TEXT,
+    min_amount REAL,
+    max_amount REAL,
+    account_id INTEGER REFERENCES accounts(id),
+    category TEXT NOT NULL,
+    type TEXT CHECK(type IN ('income', 'variable_income', 'fixed_expense', 'variable_expense')),
+    enabled INTEGER DEFAULT 1
+  );
+
+  CREATE TABLE IF NOT EXISTS goal_contributions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    goal_id INTEGER NOT NULL REFERENCES goals(id),
+    date TEXT NOT NULL,
+    amount REAL NOT NULL,
+    description TEXT,
+    transaction_id INTEGER REFERENCES transactions(id),
+    investment_id INTEGER REFERENCES investments(id),
+    is_opening INTEGER DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS envelope_moves (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    month TEXT NOT NULL,
+    date TEXT NOT NULL,
+    from_category TEXT,
+    to_category TEXT,
+    amount REAL NOT NULL,
+    description TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS notifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    key TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    date TEXT NOT NULL,
+    read INTEGER DEFAULT 0,
+    dismissed INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS investment_operations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    investment_id INTEGER NOT NULL REFERENCES investments(id),
+    type TEXT CHECK(type IN ('buy', 'sell', 'dividend', 'jcp', 'fee')) NOT NULL,
+    date TEXT NOT NULL,
+    quantity REAL,
+    unit_price REAL,
+    amount REAL NOT NULL,
+    fees REAL DEFAULT 0,
+    notes TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS investment_prices (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    investment_id INTEGER NOT NULL REFERENCES investments(id),
+    date TEXT NOT NULL,
+    price REAL NOT NULL,
+    UNIQUE(investment_id, date)
+  );
+
+  CREATE TABLE IF NOT EXISTS index_rates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    indexer TEXT CHECK(indexer IN ('cdi', 'selic', 'ipca')) NOT NULL,
+    date TEXT NOT NULL,
+    rate REAL NOT NULL,
+    UNIQUE(indexer, date)
+  );
+
+  CREATE TABLE IF NOT EXISTS allocation_targets (
+    asset_class TEXT PRIMARY KEY,
+    target_percent REAL NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS liabilities (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    kind TEXT CHECK(kind IN ('loan', 'financing', 'other')) NOT NULL,
+    balance REAL NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS net_worth_snapshots (
+    month TEXT PRIMARY KEY,
+    date TEXT NOT NULL,
+    accounts REAL NOT NULL,
+    investments REAL NOT NULL,
+    card_debt REAL NOT NULL,
+    loans REAL NOT NULL,
+    assets REAL NOT NULL,
+    liabilities REAL NOT NULL,
+    net_worth REAL NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS transaction_reviews (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT NOT NULL,
+    key TEXT NOT NULL UNIQUE,
+    transaction_id INTEGER NOT NULL REFERENCES transactions(id),
+    related_id INTEGER REFERENCES transactions(id),
+    message TEXT NOT NULL,
+    status TEXT CHECK(status IN ('open', 'dismissed')) DEFAULT 'open',
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS subscription_ignores (
+    key TEXT PRIMARY KEY
+  );
+
+  CREATE TABLE IF NOT EXISTS ask_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    role TEXT CHECK(role IN ('user', 'assistant')) NOT NULL,
+    content TEXT NOT NULL,
+    query TEXT,
+    result TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS ai_cache (
+    key TEXT PRIMARY KEY,
+    response TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`);
+
+// Columns added after the first release; CREATE TABLE IF NOT EXISTS won't add them to existing databases.
+// Returns true when the column was just added, for backfills that must only run once.
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all().map((c: { name: string }) => c.name);
+  if (!columns.includes(column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    return true;
+  }
+  return false;
+}
+
+addColumnIfMissing("transactions", "fitid", "TEXT");
+addColumnIfMissing("transactions", "account_id", "INTEGER REFERENCES accounts(id)");
+addColumnIfMissing("accounts", "closing_day", "INTEGER");
+addColumnIfMissing("accounts", "due_day", "INTEGER");
+addColumnIfMissing("transfers", "invoice_month", "TEXT");
+addColumnIfMissing("budgets", "rollover", "INTEGER DEFAULT 0");
+addColumnIfMissing("budgets", "start_date", "TEXT");
+addColumnIfMissing("notifications", "dismissed", "INTEGER DEFAULT 0");
+addColumnIfMissing("investments", "ticker", "TEXT");
+addColumnIfMissing("investments", "indexer", "TEXT");
+addColumnIfMissing("investments", "indexer_rate", "REAL");
+addColumnIfMissing("investments", "maturity_date", "TEXT");
+addColumnIfMissing("investments", "tax_exempt", "INTEGER DEFAULT 0");
+if (addColumnIfMissing("investments", "asset_class", "TEXT")) {
+  for (const investment of db.prepare("SELECT * FROM investments").all()) {
+    db.prepare("UPDATE investments SET asset_class = ? WHERE id = ?").run(guessAssetClass(investment), investment.id);
+  }
+}
+// Opening balances were only told apart by their description
+if (addColumnIfMissing("goal_contributions", "is_opening", "INTEGER DEFAULT 0")) {
+  db.prepare("UPDATE goal_contributions SET is_opening = 1 WHERE description = 'Saldo inicial' AND transaction_id IS NULL AND investment_id IS NULL").run();
+}
+// Rollover counts from the budget's first period; older budgets start with the current month
+db.prepare("UPDATE budgets SET start_date = ? WHERE start_date IS NULL").run(format(new Date(), "yyyy-MM-01"));
+db.exec("CREATE INDEX IF NOT EXISTS idx_transactions_fitid ON transactions(fitid)");
+
+// goals.current_amount used to be typed in by hand; it now comes from the contributions ledger.
+// Amounts saved before the ledger existed become an opening contribution and the column is zeroed.
+db.transaction(() => {
+  const legacy = db.prepare("SELECT * FROM goals WHERE current_amount > 0 AND id NOT IN (SELECT goal_id FROM goal_contributions)").all();
+  for (const goal of legacy) {
+    db.prepare("INSERT INTO goal_contributions (goal_id, date, amount, description, is_opening) VALUES (?, ?, ?, ?, 1)")
+      .run(goal.id, format(new Date(), "yyyy-MM-dd"), goal.current_amount, "Saldo inicial");
+  }
+  db.prepare("UPDATE goals SET current_amount = 0 WHERE current_amount != 0").run();
+})();
+
+// Investments recorded as a single amount become one unit bought at that amount on their date
+db.transaction(() => {
+  const legacy = db.prepare("SELECT * FROM investments WHERE amount != 0 AND id NOT IN (SELECT investment_id FROM investment_operations)").all();
+  for (const investment of legacy) {
+    db.prepare("INSERT INTO investment_operations (investment_id, type, date, quantity, unit_price, amount, notes) VALUES (?, 'buy', ?, 1, ?, ?, ?)")
+      .run(investment.id, investment.date, investment.amount, investment.amount, "Saldo inicial");
+  }
+  db.prepare("UPDATE investments SET amount = 0 WHERE amount != 0").run();
+})();
+
+const DEFAULT_CATEGORIES: [name: string, type: Category["type"], icon: string, color: string, parent?: string][] = [
+  ["Salário", "income", "briefcase", "#10b981"],
+  ["Comissões", "income", "trending-up", "#14b8a6"],
+  ["Rendimentos", "income", "piggy-bank", "#22c55e"],
+  ["Moradia", "expense", "home", "#6366f1"],
+  ["Alimentação", "expense", "utensils", "#f59e0b"],
+  ["Mercado", "expense", "shopping-cart", "#f59e0b", "Alimentação"],
+  ["Restaurantes", "expense", "utensils", "#fb923c", "Alimentação"],
+  ["Transporte", "expense", "car", "#0ea5e9"],
+  ["Saúde", "expense", "heart-pulse", "#ef4444"],
+  ["Educação", "expense", "graduation-cap", "#8b5cf6"],
+  ["Lazer", "expense", "gamepad", "#ec4899"],
+  ["Outros", "expense", "tag", "#94a3b8"]
+];
+
+// First run with the catalog: add the defaults, then every other free-text category already in use
+if (!db.prepare("SELECT id FROM categories LIMIT 1").get()) {
+  db.transaction(() => {
+    const insert = db.prepare("INSERT OR IGNORE INTO categories (name, parent_id, type, icon, color) VALUES (?, ?, ?, ?, ?)");
+    for (const [name, type, icon, color, parent] of DEFAULT_CATEGORIES) {
+      const parentId = parent ? db.prepare("SELECT id FROM categories WHERE name = ?").get(parent)?.id : null;
+      insert.run(name, parentId ?? null, type, icon, color);
+    }
+    const used = db.prepare(`
+      SELECT category, MIN(type IN ('income', 'variable_income')) as income FROM transactions GROUP BY category
+      UNION ALL SELECT category, 0 FROM goals
+      UNION ALL SELECT category, 0 FROM budgets
+    `).all();
+    for (const { category, income } of used) {
+      insert.run(category.trim(), null, income ? "income" : "expense", null, null);
+    }
+    // "alimentação" and "Alimentação" collapse into the spelling the catalog kept
+    for (const table of ["transactions", "goals", "budgets"]) {
+      db.exec(`UPDATE OR IGNORE ${table} SET category = (SELECT name FROM categories WHERE name = TRIM(${table}.category))`);
+    }
+  })();
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// DATE_PATTERN alone lets through dates that don't exist ("2026-02-30")
+const isDate = (value: unknown): value is string => typeof value === "string" && DATE_PATTERN.test(value) && isValid(parseISO(value));
+const TRANSACTION_TYPES = ["income", "variable_income", "fixed_expense", "variable_expense"];
+const TRANSACTION_SORT_FIELDS = ["date", "amount", "description"];
+const ACCOUNT_TYPES = ["checking", "savings", "credit_card", "cash"];
+const BUDGET_PERIODS = ["weekly", "monthly", "quarterly", "annual"];
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+// Opaque keyset cursor: the sort value and id of the last row of the previous page
+const encodeCursor = (value: unknown, id: number) => Buffer.from(JSON.stringify([value, id])).toString("base64url");
+function decodeCursor(cursor: string): [string | number, number] | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return Array.isArray(decoded) && decoded.length === 2 && typeof decoded[1] === "number" ? decoded as [string | number, number] : null;
+  } catch {
+    return null;
+  }
+}
+
+// Expands every stored transaction into its dated occurrences (parcelas and monthly repeats).
+function getOccurrences(from: string | null, to: string) {
+  const transactions = db.prepare("SELECT * FROM transactions").all();
+  return expandSchedule(transactions, from, to);
+}
+
+function insertTransaction(t: Omit<Transaction, "id" | "is_recurring"> & { is_recurring?: boolean }): number {
+  const info = db.prepare(
+    "INSERT INTO transactions (description, amount, type, category, date, is_recurring, installments, start_date, fitid, account_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+  ).run(t.description, t.amount, t.type, ensureCategory(t.category, categoryTypeOf(t.type)), t.date, t.is_recurring ? 1 : 0, t.installments || 1, t.start_date || t.date, t.fitid || null, t.account_id || null);
+  return Number(info.lastInsertRowid);
+}
+
+const categoryTypeOf = (type: string): Category["type"] => type === "income" || type === "variable_income" ? "income" : "expense";
+
+// Returns the catalog spelling of a category, adding it when it is new (imports bring their own names)
+function ensureCategory(name: string, type: Category["type"]): string {
+  const existing = db.prepare("SELECT name FROM categories WHERE name = ?").get(name.trim());
+  if (existing) {
+    return existing.name;
+  }
+  db.prepare("INSERT INTO categories (name, type) VALUES (?, ?)").run(name.trim(), type);
+  return name.trim();
+}
+
+// Points every transaction, goal, budget and envelope using `from` at `to`. Budgets on both categories
+// are combined into one with the summed limit; moves between the two envelopes become meaningless and go.
+function rewriteCategory(from: string, to: string) {
+  db.prepare("UPDATE transactions SET category = ? WHERE category = ?").run(to, from);
+  db.prepare("UPDATE goals SET category = ? WHERE category = ?").run(to, from);
+  db.prepare("UPDATE category_rules SET category = ? WHERE category = ?").run(to, from);
+  db.prepare("UPDATE envelope_moves SET from_category = ? WHERE from_category = ?").run(to, from);
+  db.prepare("UPDATE envelope_moves SET to_category = ? WHERE to_category = ?").run(to, from);
+  db.prepare("DELETE FROM envelope_moves WHERE from_category = to_category").run();
+  const source = db.prepare("SELECT * FROM budgets WHERE category = ?").get(from);
+  const target = db.prepare("SELECT * FROM budgets WHERE category = ?").get(to);
+  if (source && target && source.id !== target.id) {
+    db.prepare("UPDATE budgets SET limit_amount = ? WHERE id = ?").run(source.limit_amount + target.limit_amount, target.id);
+    db.prepare("DELETE FROM budgets WHERE id = ?").run(source.id);
+  } else if (source) {
+    db.prepare("UPDATE budgets SET category = ? WHERE id = ?").run(to, source.id);
+  }
+}
+
+const GOALS_QUERY = `
+  SELECT g.id, g.name, g.target_amount, g.deadline, g.category, COALESCE(SUM(c.amount), 0) as current_amount
+  FROM goals g LEFT JOIN goal_contributions c ON c.goal_id = g.id
+`;
+
+const goalForecast = (goal: Goal) => forecastGoal(
+  goal,
+  db.prepare("SELECT date, amount, is_opening FROM goal_contributions WHERE goal_id = ?").all(goal.id),
+  format(new Date(), "yyyy-MM-dd")
+);
+
+const getRules = (): CategoryRule[] => db.prepare("SELECT * FROM category_rules ORDER BY priority, id").all();
+
+// A rule needs at least one condition, otherwise it would recategorize everything
+function validateRule(rule: Partial<CategoryRule>) {
+  const { description_pattern, min_amount, max_amount, account_id, category, type } = rule;
+  if (!category || (type && !TRANSACTION_TYPES.includes(type))) {
+    return "Dados incompletos ou inválidos";
+  }
+  if (!description_pattern?.trim() && min_amount == null && max_amount == null && !account_id) {
+    return "Informe ao menos uma condição para a regra";
+  }
+  if ((min_amount != null && isNaN(min_amount)) || (max_amount != null && isNaN(max_amount)) || (min_amount != null && max_amount != null && min_amount > max_amount)) {
+    return "Faixa de valores inválida";
+  }
+  if (account_id && !accountExists(account_id)) {
+    return "Conta inválida";
+  }
+  return null;
+}
+
+const accountExists = (id: unknown) => Boolean(db.prepare("SELECT id FROM accounts WHERE id = ?").get(id));
+
+const isDayOfMonth = (value: unknown) => Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= 31;
+
+// Credit cards need both cycle days to place purchases on invoices; other accounts ignore them.
+function validateAccount(account: { name?: string, type?: string, opening_balance?: number, closing_day?: number, due_day?: number }) {
+  if (!account.name || !ACCOUNT_TYPES.includes(account.type!) || isNaN(account.opening_balance ?? 0)) {
+    return "Dados incompletos ou inválidos";
+  }
+  if (account.type === "credit_card" && (!isDayOfMonth(account.closing_day) || !isDayOfMonth(account.due_day))) {
+    return "Informe os dias de fechamento e vencimento do cartão (1 a 31)";
+  }
+  return null;
+}
+
+// Purchases and parcelas on a card (including the next 12 months of scheduled parcelas), grouped by invoice
+function getInvoices(card: Account) {
+  const to = format(endOfMonth(addMonths(new Date(), 12)), "yyyy-MM-dd");
+  const occurrences = getOccurrences(null, to).filter(o => o.account_id === card.id);
+  const payments: Record<string, number> = {};
+  for (const p of db.prepare("SELECT invoice_month, SUM(amount) as total FROM transfers WHERE to_account_id = ? AND invoice_month IS NOT NULL GROUP BY invoice_month").all(card.id)) {
+    payments[p.invoice_month] = p.total;
+  }
+  return buildInvoices(occurrences, card.closing_day!, card.due_day!, payments, format(new Date(), "yyyy-MM-dd"));
+}
+
+// Opening balance plus income minus expenses (occurrences up to the end of the current month),
+// plus transfers received minus transfers sent. Credit card balances are usually negative.
+function getAccountBalances(): Account[] {
+  const to = format(endOfMonth(new Date()), "yyyy-MM-dd");
+  const accounts: Account[] = db.prepare("SELECT * FROM accounts ORDER BY name").all();
+  const occurrences = getOccurrences(null, to);
+  const transfers = db.prepare("SELECT * FROM transfers WHERE date <= ?").all(to);
+
+  return accounts.map(account => {
+    const movements = occurrences
+      .filter(o => o.account_id === account.id)
+      .reduce((sum, o) => sum + ((o.type === "income" || o.type === "variable_income") ? o.amount : -o.amount), 0);
+    const transferred = transfers.reduce((sum: number, t: Transfer) =>
+      sum + (t.to_account_id === account.id ? t.amount : 0) - (t.from_account_id === account.id ? t.amount : 0), 0);
+    return { ...account, balance: (account.opening_balance || 0) + movements + transferred };
+  });
+}
+
+// Entries whose FITID was already imported into the account (or repeats earlier in the file) are skipped, as are exact
+// matches of manually entered rows.
+function analyzeOfxImport(content: string, defaultCategory: string, accountId: number | null = null): OfxImportPreview {
+  const statement = parseOfx(content);
+  // FITIDs are only unique within one bank account
+  const findByFitid = db.prepare("SELECT id FROM transactions WHERE fitid = ? AND account_id IS ?");
+  const seen = new Set<string>();
+  const existing = new Set(db.prepare("SELECT description, amount, date FROM transactions").all().map(duplicateKey));
+
+  const rules = getRules();
+
+  const rows: ImportRowResult[] = statement.transactions.map((entry, index) => {
+    const draft = {
+      description: entry.description,
+      amount: Math.abs(entry.amount),
+      type: inferOfxType(entry),
+      category: defaultCategory,
+      date: entry.date,
+      fitid: entry.fitid
+    };
+    // OFX files carry no category, so a matching rule decides it (and may correct the inferred type)
+    const match = categorize(rules, { ...draft, account_id: accountId });
+    const transaction = match ? { ...draft, category: match.category, type: match.type } : draft;
+    const duplicate = seen.has(entry.fitid) || findByFitid.get(entry.fitid, accountId) || existing.has(duplicateKey(transaction));
+    seen.add(entry.fitid);
+    return { row: index + 1, status: duplicate ? "duplicate" : "ready", transaction, rule_id: match?.rule_id };
+  });
+
+  return { bank_id: statement.bank_id, account_id: statement.account_id, rows };
+}
+
+const CSV_MAPPING_FIELDS: (keyof CsvColumnMapping)[] = ["description", "amount", "date", "type", "category"];
+
+// Options sent by the client; anything left out is guessed. A mapping names every field, with null
+// for an unmapped column: the preview accepts that for the required ones too, so the mapping can be
+// filled in one column at a time, and the import refuses it.
+function validateCsvOptions(input: Partial<CsvImportOptions>) {
+  if (input.delimiter !== undefined && !CSV_DELIMITERS.includes(input.delimiter)) {
+    return "Separador inválido";
+  }
+  if (input.mapping !== undefined) {
+    const mapping = (input.mapping || {}) as Partial<Record<keyof CsvColumnMapping, unknown>>;
+    if (typeof mapping !== "object" || CSV_MAPPING_FIELDS.some(f => mapping[f] !== null && !(Number.isInteger(mapping[f]) && Number(mapping[f]) >= 0))) {
+      return "Mapeamento de colunas inválido";
+    }
+  }
+  return null;
+}
+
+// Parses the CSV with the given (or guessed) options and flags rows already present in the database.
+function analyzeCsvImport(content: string, input: Partial<CsvImportOptions>, accountId: number | null = null): CsvImportPreview {
+  const delimiter = input.delimiter || detectDelimiter(content);
+  const rows = parseCSV(content, delimiter);
+  const has_header = input.has_header ?? true;
+  const headers = has_header ? rows[0] || [] : (rows[0] || []).map((_, i) => `Coluna ${i + 1}`);
+  const options: CsvImportOptions = {
+    delimiter,
+    has_header,
+    mapping: input.mapping || guessMapping(headers),
+    date_format: input.date_format || "dd/MM/yyyy",
+    decimal_separator: input.decimal_separator || (delimiter === ";" ? "," : "."),
+    default_type: input.default_type || "variable_expense",
+    default_category: input.default_category || "Outros"
+  };
+
+  const existing = new Set(db.prepare("SELECT description, amount, date FROM transactions").all().map(duplicateKey));
+  const rules = getRules();
+  const results: ImportRowResult[] = mapCsvRows(rows, options).map(draft => {
+    if (!draft.transaction) {
+      return { row: draft.row, status: "error", error: draft.error };
+    }
+    // Rules only fill in what the file didn't say: rows that fell back to the default category,
+    // and the type unless a type column is mapped
+    let transaction = draft.transaction;
+    let rule_id: number | undefined;
+    const match = transaction.category === options.default_category ? categorize(rules, { ...transaction, account_id: accountId }) : null;
+    if (match) {
+      transaction = { ...transaction, category: match.category, type: options.mapping.type === null ? match.type : transaction.type };
+      rule_id = match.rule_id;
+    }
+    return { row: draft.row, status: existing.has(duplicateKey(transaction)) ? "duplicate" : "ready", transaction, rule_id };
+  });
+
+  return { headers, options, rows: results };
+}
+
+// Spent and remaining for every budget in the period containing the reference day of `month`
+function getBudgetStatuses(month: string) {
+  const date = referenceDate(month, format(new Date(), "yyyy-MM-dd"));
+  const budgets: Budget[] = db.prepare("SELECT * FROM budgets ORDER BY category").all();
+  const categories: Category[] = db.prepare("SELECT * FROM categories").all();
+  const until = budgets.reduce((max, b) => {
+    const { to } = budgetPeriodRange(b.period, date);
+    return to > max ? to : max;
+  }, date);
+  const expenses = getOccurrences(null, until).filter(o => o.type === "fixed_expense" || o.type === "variable_expense");
+
+  return budgets.map(budget => {
+    const family = categoryFamily(categories, budget.category);
+    return budgetStatus(budget, expenses.filter(e => family.includes(e.category)), date);
+  });
+}
+
+// Monthly limit vs. spending of every budget over the `count` months ending in `lastMonth`
+function getBudgetVariance(lastMonth: string, count: number) {
+  const last = parseISO(`${lastMonth}-01`);
+  const months = Array.from({ length: count }, (_, i) => format(addMonths(last, i - count + 1), "yyyy-MM"));
+  const budgets: Budget[] = db.prepare("SELECT * FROM budgets ORDER BY category").all();
+  const categories: Category[] = db.prepare("SELECT * FROM categories").all();
+  const expenses = getOccurrences(`${months[0]}-01`, format(endOfMonth(last), "yyyy-MM-dd"))
+    .filter(o => o.type === "fixed_expense" || o.type === "variable_expense");
+
+  return budgets.map(budget => {
+    const family = categoryFamily(categories, budget.category);
+    return budgetVariance(budget, expenses.filter(e => family.includes(e.category)), months);
+  });
+}
+
+function getEnvelopes(month: string): EnvelopeSummary {
+  const moves: EnvelopeMove[] = db.prepare("SELECT * FROM envelope_moves ORDER BY date, id").all();
+  const categories: Category[] = db.prepare("SELECT * FROM categories").all();
+  const occurrences = getOccurrences(null, format(endOfMonth(parseISO(`${month}-01`)), "yyyy-MM-dd"));
+  return {
+    ...envelopeSummary(
+      month,
+      moves,
+      occurrences.filter(o => o.type === "income" || o.type === "variable_income"),
+      occurrences.filter(o => o.type === "fixed_expense" || o.type === "variable_expense"),
+      categories
+    ),
+    moves: moves.filter(m => m.month === month)
+  };
+}
+
+const INVESTMENT_OPERATION_TYPES = ["buy", "sell", "dividend", "jcp", "fee"];
+const INDEXERS = ["cdi", "selic", "ipca"];
+
+// Investment with its position; `amount` is the market value so older screens keep showing a total.
+// Fixed income is valued by the yield engine (gross, before IR and IOF) instead of manual quotes.
+function withPosition(investment: Investment): Investment {
+  const operations: InvestmentOperation[] = db.prepare("SELECT * FROM investment_operations WHERE investment_id = ?").all(investment.id);
+  let quote = db.prepare("SELECT date, price FROM investment_prices WHERE investment_id = ? ORDER BY date DESC LIMIT 1").get(investment.id) || null;
+  let fixedIncome: Investment["fixed_income"];
+
+  if (investment.indexer && investment.indexer_rate != null) {
+    const today = format(new Date(), "yyyy-MM-dd");
+    const terms = { indexer: investment.indexer, indexer_rate: investment.indexer_rate, tax_exempt: investment.tax_exempt };
+    const rates: IndexRate[] = db.prepare("SELECT * FROM index_rates ORDER BY date").all();
+    const current = fixedIncomeValue(terms, operations, rates, today);
+    fixedIncome = {
+      current,
+      maturity: investment.maturity_date && investment.maturity_date > today ? fixedIncomeValue(terms, operations, rates, investment.maturity_date) : null
+    };
+    const quantity = computePosition(operations, null).quantity;
+    if (quantity > 0) {
+      quote = { date: today, price: current.gross / quantity };
+    }
+  }
+
+  const position = computePosition(operations, quote);
+  return { ...investment, amount: position.market_value, position, ...(fixedIncome && { fixed_income: fixedIncome }) };
+}
+
+const ASSET_CLASSES = Object.keys(ASSET_CLASS_LABELS);
+
+// Class and fixed income terms of an asset; an indexer needs its contracted rate
+function validateInvestmentTerms(terms: Partial<Investment>) {
+  const { indexer, indexer_rate, maturity_date, asset_class } = terms;
+  if (asset_class && !ASSET_CLASSES.includes(asset_class)) {
+    return "Classe de ativo inválida";
+  }
+  if (indexer && (![...INDEXERS, "prefixado"].includes(indexer) || indexer_rate == null || isNaN(indexer_rate))) {
+    return "Informe o indexador e a taxa contratada";
+  }
+  if (maturity_date && !DATE_PATTERN.test(maturity_date)) {
+    return "Data de vencimento inválida";
+  }
+  return null;
+}
+
+// Buys and sells are priced by quantity × unit price; dividends, JCP and fees carry just an amount
+function normalizeOperation(body: Partial<InvestmentOperation>): Omit<InvestmentOperation, "id" | "investment_id"> | string {
+  const { type, date, quantity, unit_price, amount, fees, notes } = body;
+  if (!type || !INVESTMENT_OPERATION_TYPES.includes(type) || !date || !DATE_PATTERN.test(date) || isNaN(fees ?? 0) || (fees ?? 0) < 0) {
+    return "Dados incompletos ou inválidos";
+  }
+  if (type === "buy" || type === "sell") {
+    if (quantity == null || unit_price == null || isNaN(quantity) || isNaN(unit_price) || quantity <= 0 || unit_price < 0) {
+      return "Informe quantidade e preço unitário";
+    }
+    return { type, date, quantity, unit_price, amount: quantity * unit_price, fees: fees || 0, notes: notes || null };
+  }
+  if (amount == null || isNaN(amount) || amount <= 0) {
+    return "Informe o valor da operação";
+  }
+  return { type, date, quantity: null, unit_price: null, amount, fees: 0, notes: notes || null };
+}
+
+// Adds (no operationId) or replaces an operation, refusing changes that would sell units not held
+function saveOperation(investmentId: string, operationId: number | null, body: Partial<InvestmentOperation>): { id: number } | { status: number, error: string } {
+  if (!db.prepare("SELECT id FROM investments WHERE id = ?").get(investmentId)) {
+    return { status: 404, error: "Investimento não encontrado" };
+  }
+  const operation = normalizeOperation(body);
+  if (typeof operation === "string") {
+    return { status: 400, error: operation };
+  }
+  const others: InvestmentOperation[] = db.prepare("SELECT * FROM investment_operations WHERE investment_id = ? AND id != ?").all(investmentId, operationId ?? -1);
+  if (isOversold([...others, { ...operation, id: operationId ?? Number.MAX_SAFE_INTEGER, investment_id: Number(investmentId) }])) {
+    return { status: 400, error: "Quantidade vendida maior que a posição" };
+  }
+  const params = { ...operation, investment_id: investmentId, id: operationId };
+  const info = operationId
+    ? db.prepare("UPDATE investment_operations SET type = @type, date = @date, quantity = @quantity, unit_price = @unit_price, amount = @amount, fees = @fees, notes = @notes WHERE id = @id AND investment_id = @investment_id").run(params)
+    : db.prepare("INSERT INTO investment_operations (investment_id, type, date, quantity, unit_price, amount, fees, notes) VALUES (@investment_id, @type, @date, @quantity, @unit_price, @amount, @fees, @notes)").run(params);
+  return { id: operationId ?? Number(info.lastInsertRowid) };
+}
+
+const LIABILITY_KINDS = ["loan", "financing", "other"];
+
+function getNetWorth() {
+  const investments: Investment[] = db.prepare("SELECT * FROM investments").all();
+  return computeNetWorth(
+    getAccountBalances(),
+    investments.map(withPosition).reduce((sum, i) => sum + i.amount, 0),
+    db.prepare("SELECT * FROM liabilities").all()
+  );
+}
+
+// Keeps the current month's snapshot up to date; once the month is over its last value stays as history
+function snapshotNetWorth() {
+  const today = format(new Date(), "yyyy-MM-dd");
+  db.prepare(`
+    INSERT INTO net_worth_snapshots (month, date, accounts, investments, card_debt, loans, assets, liabilities, net_worth)
+    VALUES (@month, @date, @accounts, @investments, @card_debt, @loans, @assets, @liabilities, @net_worth)
+    ON CONFLICT(month) DO UPDATE SET date = excluded.date, accounts = excluded.accounts, investments = excluded.investments,
+      card_debt = excluded.card_debt, loans = excluded.loans, assets = excluded.assets, liabilities = excluded.liabilities, net_worth = excluded.net_worth
+  `).run({ ...getNetWorth(), month: today.slice(0, 7), date: today });
+}
+
+// Stores any new alert. Keys are unique, so alerts already stored (read or not) are left alone.
+function refreshNotifications() {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const until = format(addDays(parseISO(today), NOTIFICATION_SETTINGS.billDaysAhead), "yyyy-MM-dd");
+  const scheduled = new Set(
+    db.prepare("SELECT id FROM transactions WHERE is_recurring = 1 OR installments > 1").all().map((t: { id: number }) => t.id)
+  );
+  const drafts = detectNotifications({
+    today,
+    budgets: getBudgetStatuses(format(new Date(), "yyyy-MM")),
+    bills: getOccurrences(today, until).filter(o => scheduled.has(o.transaction_id)),
+    goals: db.prepare(`${GOALS_QUERY} GROUP BY g.id`).all(),
+    transactions: db.prepare("SELECT * FROM transactions WHERE date >= ?").all(format(addDays(parseISO(today), -NOTIFICATION_SETTINGS.largeTransactionDays), "yyyy-MM-dd"))
+  });
+
+  const insert = db.prepare("INSERT OR IGNORE INTO notifications (kind, key, title, message, date) VALUES (@kind, @key, @title, @message, @date)");
+  db.transaction(() => drafts.forEach(draft => insert.run(draft)))();
+}
+
+// What each AI task sends as `input`, checked both where requests are made and by the stub responders
+interface AiTaskInputs {
+  insights: InsightContext;
+  quick_add: { text: string, context: QuickAddContext };
+  ask: { question: string, context: AskContext, previous: AskQuery | null };
+}
+
+const aiProvider = createAiProvider<AiTaskInputs>(process.env, {
+  insights: ruleBasedInsights,
+  quick_add: ({ text, context }) => parseQuickAdd(text, context),
+  ask: ({ question, context, previous }) => planQuestion(question, context, previous)
+});
+
+const ASK_HISTORY_LIMIT = 50;
+
+const parseAskMessage = (row: { query: string | null, result: string | null }) => ({
+  ...row,
+  query: row.query ? JSON.parse(row.query) : null,
+  result: row.result ? JSON.parse(row.result) : null
+});
+
+// Identical requests (same provider, task and data) are answered from ai_cache instead of calling the
+// model again, unless `refresh` is set. Only answers that `parse` accepts are cached.
+async function generateCached<T, Task extends keyof AiTaskInputs>(request: AiRequest<Task, AiTaskInputs[Task]>, parse: (raw: unknown) => T, refresh: boolean) {
+  const key = crypto.createHash("sha256")
+    .update(JSON.stringify([aiProvider.name, request.task, request.system, request.prompt]))
+    .digest("hex");
+  const hit = refresh ? undefined : db.prepare("SELECT response, created_at FROM ai_cache WHERE key = ?").get(key);
+  if (hit) {
+    return { response: parse(JSON.parse(hit.response)), cached: true, generated_at: hit.created_at };
+  }
+
+  const raw = await aiProvider.generateJson(request);
+  const response = parse(raw);
+  // Old answers are for data that has long since changed
+  db.prepare("DELETE FROM ai_cache WHERE created_at < datetime('now', '-30 days')").run();
+  db.prepare(`
+    INSERT INTO ai_cache (key, response) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET response = excluded.response, created_at = CURRENT_TIMESTAMP
+  `).run(key, JSON.stringify(raw));
+  return { response, cached: false, generated_at: db.prepare("SELECT created_at FROM ai_cache WHERE key = ?").get(key).created_at };
+}
+
+function getInsightContext(month: string): InsightContext {
+  const period = resolvePeriod({ month })!;
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const expensesByCategory = new Map<string, number>();
+  for (const o of getOccurrences(period.from, period.to)) {
+    if (o.type === "fixed_expense" || o.type === "variable_expense") {
+      expensesByCategory.set(o.category, (expensesByCategory.get(o.category) || 0) + o.amount);
+    }
+  }
+  const goals: Goal[] = db.prepare(`${GOALS_QUERY} GROUP BY g.id`).all();
+
+  return {
+    month,
+    totals: summarize(period.from, period.to),
+    previous: summarize(period.previousFrom, period.previousTo),
+    top_categories: [...expensesByCategory.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([category, amount]) => ({ category, amount: round(amount) })),
+    budgets: getBudgetStatuses(month).map(b => ({ category: b.category, available: b.available, spent: b.spent, percent: b.percent })),
+    goals: goals.map(goal => {
+      const forecast = goalForecast(goal);
+      return {
+        name: goal.name,
+        target_amount: goal.target_amount,
+        current_amount: goal.current_amount,
+        deadline: goal.deadline,
+        status: forecast.status,
+        required_monthly: forecast.required_monthly,
+        monthly_pace: forecast.monthly_pace
+      };
+    })
+  };
+}
+
+// Queues newly detected anomalies. Open items that no longer apply (the transaction was edited or
+// deleted) are dropped; dismissed ones are kept so they don't come back.
+function refreshReviews() {
+  const drafts = detectAnomalies(db.prepare("SELECT * FROM transactions").all());
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO transaction_reviews (kind, key, transaction_id, related_id, message)
+    VALUES (@kind, @key, @transaction_id, @related_id, @message)
+  `);
+  db.transaction(() => {
+    drafts.forEach(draft => insert.run(draft));
+    const keys = new Set(drafts.map(d => d.key));
+    const open = db.prepare("SELECT id, key FROM transaction_reviews WHERE status = 'open'").all();
+    const remove = db.prepare("DELETE FROM transaction_reviews WHERE id = ?");
+    open.filter((r: { key: string }) => !keys.has(r.key)).forEach((r: { id: number }) => remove.run(r.id));
+    db.exec(`
+      DELETE FROM transaction_reviews
+      WHERE transaction_id NOT IN (SELECT id FROM transactions) OR (related_id IS NOT NULL AND related_id NOT IN (SELECT id FROM transactions))
+    `);
+  })();
+}
+
+// Recurring expenses already scheduled plus the ones detected from separate charges, minus those
+// the user said aren't subscriptions
+function getSubscriptions() {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const transactions: Transaction[] = db.prepare("SELECT * FROM transactions").all();
+  const recurring = transactions.filter(t => t.is_recurring && (t.installments || 1) <= 1 && (t.type === "fixed_expense" || t.type === "variable_expense"));
+  const ignored = new Set(db.prepare("SELECT key FROM subscription_ignores").all().map((r: { key: string }) => r.key));
+  return [
+    ...recurring.map(t => recurringSubscription(t, today)),
+    ...detectSubscriptions(transactions, recurring, today).filter(s => !ignored.has(s.key))
+  ];
+}
+
+// Income/expense totals by type for [from, to]; a null `from` means since the first record.
+function summarize(from: string | null, to: string) {
+  const occurrences = getOccurrences(from, to);
+  const sumByType = (type: string) => occurrences.filter(o => o.type === type).reduce((sum, o) => sum + o.amount, 0);
+  // Net money put into investments: purchases and their fees minus what sales returned
+  const netInvested = "SELECT SUM(CASE type WHEN 'buy' THEN amount + fees WHEN 'sell' THEN fees - amount ELSE 0 END) as total FROM investment_operations";
+  const invested = from
+    ? db.prepare(`${netInvested} WHERE date BETWEEN ? AND ?`).get(from, to).total || 0
+    : db.prepare(netInvested).get().total || 0;
+
+  return {
+    income: sumByType("income"),
+    variable_income: sumByType("variable_income"),
+    fixed: sumByType("fixed_expense"),
+    variable: sumByType("variable_expense"),
+    invested
+  };
+}
+
+async function startServer() {
+  const app = express();
+  const PORT = 3000;
+
+  app.use(express.json({ limit: "5mb" }));
+
+  // API Routes
+  app.get("/api/transactions", (req, res) => {
+    const { from, to, type, category, account_id, q, min_amount, max_amount, sort = "date", order = "desc", limit, cursor } = req.query as Record<string, string | undefined>;
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return res.status(400).json({ error: "Período inválido" });
+    }
+    if (from) { where.push("date >= ?"); params.push(from); }
+    if (to) { where.push("date <= ?"); params.push(to); }
+
+    if (type) {
+      const types = type.split(",");
+      if (types.some(t => !TRANSACTION_TYPES.includes(t))) {
+        return res.status(400).json({ error: "Tipo inválido" });
+      }
+      where.push(`type IN (${types.map(() => "?").join(", ")})`);
+      params.push(...types);
+    }
+    if (category) {
+      const family = categoryFamily(db.prepare("SELECT * FROM categories").all(), category);
+      where.push(`category IN (${family.map(() => "?").join(", ")})`);
+      params.push(...family);
+    }
+    if (account_id) { where.push("account_id = ?"); params.push(Number(account_id)); }
+    if (q) {
+      where.push("description LIKE ? ESCAPE '\\'");
+      params.push(`%${q.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+    }
+
+    if ((min_amount && isNaN(Number(min_amount))) || (max_amount && isNaN(Number(max_amount)))) {
+      return res.status(400).json({ error: "Valor inválido" });
+    }
+    if (min_amount) { where.push("amount >= ?"); params.push(Number(min_amount)); }
+    if (max_amount) { where.push("amount <= ?"); params.push(Number(max_amount)); }
+
+    if (!TRANSACTION_SORT_FIELDS.includes(sort) || (order !== "asc" && order !== "desc")) {
+      return res.status(400).json({ error: "Ordenação inválida" });
+    }
+    const direction = order === "asc" ? "ASC" : "DESC";
+    const comparison = order === "asc" ? ">" : "<";
+
+    if (cursor) {
+      const position = decodeCursor(cursor);
+      if (!position) {
+        return res.status(400).json({ error: "Cursor inválido" });
+      }
+      where.push(`(${sort} ${comparison} ? OR (${sort} = ? AND id ${comparison} ?))`);
+      params.push(position[0], position[0], position[1]);
+    }
+
+    let sql = `SELECT * FROM transactions ${where.length ? `WHERE ${where.join(" AND ")}` : ""} ORDER BY ${sort} ${direction}, id ${direction}`;
+    const pageSize = limit ? parseInt(limit) : null;
+    if (pageSize !== null) {
+      if (isNaN(pageSize) || pageSize < 1) {
+        return res.status(400).json({ error: "Limite inválido" });
+      }
+      // Fetch one extra row to know whether another page exists
+      sql += " LIMIT ?";
+      params.push(pageSize + 1);
+    }
+
+    const transactions = db.prepare(sql).all(...params);
+    if (pageSize !== null && transactions.length > pageSize) {
+      transactions.pop();
+      const last = transactions[transactions.length - 1];
+      res.setHeader("X-Next-Cursor", encodeCursor(last[sort], last.id));
+    }
+    res.json(transactions);
+  });
+
+  app.post("/api/transactions", (req, res) => {
+    try {
+      const { description, amount, date, is_recurring, installments, start_date, account_id } = req.body;
+      let { type, category } = req.body;
+      if (!description || isNaN(amount) || !type || !date) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      if (account_id && !accountExists(account_id)) {
+        return res.status(400).json({ error: "Conta inválida" });
+      }
+      // Without a category the rules decide it (and the type, when the rule sets one)
+      if (!category) {
+        const match = categorize(getRules(), { description, amount, type, category: "Outros", account_id });
+        type = match?.type || type;
+        category = match?.category || "Outros";
+      }
+      const id = insertTransaction({ description, amount, type, category, date, is_recurring, installments, start_date, account_id });
+      res.json({ id });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao salvar transação" });
+    }
+  });
+
+  // Fallback for quick-add text the client-side parser couldn't read
+  app.post("/api/transactions/parse", async (req, res) => {
+    const { text } = req.body;
+    if (typeof text !== "string" || !text.trim() || text.length > 500) {
+      return res.status(400).json({ error: "Texto inválido" });
+    }
+    try {
+      const context: QuickAddContext = {
+        today: format(new Date(), "yyyy-MM-dd"),
+        categories: db.prepare("SELECT name, type, parent_id FROM categories ORDER BY name").all(),
+        accounts: db.prepare("SELECT id, name, type FROM accounts ORDER BY name").all()
+      };
+      const { response } = await generateCached({
+        task: "quick_add",
+        system: QUICK_ADD_SYSTEM,
+        prompt: quickAddPrompt(text.trim(), context),
+        schema: QUICK_ADD_SCHEMA,
+        input: { text: text.trim(), context }
+      }, raw => sanitizeDraft(raw, context), false);
+      res.json(response);
+    } catch (error) {
+      console.error("AI Error:", error);
+      res.status(502).json({ error: "Não foi possível interpretar o lançamento" });
+    }
+  });
+
+  app.post("/api/import/csv/preview", (req, res) => {
+    const { content, options } = req.body;
+    if (typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ error: "Arquivo vazio" });
+    }
+    const invalid = validateCsvOptions(options || {});
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    try {
+      res.json(analyzeCsvImport(content, options || {}, req.body.account_id || null));
+    } catch (error) {
+      // date-fns throws a RangeError for a date format it can't read
+      if (error instanceof RangeError) {
+        return res.status(400).json({ error: "Formato de data inválido" });
+      }
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao analisar arquivo" });
+    }
+  });
+
+  app.post("/api/import/ofx/preview", (req, res) => {
+    const { content, default_category } = req.body;
+    if (typeof content !== "string" || !/<OFX>/i.test(content)) {
+      return res.status(400).json({ error: "Arquivo OFX inválido" });
+    }
+    res.json(analyzeOfxImport(content, default_category || "Outros", req.body.account_id || null));
+  });
+
+  app.post("/api/import/ofx", (req, res) => {
+    const { content, default_category, account_id } = req.body;
+    if (typeof content !== "string" || !/<OFX>/i.test(content)) {
+      return res.status(400).json({ error: "Arquivo OFX inválido" });
+    }
+    if (account_id && !accountExists(account_id)) {
+      return res.status(400).json({ error: "Conta inválida" });
+    }
+    const preview = analyzeOfxImport(content, default_category || "Outros", account_id || null);
+
+    try {
+      const rows = db.transaction(() => preview.rows.map((result): ImportRowResult => {
+        if (result.status !== "ready") {
+          return result;
+        }
+        return { ...result, status: "imported", id: insertTransaction({ ...result.transaction!, account_id }) };
+      }))();
+      res.json({ ...preview, rows });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao importar transações" });
+    }
+  });
+
+  app.post("/api/import/csv", (req, res) => {
+    const { content, options, import_duplicates, account_id } = req.body;
+    if (typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ error: "Arquivo vazio" });
+    }
+    if (account_id && !accountExists(account_id)) {
+      return res.status(400).json({ error: "Conta inválida" });
+    }
+    const invalid = validateCsvOptions(options || {});
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    try {
+      const preview = analyzeCsvImport(content, options || {}, account_id || null);
+      const { mapping } = preview.options;
+      if (mapping.description === null || mapping.amount === null || mapping.date === null) {
+        return res.status(400).json({ error: "Mapeie as colunas de descrição, valor e data" });
+      }
+
+      // All-or-nothing: a database failure rolls back every row of the file
+      const rows = db.transaction(() => preview.rows.map((result): ImportRowResult => {
+        if (result.status === "error" || (result.status === "duplicate" && !import_duplicates)) {
+          return result;
+        }
+        return { ...result, status: "imported", id: insertTransaction({ ...result.transaction!, account_id }) };
+      }))();
+      res.json({ ...preview, rows });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return res.status(400).json({ error: "Formato de data inválido" });
+      }
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao importar transações" });
+    }
+  });
+
+  app.patch("/api/transactions/:id", (req, res) => {
+    try {
+      const existing = db.prepare("SELECT * FROM transactions WHERE id = ?").get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Transação não encontrada" });
+      }
+      const { description, amount, type, category, date, is_recurring, installments, start_date, account_id } = {
+        ...existing,
+        // Moving the date moves the schedule with it, unless the body says where the schedule starts
+        ...(req.body.date !== undefined && req.body.date !== existing.date && req.body.start_date === undefined ? { start_date: req.body.date } : {}),
+        ...req.body
+      };
+      if (!description || isNaN(amount) || !type || !category || !date) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      if (account_id && !accountExists(account_id)) {
+        return res.status(400).json({ error: "Conta inválida" });
+      }
+      db.prepare(
+        "UPDATE transactions SET description = ?, amount = ?, type = ?, category = ?, date = ?, is_recurring = ?, installments = ?, start_date = ?, account_id = ? WHERE id = ?"
+      ).run(description, amount, type, ensureCategory(category, categoryTypeOf(type)), date, is_recurring ? 1 : 0, installments || 1, start_date || date, account_id || null, req.params.id);
+      res.json({ id: Number(req.params.id) });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar transação" });
+    }
+  });
+
+  app.delete("/api/transactions/:id", (req, res) => {
+    // Contributions made with this transaction stay in the goal's ledger
+    db.transaction(() => {
+      db.prepare("UPDATE goal_contributions SET transaction_id = NULL WHERE transaction_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM transactions WHERE id = ?").run(req.params.id);
+    })();
+    res.sendStatus(200);
+  });
+
+  app.get("/api/investments", (req, res) => {
+    const investments: Investment[] = db.prepare("SELECT * FROM investments ORDER BY date DESC").all();
+    res.json(investments.map(withPosition));
+  });
+
+  // Creates the asset and, when quantity and unit price (or just an amount, for a single-unit
+  // holding like a CDB) are given, its first purchase
+  app.post("/api/investments", (req, res) => {
+    try {
+      const { name, ticker, type, expected_return, date, quantity, unit_price, amount, indexer, indexer_rate, maturity_date, tax_exempt } = req.body;
+      // Older clients don't send a class; guess it from the type like the migration does
+      const assetClass = req.body.asset_class === undefined ? guessAssetClass(req.body) : req.body.asset_class || null;
+      if (!name || !type || !date || !DATE_PATTERN.test(date)) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      const termsError = validateInvestmentTerms(req.body);
+      if (termsError) {
+        return res.status(400).json({ error: termsError });
+      }
+      const purchase = quantity != null || unit_price != null
+        ? normalizeOperation({ type: "buy", date, quantity, unit_price })
+        : amount ? normalizeOperation({ type: "buy", date, quantity: 1, unit_price: amount }) : null;
+      if (typeof purchase === "string") {
+        return res.status(400).json({ error: purchase });
+      }
+      const id = db.transaction(() => {
+        const info = db.prepare(
+          "INSERT INTO investments (name, ticker, amount, type, expected_return, date, indexer, indexer_rate, maturity_date, tax_exempt, asset_class) VALUES (?, ?, 0, ?, ?, ?, ?, ?, ?, ?, ?)"
+        ).run(name, ticker || null, type, expected_return, date, indexer || null, indexer ? indexer_rate : null, maturity_date || null, tax_exempt ? 1 : 0, assetClass);
+        if (purchase) {
+          db.prepare(
+            "INSERT INTO investment_operations (investment_id, type, date, quantity, unit_price, amount, fees, notes) VALUES (@investment_id, @type, @date, @quantity, @unit_price, @amount, @fees, @notes)"
+          ).run({ ...purchase, investment_id: info.lastInsertRowid });
+        }
+        return info.lastInsertRowid;
+      })();
+      res.json({ id });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao salvar investimento" });
+    }
+  });
+
+  app.patch("/api/investments/:id", (req, res) => {
+    try {
+      const existing = db.prepare("SELECT * FROM investments WHERE id = ?").get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Investimento não encontrado" });
+      }
+      // The amount comes from the operations and can't be set here
+      const merged = { ...existing, ...req.body };
+      const { name, ticker, type, expected_return, date, indexer, indexer_rate, maturity_date, tax_exempt, asset_class } = merged;
+      if (!name || !type || !date) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      const termsError = validateInvestmentTerms(merged);
+      if (termsError) {
+        return res.status(400).json({ error: termsError });
+      }
+      db.prepare(
+        "UPDATE investments SET name = ?, ticker = ?, type = ?, expected_return = ?, date = ?, indexer = ?, indexer_rate = ?, maturity_date = ?, tax_exempt = ?, asset_class = ? WHERE id = ?"
+      ).run(name, ticker || null, type, expected_return, date, indexer || null, indexer ? indexer_rate : null, maturity_date || null, tax_exempt ? 1 : 0, asset_class || null, req.params.id);
+      res.json({ id: Number(req.params.id) });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar investimento" });
+    }
+  });
+
+  app.delete("/api/investments/:id", (req, res) => {
+    // Contributions made with this investment stay in the goal's ledger
+    db.transaction(() => {
+      db.prepare("UPDATE goal_contributions SET investment_id = NULL WHERE investment_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM investment_operations WHERE investment_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM investment_prices WHERE investment_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM investments WHERE id = ?").run(req.params.id);
+    })();
+    res.sendStatus(200);
+  });
+
+  app.get("/api/investments/:id/operations", (req, res) => {
+    const operations = db.prepare("SELECT * FROM investment_operations WHERE investment_id = ? ORDER BY date DESC, id DESC").all(req.params.id);
+    res.json(operations);
+  });
+
+  app.post("/api/investments/:id/operations", (req, res) => {
+    try {
+      const result = saveOperation(req.params.id, null, req.body);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao salvar operação" });
+    }
+  });
+
+  app.patch("/api/investments/:id/operations/:operationId", (req, res) => {
+    try {
+      const existing = db.prepare("SELECT * FROM investment_operations WHERE id = ? AND investment_id = ?").get(req.params.operationId, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Operação não encontrada" });
+      }
+      const result = saveOperation(req.params.id, existing.id, { ...existing, ...req.body });
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar operação" });
+    }
+  });
+
+  app.delete("/api/investments/:id/operations/:operationId", (req, res) => {
+    const others: InvestmentOperation[] = db.prepare("SELECT * FROM investment_operations WHERE investment_id = ? AND id != ?").all(req.params.id, req.params.operationId);
+    if (isOversold(others)) {
+      return res.status(400).json({ error: "Sem esta compra, as vendas registradas ficariam maiores que a posição" });
+    }
+    db.prepare("DELETE FROM investment_operations WHERE id = ? AND investment_id = ?").run(req.params.operationId, req.params.id);
+    res.sendStatus(200);
+  });
+
+  app.get("/api/investments/:id/prices", (req, res) => {
+    const prices = db.prepare("SELECT * FROM investment_prices WHERE investment_id = ? ORDER BY date").all(req.params.id);
+    res.json(prices);
+  });
+
+  // One quote per day; updating the price again on the same day replaces it
+  app.post("/api/investments/:id/prices", (req, res) => {
+    try {
+      if (!db.prepare("SELECT id FROM investments WHERE id = ?").get(req.params.id)) {
+        return res.status(404).json({ error: "Investimento não encontrado" });
+      }
+      const { date, price } = req.body;
+      if (!date || !DATE_PATTERN.test(date) || isNaN(price) || price < 0) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      db.prepare(
+        "INSERT INTO investment_prices (investment_id, date, price) VALUES (?, ?, ?) ON CONFLICT(investment_id, date) DO UPDATE SET price = excluded.price"
+      ).run(req.params.id, date, price);
+      res.json(withPosition(db.prepare("SELECT * FROM investments WHERE id = ?").get(req.params.id)));
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar preço" });
+    }
+  });
+
+  app.delete("/api/investments/:id/prices/:priceId", (req, res) => {
+    db.prepare("DELETE FROM investment_prices WHERE id = ? AND investment_id = ?").run(req.params.priceId, req.params.id);
+    res.sendStatus(200);
+  });
+
+  // Current vs. target allocation by asset class at market value, and how to split `contribution`
+  app.get("/api/allocation", (req, res) => {
+    const contribution = Number(req.query.contribution || 0);
+    if (isNaN(contribution) || contribution < 0) {
+      return res.status(400).json({ error: "Valor de aporte inválido" });
+    }
+    const investments: Investment[] = db.prepare("SELECT * FROM investments").all();
+    const values: Partial<Record<AssetClass, number>> = {};
+    let unclassified = 0;
+    for (const investment of investments.map(withPosition)) {
+      if (investment.asset_class) {
+        values[investment.asset_class] = (values[investment.asset_class] || 0) + investment.amount;
+      } else {
+        unclassified += investment.amount;
+      }
+    }
+    const targets = Object.fromEntries(
+      db.prepare("SELECT * FROM allocation_targets").all().map((t: { asset_class: string, target_percent: number }) => [t.asset_class, t.target_percent])
+    );
+    const classes = rebalance(values, targets, contribution);
+    res.json({
+      total: classes.reduce((sum, c) => sum + c.value, 0),
+      contribution,
+      classes,
+      unclassified: Math.round(unclassified * 100) / 100
+    });
+  });
+
+  // Replaces every target; they must add up to 100% (or all be zero to clear them)
+  app.post("/api/allocation/targets", (req, res) => {
+    try {
+      const targets: Record<string, number> = req.body.targets || {};
+      const entries = Object.entries(targets).filter(([, percent]) => Number(percent) > 0);
+      if (entries.some(([assetClass, percent]) => !ASSET_CLASSES.includes(assetClass) || isNaN(Number(percent)) || Number(percent) > 100)) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      const sum = entries.reduce((total, [, percent]) => total + Number(percent), 0);
+      if (entries.length > 0 && Math.abs(sum - 100) > 0.01) {
+        return res.status(400).json({ error: "As metas de alocação devem somar 100%" });
+      }
+      db.transaction(() => {
+        db.prepare("DELETE FROM allocation_targets").run();
+        const insert = db.prepare("INSERT INTO allocation_targets (asset_class, target_percent) VALUES (?, ?)");
+        entries.forEach(([assetClass, percent]) => insert.run(assetClass, Number(percent)));
+      })();
+      res.sendStatus(200);
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao salvar metas de alocação" });
+    }
+  });
+
+  app.get("/api/index-rates", (req, res) => {
+    const indexer = req.query.indexer as string | undefined;
+    const rates = indexer
+      ? db.prepare("SELECT * FROM index_rates WHERE indexer = ? ORDER BY date DESC").all(indexer)
+      : db.prepare("SELECT * FROM index_rates ORDER BY indexer, date DESC").all();
+    res.json(rates);
+  });
+
+  // One rate per index and date; saving the same date again replaces it
+  app.post("/api/index-rates", (req, res) => {
+    try {
+      const { indexer, date, rate } = req.body;
+      if (!INDEXERS.includes(indexer) || !date || !DATE_PATTERN.test(date) || rate == null || isNaN(rate)) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      const info = db.prepare(
+        "INSERT INTO index_rates (indexer, date, rate) VALUES (?, ?, ?) ON CONFLICT(indexer, date) DO UPDATE SET rate = excluded.rate"
+      ).run(indexer, date, rate);
+      res.json({ id: info.lastInsertRowid });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao salvar taxa" });
+    }
+  });
+
+  app.post("/api/index-rates/import", (req, res) => {
+    try {
+      const { indexer, content } = req.body;
+      if (!INDEXERS.includes(indexer) || typeof content !== "string") {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      const entries = parseRateSeries(content);
+      if (entries.length === 0) {
+        return res.status(400).json({ error: "Nenhuma taxa reconhecida no arquivo" });
+      }
+      const upsert = db.prepare(
+        "INSERT INTO index_rates (indexer, date, rate) VALUES (@indexer, @date, @rate) ON CONFLICT(indexer, date) DO UPDATE SET rate = excluded.rate"
+      );
+      db.transaction(() => entries.forEach(entry => upsert.run({ ...entry, indexer })))();
+      res.json({ imported: entries.length });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao importar taxas" });
+    }
+  });
+
+  app.delete("/api/index-rates/:id", (req, res) => {
+    db.prepare("DELETE FROM index_rates WHERE id = ?").run(req.params.id);
+    res.sendStatus(200);
+  });
+
+  app.get("/api/occurrences", (req, res) => {
+    const from = req.query.from as string | undefined;
+    const to = (req.query.to as string | undefined) || format(endOfMonth(new Date()), "yyyy-MM-dd");
+    if ((from && !DATE_PATTERN.test(from)) || !DATE_PATTERN.test(to)) {
+      return res.status(400).json({ error: "Período inválido" });
+    }
+    res.json(getOccurrences(from || null, to));
+  });
+
+  app.get("/api/summary", (req, res) => {
+    const { from, to, month, quarter, year } = req.query as Record<string, string | undefined>;
+    if (!from && !to && !month && !quarter && !year) {
+      // Installments and recurring entries count once per occurrence up to the end of the current month
+      return res.json(summarize(null, format(endOfMonth(new Date()), "yyyy-MM-dd")));
+    }
+
+    const period = resolvePeriod({ from, to, month, quarter, year });
+    if (!period) {
+      return res.status(400).json({ error: "Período inválido" });
+    }
+    res.json({
+      ...summarize(period.from, period.to),
+      from: period.from,
+      to: period.to,
+      previous: { ...summarize(period.previousFrom, period.previousTo), from: period.previousFrom, to: period.previousTo }
+    });
+  });
+
+  app.get("/api/accounts", (req, res) => {
+    res.json(getAccountBalances());
+  });
+
+  app.post("/api/accounts", (req, res) => {
+    try {
+      const { name, type, opening_balance, closing_day, due_day } = req.body;
+      const invalid = validateAccount(req.body);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      const isCard = type === "credit_card";
+      const info = db.prepare(
+        "INSERT INTO accounts (name, type, opening_balance, closing_day, due_day) VALUES (?, ?, ?, ?, ?)"
+      ).run(name, type, opening_balance || 0, isCard ? closing_day : null, isCard ? due_day : null);
+      res.json({ id: info.lastInsertRowid });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao salvar conta" });
+    }
+  });
+
+  app.patch("/api/accounts/:id", (req, res) => {
+    try {
+      const existing = db.prepare("SELECT * FROM accounts WHERE id = ?").get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Conta não encontrada" });
+      }
+      const merged = { ...existing, ...req.body };
+      const { name, type, opening_balance, closing_day, due_day } = merged;
+      const invalid = validateAccount(merged);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      const isCard = type === "credit_card";
+      db.prepare(
+        "UPDATE accounts SET name = ?, type = ?, opening_balance = ?, closing_day = ?, due_day = ? WHERE id = ?"
+      ).run(name, type, opening_balance || 0, isCard ? closing_day : null, isCard ? due_day : null, req.params.id);
+      res.json({ id: Number(req.params.id) });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar conta" });
+    }
+  });
+
+  app.delete("/api/accounts/:id", (req, res) => {
+    const hasTransfers = db.prepare("SELECT id FROM transfers WHERE from_account_id = ? OR to_account_id = ?").get(req.params.id, req.params.id);
+    if (hasTransfers) {
+      return res.status(409).json({ error: "Exclua as transferências desta conta antes de removê-la" });
+    }
+    // Transactions stay in the history, just without an account
+    db.transaction(() => {
+      db.prepare("UPDATE transactions SET account_id = NULL WHERE account_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM category_rules WHERE account_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM accounts WHERE id = ?").run(req.params.id);
+    })();
+    res.sendStatus(200);
+  });
+
+  app.get("/api/accounts/:id/invoices", (req, res) => {
+    const card = db.prepare("SELECT * FROM accounts WHERE id = ? AND type = 'credit_card'").get(req.params.id);
+    if (!card) {
+      return res.status(404).json({ error: "Cartão não encontrado" });
+    }
+    if (!card.closing_day || !card.due_day) {
+      return res.status(400).json({ error: "Informe os dias de fechamento e vencimento do cartão" });
+    }
+    res.json(getInvoices(card));
+  });
+
+  // Paying an invoice moves money from a checking account to the card. It's recorded as a transfer
+  // because the purchases themselves were already counted as expenses.
+  app.post("/api/accounts/:id/invoices/:month/pay", (req, res) => {
+    try {
+      const card = db.prepare("SELECT * FROM accounts WHERE id = ? AND type = 'credit_card'").get(req.params.id);
+      if (!card || !card.closing_day || !card.due_day) {
+        return res.status(404).json({ error: "Cartão não encontrado" });
+      }
+      const invoice = getInvoices(card).find(i => i.month === req.params.month);
+      if (!invoice) {
+        return res.status(404).json({ error: "Fatura não encontrada" });
+      }
+
+      // Without an amount or date, the whole open balance is paid today
+      const { from_account_id, date = format(new Date(), "yyyy-MM-dd"), amount } = req.body;
+      const source = db.prepare("SELECT * FROM accounts WHERE id = ?").get(from_account_id);
+      if (!source || source.type === "credit_card") {
+        return res.status(400).json({ error: "Escolha uma conta de origem válida" });
+      }
+      if (!isDate(date)) {
+        return res.status(400).json({ error: "Data inválida" });
+      }
+      const open = Math.round((invoice.total - invoice.paid) * 100) / 100;
+      if (open <= 0) {
+        return res.status(400).json({ error: "Fatura sem valor em aberto" });
+      }
+      if (amount !== undefined && (typeof amount !== "number" || !(amount > 0))) {
+        return res.status(400).json({ error: "Valor de pagamento inválido" });
+      }
+      if (amount > open) {
+        return res.status(400).json({ error: "Valor maior que o saldo em aberto da fatura" });
+      }
+
+      const info = db.prepare(
+        "INSERT INTO transfers (from_account_id, to_account_id, amount, date, description, invoice_month) VALUES (?, ?, ?, ?, ?, ?)"
+      ).run(from_account_id, card.id, amount ?? open, date, `Pagamento fatura ${card.name} ${invoice.month}`, invoice.month);
+      res.json({ id: info.lastInsertRowid });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao pagar fatura" });
+    }
+  });
+
+  app.get("/api/transfers", (req, res) => {
+    const transfers = db.prepare("SELECT * FROM transfers ORDER BY date DESC").all();
+    res.json(transfers);
+  });
 
-async function startServer() {
-  const app = express();
-  const PORT = 3000;
+  app.post("/api/transfers", (req, res) => {
+    try {
+      const { from_account_id, to_account_id, amount, date, description } = req.body;
+      if (!from_account_id || !to_account_id || isNaN(amount) || amount <= 0 || !isDate(date)) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      if (Number(from_account_id) === Number(to_account_id) || !accountExists(from_account_id) || !accountExists(to_account_id)) {
+        return res.status(400).json({ error: "Contas inválidas" });
+      }
+      const info = db.prepare(
+        "INSERT INTO transfers (from_account_id, to_account_id, amount, date, description) VALUES (?, ?, ?, ?, ?)"
+      ).run(from_account_id, to_account_id, amount, date, description || null);
+      res.json({ id: info.lastInsertRowid });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao salvar transferência" });
+    }
+  });
 
-  app.use(express.json());
+  app.delete("/api/transfers/:id", (req, res) => {
+    db.prepare("DELETE FROM transfers WHERE id = ?").run(req.params.id);
+    res.sendStatus(200);
+  });
 
-  // API Routes
-  app.get("/api/transactions", (req, res) => {
-    const transactions = db.prepare("SELECT * FROM transactions ORDER BY date DESC").all();
-    res.json(transactions);
+  app.get("/api/categories", (req, res) => {
+    const categories = db.prepare("SELECT * FROM categories ORDER BY name").all();
+    res.json(categories);
   });
 
-  app.post("/api/transactions", (req, res) => {
+  app.post("/api/categories", (req, res) => {
     try {
-      const { description, amount, type, category, date, is_recurring, installments, start_date } = req.body;
-      if (!description || isNaN(amount) || !type || !category || !date) {
+      const { name, type, parent_id, icon, color } = req.body;
+      if (!name?.trim() || !["income", "expense"].includes(type)) {
         return res.status(400).json({ error: "Dados incompletos ou inválidos" });
       }
+      if (parent_id && !db.prepare("SELECT id FROM categories WHERE id = ?").get(parent_id)) {
+        return res.status(400).json({ error: "Categoria pai inválida" });
+      }
       const info = db.prepare(
-        "INSERT INTO transactions (description, amount, type, category, date, is_recurring, installments, start_date) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
-      ).run(description, amount, type, category, date, is_recurring ? 1 : 0, installments || 1, start_date || date);
+        "INSERT INTO categories (name, parent_id, type, icon, color) VALUES (?, ?, ?, ?, ?)"
+      ).run(name.trim(), parent_id || null, type, icon || null, color || null);
       res.json({ id: info.lastInsertRowid });
     } catch (error) {
+      if ((error as { code?: string }).code === "SQLITE_CONSTRAINT_UNIQUE") {
+        return res.status(409).json({ error: "Já existe uma categoria com este nome" });
+      }
       console.error("DB Error:", error);
-      res.status(500).json({ error: "Erro ao salvar transação" });
+      res.status(500).json({ error: "Erro ao salvar categoria" });
     }
   });
 
-  app.delete("/api/transactions/:id", (req, res) => {
-    db.prepare("DELETE FROM transactions WHERE id = ?").run(req.params.id);
+  // Renaming rewrites the category on every transaction, goal and budget that uses it
+  app.patch("/api/categories/:id", (req, res) => {
+    try {
+      const existing = db.prepare("SELECT * FROM categories WHERE id = ?").get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Categoria não encontrada" });
+      }
+      const { name, type, parent_id, icon, color } = { ...existing, ...req.body };
+      if (!name?.trim() || !["income", "expense"].includes(type)) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      const categories: Category[] = db.prepare("SELECT * FROM categories").all();
+      if (parent_id && (!categories.some(c => c.id === Number(parent_id)) || isDescendant(categories, Number(parent_id), existing.id))) {
+        return res.status(400).json({ error: "Categoria pai inválida" });
+      }
+      db.transaction(() => {
+        db.prepare(
+          "UPDATE categories SET name = ?, parent_id = ?, type = ?, icon = ?, color = ? WHERE id = ?"
+        ).run(name.trim(), parent_id || null, type, icon || null, color || null, existing.id);
+        rewriteCategory(existing.name, name.trim());
+      })();
+      res.json({ id: existing.id });
+    } catch (error) {
+      if ((error as { code?: string }).code === "SQLITE_CONSTRAINT_UNIQUE") {
+        return res.status(409).json({ error: "Já existe uma categoria com este nome" });
+      }
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar categoria" });
+    }
+  });
+
+  // Moves everything from one category into another and removes the source; its subcategories
+  // are re-parented under the target.
+  app.post("/api/categories/:id/merge", (req, res) => {
+    try {
+      const source = db.prepare("SELECT * FROM categories WHERE id = ?").get(req.params.id);
+      const target = db.prepare("SELECT * FROM categories WHERE id = ?").get(req.body.target_id);
+      if (!source || !target) {
+        return res.status(404).json({ error: "Categoria não encontrada" });
+      }
+      const categories: Category[] = db.prepare("SELECT * FROM categories").all();
+      if (isDescendant(categories, target.id, source.id)) {
+        return res.status(400).json({ error: "Não é possível mesclar uma categoria em uma subcategoria dela" });
+      }
+      db.transaction(() => {
+        rewriteCategory(source.name, target.name);
+        db.prepare("UPDATE categories SET parent_id = ? WHERE parent_id = ?").run(target.id, source.id);
+        db.prepare("DELETE FROM categories WHERE id = ?").run(source.id);
+      })();
+      res.json({ id: target.id });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao mesclar categorias" });
+    }
+  });
+
+  app.delete("/api/categories/:id", (req, res) => {
+    const category = db.prepare("SELECT * FROM categories WHERE id = ?").get(req.params.id);
+    if (!category) {
+      return res.status(404).json({ error: "Categoria não encontrada" });
+    }
+    const inUse = db.prepare(`
+      SELECT 1 FROM transactions WHERE category = @name
+      UNION ALL SELECT 1 FROM goals WHERE category = @name
+      UNION ALL SELECT 1 FROM budgets WHERE category = @name
+      UNION ALL SELECT 1 FROM category_rules WHERE category = @name
+      UNION ALL SELECT 1 FROM envelope_moves WHERE from_category = @name OR to_category = @name
+      UNION ALL SELECT 1 FROM categories WHERE parent_id = @id
+      LIMIT 1
+    `).get({ name: category.name, id: category.id });
+    if (inUse) {
+      return res.status(409).json({ error: "Categoria em uso; mescle-a em outra categoria" });
+    }
+    db.prepare("DELETE FROM categories WHERE id = ?").run(category.id);
     res.sendStatus(200);
   });
 
-  app.get("/api/investments", (req, res) => {
-    const investments = db.prepare("SELECT * FROM investments ORDER BY date DESC").all();
-    res.json(investments);
+  app.get("/api/rules", (req, res) => {
+    res.json(getRules());
   });
 
-  app.post("/api/investments", (req, res) => {
+  app.post("/api/rules", (req, res) => {
     try {
-      const { name, amount, type, expected_return, date } = req.body;
-      if (!name || isNaN(amount) || !type || !date) {
-        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      const invalid = validateRule(req.body);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
       }
+      const { description_pattern, min_amount, max_amount, account_id, category, type } = req.body;
+      // New rules go to the end of the list
+      const { next } = db.prepare("SELECT COALESCE(MAX(priority), -1) + 1 as next FROM category_rules").get();
       const info = db.prepare(
-        "INSERT INTO investments (name, amount, type, expected_return, date) VALUES (?, ?, ?, ?, ?)"
-      ).run(name, amount, type, expected_return, date);
+        "INSERT INTO category_rules (priority, description_pattern, min_amount, max_amount, account_id, category, type) VALUES (?, ?, ?, ?, ?, ?, ?)"
+      ).run(next, description_pattern?.trim() || null, min_amount ?? null, max_amount ?? null, account_id || null, ensureCategory(category, categoryTypeOf(type || "variable_expense")), type || null);
       res.json({ id: info.lastInsertRowid });
     } catch (error) {
       console.error("DB Error:", error);
-      res.status(500).json({ error: "Erro ao salvar investimento" });
+      res.status(500).json({ error: "Erro ao salvar regra" });
     }
   });
 
-  app.get("/api/summary", (req, res) => {
-    const income = db.prepare("SELECT SUM(amount) as total FROM transactions WHERE type = 'income'").get().total || 0;
-    const variable_income = db.prepare("SELECT SUM(amount) as total FROM transactions WHERE type = 'variable_income'").get().total || 0;
-    const fixed = db.prepare("SELECT SUM(amount) as total FROM transactions WHERE type = 'fixed_expense'").get().total || 0;
-    const variable = db.prepare("SELECT SUM(amount) as total FROM transactions WHERE type = 'variable_expense'").get().total || 0;
-    const invested = db.prepare("SELECT SUM(amount) as total FROM investments").get().total || 0;
-    
-    res.json({ income, variable_income, fixed, variable, invested });
+  // Sets the priority of every rule from its position in `ids`
+  app.post("/api/rules/reorder", (req, res) => {
+    const { ids } = req.body;
+    if (!Array.isArray(ids)) {
+      return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+    }
+    const update = db.prepare("UPDATE category_rules SET priority = ? WHERE id = ?");
+    db.transaction(() => ids.forEach((id: number, index: number) => update.run(index, id)))();
+    res.json(getRules());
+  });
+
+  // Runs the rules over the stored transactions. With `dry_run` nothing is written and the response
+  // lists the transactions whose category or type would change.
+  app.post("/api/rules/apply", (req, res) => {
+    try {
+      const rules = getRules();
+      const changes: RuleApplication[] = [];
+      for (const transaction of db.prepare("SELECT * FROM transactions ORDER BY date DESC, id DESC").all() as Transaction[]) {
+        const match = categorize(rules, transaction);
+        if (match && (match.category !== transaction.category || match.type !== transaction.type)) {
+          changes.push({ transaction, rule_id: match.rule_id, category: match.category, type: match.type });
+        }
+      }
+      if (!req.body.dry_run) {
+        const update = db.prepare("UPDATE transactions SET category = ?, type = ? WHERE id = ?");
+        db.transaction(() => changes.forEach(c => update.run(c.category, c.type, c.transaction.id)))();
+      }
+      res.json(changes);
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao aplicar regras" });
+    }
+  });
+
+  app.patch("/api/rules/:id", (req, res) => {
+    try {
+      const existing = db.prepare("SELECT * FROM category_rules WHERE id = ?").get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Regra não encontrada" });
+      }
+      const merged = { ...existing, ...req.body };
+      const invalid = validateRule(merged);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+      const { description_pattern, min_amount, max_amount, account_id, category, type, enabled } = merged;
+      db.prepare(
+        "UPDATE category_rules SET description_pattern = ?, min_amount = ?, max_amount = ?, account_id = ?, category = ?, type = ?, enabled = ? WHERE id = ?"
+      ).run(description_pattern?.trim() || null, min_amount ?? null, max_amount ?? null, account_id || null, ensureCategory(category, categoryTypeOf(type || "variable_expense")), type || null, enabled ? 1 : 0, req.params.id);
+      res.json({ id: Number(req.params.id) });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar regra" });
+    }
+  });
+
+  app.delete("/api/rules/:id", (req, res) => {
+    db.prepare("DELETE FROM category_rules WHERE id = ?").run(req.params.id);
+    res.sendStatus(200);
   });
 
   app.get("/api/goals", (req, res) => {
-    const goals = db.prepare("SELECT * FROM goals").all();
-    res.json(goals);
+    const goals: Goal[] = db.prepare(`${GOALS_QUERY} GROUP BY g.id`).all();
+    res.json(goals.map(goal => ({ ...goal, forecast: goalForecast(goal) })));
   });
 
   app.post("/api/goals", (req, res) => {
@@ -124,18 +1734,105 @@ async function startServer() {
       if (!name || isNaN(target_amount) || !deadline || !category) {
         return res.status(400).json({ error: "Dados incompletos ou inválidos" });
       }
-      const info = db.prepare(
-        "INSERT INTO goals (name, target_amount, current_amount, deadline, category) VALUES (?, ?, ?, ?, ?)"
-      ).run(name, target_amount, current_amount || 0, deadline, category);
-      res.json({ id: info.lastInsertRowid });
+      if (!isDate(deadline)) {
+        return res.status(400).json({ error: "Prazo inválido" });
+      }
+      // Money already saved when the goal is created is recorded as its first contribution
+      const id = db.transaction(() => {
+        const info = db.prepare(
+          "INSERT INTO goals (name, target_amount, deadline, category) VALUES (?, ?, ?, ?)"
+        ).run(name, target_amount, deadline, ensureCategory(category, "expense"));
+        if (current_amount > 0) {
+          db.prepare("INSERT INTO goal_contributions (goal_id, date, amount, description, is_opening) VALUES (?, ?, ?, ?, 1)")
+            .run(info.lastInsertRowid, format(new Date(), "yyyy-MM-dd"), current_amount, "Saldo inicial");
+        }
+        return info.lastInsertRowid;
+      })();
+      res.json({ id });
     } catch (error) {
       console.error("DB Error:", error);
       res.status(500).json({ error: "Erro ao salvar meta" });
     }
   });
 
+  app.patch("/api/goals/:id", (req, res) => {
+    try {
+      const existing = db.prepare("SELECT * FROM goals WHERE id = ?").get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Meta não encontrada" });
+      }
+      // current_amount is derived from the contributions and can't be set here
+      const { name, target_amount, deadline, category } = { ...existing, ...req.body };
+      if (!name || isNaN(target_amount) || !deadline || !category) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      if (!isDate(deadline)) {
+        return res.status(400).json({ error: "Prazo inválido" });
+      }
+      db.prepare(
+        "UPDATE goals SET name = ?, target_amount = ?, deadline = ?, category = ? WHERE id = ?"
+      ).run(name, target_amount, deadline, ensureCategory(category, "expense"), req.params.id);
+      res.json({ id: Number(req.params.id) });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar meta" });
+    }
+  });
+
   app.delete("/api/goals/:id", (req, res) => {
-    db.prepare("DELETE FROM goals WHERE id = ?").run(req.params.id);
+    db.transaction(() => {
+      db.prepare("DELETE FROM goal_contributions WHERE goal_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM goals WHERE id = ?").run(req.params.id);
+    })();
+    res.sendStatus(200);
+  });
+
+  app.get("/api/goals/:id/forecast", (req, res) => {
+    const goal = db.prepare(`${GOALS_QUERY} WHERE g.id = ? GROUP BY g.id`).get(req.params.id);
+    if (!goal) {
+      return res.status(404).json({ error: "Meta não encontrada" });
+    }
+    res.json(goalForecast(goal));
+  });
+
+  app.get("/api/goals/:id/contributions", (req, res) => {
+    // The client only holds the latest transactions, so linked ones come with their description
+    const contributions = db.prepare(`
+      SELECT c.*, t.description as transaction_description
+      FROM goal_contributions c LEFT JOIN transactions t ON t.id = c.transaction_id
+      WHERE c.goal_id = ? ORDER BY c.date, c.id
+    `).all(req.params.id);
+    res.json(contributions);
+  });
+
+  // Negative amounts are withdrawals from the goal
+  app.post("/api/goals/:id/contributions", (req, res) => {
+    try {
+      if (!db.prepare("SELECT id FROM goals WHERE id = ?").get(req.params.id)) {
+        return res.status(404).json({ error: "Meta não encontrada" });
+      }
+      const { date, amount, description, transaction_id, investment_id } = req.body;
+      if (!date || !DATE_PATTERN.test(date) || isNaN(amount) || !amount) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      if (transaction_id && !db.prepare("SELECT id FROM transactions WHERE id = ?").get(transaction_id)) {
+        return res.status(400).json({ error: "Transação inválida" });
+      }
+      if (investment_id && !db.prepare("SELECT id FROM investments WHERE id = ?").get(investment_id)) {
+        return res.status(400).json({ error: "Investimento inválido" });
+      }
+      const info = db.prepare(
+        "INSERT INTO goal_contributions (goal_id, date, amount, description, transaction_id, investment_id) VALUES (?, ?, ?, ?, ?, ?)"
+      ).run(req.params.id, date, amount, description || null, transaction_id || null, investment_id || null);
+      res.json({ id: info.lastInsertRowid });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao salvar contribuição" });
+    }
+  });
+
+  app.delete("/api/goals/:id/contributions/:contributionId", (req, res) => {
+    db.prepare("DELETE FROM goal_contributions WHERE id = ? AND goal_id = ?").run(req.params.contributionId, req.params.id);
     res.sendStatus(200);
   });
 
@@ -144,15 +1841,32 @@ async function startServer() {
     res.json(budgets);
   });
 
+  app.get("/api/budgets/status", (req, res) => {
+    const month = (req.query.month as string | undefined) || format(new Date(), "yyyy-MM");
+    if (!MONTH_PATTERN.test(month) || !resolvePeriod({ month })) {
+      return res.status(400).json({ error: "Mês inválido" });
+    }
+    res.json(getBudgetStatuses(month));
+  });
+
+  app.get("/api/budgets/variance", (req, res) => {
+    const month = (req.query.month as string | undefined) || format(new Date(), "yyyy-MM");
+    const months = Number(req.query.months || 12);
+    if (!MONTH_PATTERN.test(month) || !resolvePeriod({ month }) || !Number.isInteger(months) || months < 1 || months > 36) {
+      return res.status(400).json({ error: "Período inválido" });
+    }
+    res.json(getBudgetVariance(month, months));
+  });
+
   app.post("/api/budgets", (req, res) => {
     try {
-      const { category, limit_amount } = req.body;
-      if (!category || isNaN(limit_amount)) {
+      const { category, limit_amount, period = "monthly", rollover, start_date } = req.body;
+      if (!category || isNaN(limit_amount) || !BUDGET_PERIODS.includes(period) || (start_date && !DATE_PATTERN.test(start_date))) {
         return res.status(400).json({ error: "Dados incompletos ou inválidos" });
       }
       const info = db.prepare(
-        "INSERT OR REPLACE INTO budgets (category, limit_amount) VALUES (?, ?)"
-      ).run(category, limit_amount);
+        "INSERT OR REPLACE INTO budgets (category, limit_amount, period, rollover, start_date) VALUES (?, ?, ?, ?, ?)"
+      ).run(ensureCategory(category, "expense"), limit_amount, period, rollover ? 1 : 0, start_date || format(new Date(), "yyyy-MM-01"));
       res.json({ id: info.lastInsertRowid });
     } catch (error) {
       console.error("DB Error:", error);
@@ -160,11 +1874,348 @@ async function startServer() {
     }
   });
 
+  app.patch("/api/budgets/:id", (req, res) => {
+    try {
+      const existing = db.prepare("SELECT * FROM budgets WHERE id = ?").get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Orçamento não encontrado" });
+      }
+      const { category, limit_amount, period, rollover, start_date } = { ...existing, ...req.body };
+      if (!category || isNaN(limit_amount) || !BUDGET_PERIODS.includes(period) || (start_date && !DATE_PATTERN.test(start_date))) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      db.prepare(
+        "UPDATE budgets SET category = ?, limit_amount = ?, period = ?, rollover = ?, start_date = ? WHERE id = ?"
+      ).run(ensureCategory(category, "expense"), limit_amount, period, rollover ? 1 : 0, start_date || existing.start_date, req.params.id);
+      res.json({ id: Number(req.params.id) });
+    } catch (error) {
+      if ((error as { code?: string }).code === "SQLITE_CONSTRAINT_UNIQUE") {
+        return res.status(409).json({ error: "Já existe um orçamento para esta categoria" });
+      }
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar orçamento" });
+    }
+  });
+
   app.delete("/api/budgets/:id", (req, res) => {
     db.prepare("DELETE FROM budgets WHERE id = ?").run(req.params.id);
     res.sendStatus(200);
   });
 
+  app.get("/api/envelopes", (req, res) => {
+    const month = (req.query.month as string | undefined) || format(new Date(), "yyyy-MM");
+    if (!MONTH_PATTERN.test(month) || !resolvePeriod({ month })) {
+      return res.status(400).json({ error: "Mês inválido" });
+    }
+    res.json(getEnvelopes(month));
+  });
+
+  // Assigns money to an envelope (from_category null), returns it to "a distribuir" (to_category null)
+  // or moves it between two envelopes
+  app.post("/api/envelopes/moves", (req, res) => {
+    try {
+      const { month, amount, description } = req.body;
+      const from: string | null = req.body.from_category || null;
+      const to: string | null = req.body.to_category || null;
+      if (!month || !MONTH_PATTERN.test(month) || !resolvePeriod({ month }) || isNaN(amount) || amount <= 0 || from === to) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      const summary = getEnvelopes(month);
+      const available = from === null ? summary.unassigned : summary.envelopes.find(e => e.category === from)?.balance ?? 0;
+      if (amount > available + 0.005) {
+        return res.status(400).json({ error: from === null ? "Valor maior que o disponível a distribuir" : "Saldo insuficiente no envelope" });
+      }
+      const info = db.prepare(
+        "INSERT INTO envelope_moves (month, date, from_category, to_category, amount, description) VALUES (?, ?, ?, ?, ?, ?)"
+      ).run(
+        month,
+        format(new Date(), "yyyy-MM-dd"),
+        from && ensureCategory(from, "expense"),
+        to && ensureCategory(to, "expense"),
+        amount,
+        description || null
+      );
+      res.json({ id: info.lastInsertRowid });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao movimentar envelope" });
+    }
+  });
+
+  app.delete("/api/envelopes/moves/:id", (req, res) => {
+    db.prepare("DELETE FROM envelope_moves WHERE id = ?").run(req.params.id);
+    res.sendStatus(200);
+  });
+
+  app.get("/api/insights", async (req, res) => {
+    const month = (req.query.month as string) || format(new Date(), "yyyy-MM");
+    if (!MONTH_PATTERN.test(month) || !resolvePeriod({ month })) {
+      return res.status(400).json({ error: "Mês inválido" });
+    }
+    try {
+      const context = getInsightContext(month);
+      const { response, cached, generated_at } = await generateCached({
+        task: "insights",
+        system: INSIGHTS_SYSTEM,
+        prompt: insightsPrompt(context),
+        schema: INSIGHTS_SCHEMA,
+        input: context
+      }, parseInsights, req.query.refresh === "1");
+      res.json({ insights: response, provider: aiProvider.name, cached, generated_at });
+    } catch (error) {
+      console.error("AI Error:", error);
+      res.status(502).json({ error: "Não foi possível gerar insights no momento. Tente novamente mais tarde." });
+    }
+  });
+
+  app.get("/api/ask", (req, res) => {
+    const rows = db.prepare("SELECT * FROM ask_messages ORDER BY id DESC LIMIT ?").all(ASK_HISTORY_LIMIT);
+    res.json(rows.reverse().map(parseAskMessage));
+  });
+
+  // The model only picks one of the whitelisted aggregations and its filters; the numbers and the
+  // answer come from the occurrences themselves
+  app.post("/api/ask", async (req, res) => {
+    const { question } = req.body;
+    if (typeof question !== "string" || !question.trim() || question.length > 500) {
+      return res.status(400).json({ error: "Pergunta inválida" });
+    }
+    try {
+      const categories: Category[] = db.prepare("SELECT * FROM categories ORDER BY name").all();
+      const accounts: Account[] = db.prepare("SELECT id, name, type FROM accounts ORDER BY name").all();
+      const context: AskContext = {
+        today: format(new Date(), "yyyy-MM-dd"),
+        categories: categories.map(({ id, name, type, parent_id }) => ({ id, name, type, parent_id })),
+        accounts
+      };
+      const last = db.prepare("SELECT query FROM ask_messages WHERE role = 'assistant' AND query IS NOT NULL ORDER BY id DESC LIMIT 1").get();
+      const previous: AskQuery | null = last ? JSON.parse(last.query) : null;
+
+      const { response: query } = await generateCached({
+        task: "ask",
+        system: ASK_SYSTEM,
+        prompt: askPrompt(question.trim(), context, previous),
+        schema: ASK_SCHEMA,
+        input: { question: question.trim(), context, previous }
+      }, raw => sanitizeQuery(raw, context), false);
+      const result = runAskQuery(query, getOccurrences(query.from, query.to), categories);
+
+      const insert = db.prepare("INSERT INTO ask_messages (role, content, query, result) VALUES (?, ?, ?, ?)");
+      const ids = db.transaction(() => [
+        insert.run("user", question.trim(), null, null).lastInsertRowid,
+        insert.run("assistant", describeAnswer(query, result, accounts), JSON.stringify(query), JSON.stringify(result)).lastInsertRowid
+      ])();
+      res.json(db.prepare("SELECT * FROM ask_messages WHERE id IN (?, ?) ORDER BY id").all(...ids).map(parseAskMessage));
+    } catch (error) {
+      console.error("AI Error:", error);
+      res.status(502).json({ error: "Não foi possível responder a pergunta" });
+    }
+  });
+
+  app.delete("/api/ask", (req, res) => {
+    db.prepare("DELETE FROM ask_messages").run();
+    res.sendStatus(200);
+  });
+
+  app.get("/api/reviews", (req, res) => {
+    try {
+      refreshReviews();
+      const reviews = db.prepare("SELECT * FROM transaction_reviews WHERE status = 'open' ORDER BY id DESC").all();
+      const findTransaction = db.prepare("SELECT * FROM transactions WHERE id = ?");
+      res.json(reviews.map((r: ReviewDraft) => ({
+        ...r,
+        transaction: findTransaction.get(r.transaction_id),
+        related: r.related_id ? findTransaction.get(r.related_id) : null
+      })));
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao buscar lançamentos para revisar" });
+    }
+  });
+
+  app.post("/api/reviews/:id/dismiss", (req, res) => {
+    const info = db.prepare("UPDATE transaction_reviews SET status = 'dismissed' WHERE id = ?").run(req.params.id);
+    if (info.changes === 0) {
+      return res.status(404).json({ error: "Item não encontrado" });
+    }
+    res.sendStatus(200);
+  });
+
+  // Keeps the original of a duplicate and deletes the copy. The original inherits what only the
+  // copy had (bank id, account) and the goal contributions made with it.
+  app.post("/api/reviews/:id/merge", (req, res) => {
+    try {
+      const review = db.prepare("SELECT * FROM transaction_reviews WHERE id = ?").get(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Item não encontrado" });
+      }
+      if (review.kind !== "duplicate" || review.status !== "open") {
+        return res.status(400).json({ error: "Só duplicatas em aberto podem ser mescladas" });
+      }
+      const copy = db.prepare("SELECT * FROM transactions WHERE id = ?").get(review.transaction_id);
+      const original = db.prepare("SELECT id FROM transactions WHERE id = ?").get(review.related_id);
+      // One of the pair was deleted since the review was raised, so there is nothing left to merge
+      if (!copy || !original) {
+        db.prepare("UPDATE transaction_reviews SET status = 'dismissed' WHERE id = ?").run(review.id);
+        return res.status(404).json({ error: "Lançamento não encontrado" });
+      }
+      db.transaction(() => {
+        db.prepare("UPDATE goal_contributions SET transaction_id = ? WHERE transaction_id = ?").run(review.related_id, copy.id);
+        db.prepare("DELETE FROM transaction_reviews WHERE transaction_id = ? OR related_id = ?").run(copy.id, copy.id);
+        db.prepare("DELETE FROM transactions WHERE id = ?").run(copy.id);
+        db.prepare("UPDATE transactions SET fitid = COALESCE(fitid, ?), account_id = COALESCE(account_id, ?) WHERE id = ?")
+          .run(copy.fitid, copy.account_id, review.related_id);
+      })();
+      res.json({ id: review.related_id });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao mesclar lançamentos" });
+    }
+  });
+
+  app.get("/api/subscriptions", (req, res) => {
+    try {
+      const subscriptions = getSubscriptions();
+      const active = subscriptions.filter(s => s.active);
+      const round = (value: number) => Math.round(value * 100) / 100;
+      res.json({
+        subscriptions,
+        monthly_total: round(active.reduce((sum, s) => sum + s.monthly_cost, 0)),
+        annual_total: round(active.reduce((sum, s) => sum + s.annual_cost, 0))
+      });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao buscar assinaturas" });
+    }
+  });
+
+  // Schedules a detected monthly subscription as a recurring transaction from its next expected
+  // charge on. The charges already recorded stay as they are, so past totals don't change.
+  app.post("/api/subscriptions/convert", (req, res) => {
+    try {
+      const subscription = getSubscriptions().find(s => s.key === req.body.key && s.recurring_transaction_id === null);
+      if (!subscription) {
+        return res.status(404).json({ error: "Assinatura não encontrada" });
+      }
+      if (subscription.frequency !== "monthly") {
+        return res.status(400).json({ error: "Só cobranças mensais podem virar lançamentos recorrentes" });
+      }
+      if (!subscription.active) {
+        return res.status(400).json({ error: "Assinatura inativa não pode virar lançamento recorrente" });
+      }
+      // Charges up to today are already recorded, so the schedule starts at the next one
+      const start = firstChargeAfter(subscription, format(new Date(), "yyyy-MM-dd"));
+      const id = insertTransaction({
+        description: subscription.description,
+        amount: subscription.amount,
+        type: "fixed_expense",
+        category: subscription.category,
+        date: start,
+        start_date: start,
+        is_recurring: true,
+        installments: 1,
+        account_id: subscription.account_id
+      });
+      res.json({ id });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao converter assinatura" });
+    }
+  });
+
+  app.post("/api/subscriptions/ignore", (req, res) => {
+    if (typeof req.body.key !== "string" || !req.body.key) {
+      return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+    }
+    db.prepare("INSERT OR IGNORE INTO subscription_ignores (key) VALUES (?)").run(req.body.key);
+    res.sendStatus(200);
+  });
+
+  app.get("/api/notifications", (req, res) => {
+    try {
+      refreshNotifications();
+      res.json(db.prepare("SELECT * FROM notifications WHERE dismissed = 0 ORDER BY date DESC, id DESC LIMIT 100").all());
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao carregar notificações" });
+    }
+  });
+
+  app.patch("/api/notifications/:id", (req, res) => {
+    const info = db.prepare("UPDATE notifications SET read = ? WHERE id = ?").run(req.body.read === false ? 0 : 1, req.params.id);
+    if (info.changes === 0) {
+      return res.status(404).json({ error: "Notificação não encontrada" });
+    }
+    res.sendStatus(200);
+  });
+
+  app.post("/api/notifications/read-all", (req, res) => {
+    db.prepare("UPDATE notifications SET read = 1 WHERE read = 0").run();
+    res.sendStatus(200);
+  });
+
+  // The row stays, hidden, so its key keeps refreshNotifications from raising the same alert again
+  app.delete("/api/notifications/:id", (req, res) => {
+    db.prepare("UPDATE notifications SET dismissed = 1, read = 1 WHERE id = ?").run(req.params.id);
+    res.sendStatus(200);
+  });
+
+  app.get("/api/net-worth", (req, res) => {
+    try {
+      snapshotNetWorth();
+      res.json({
+        current: getNetWorth(),
+        history: db.prepare("SELECT * FROM net_worth_snapshots ORDER BY month").all()
+      });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao calcular patrimônio" });
+    }
+  });
+
+  app.get("/api/liabilities", (req, res) => {
+    res.json(db.prepare("SELECT * FROM liabilities ORDER BY name").all());
+  });
+
+  app.post("/api/liabilities", (req, res) => {
+    try {
+      const { name, kind = "loan", balance } = req.body;
+      if (!name || !LIABILITY_KINDS.includes(kind) || balance == null || isNaN(balance) || balance < 0) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      const info = db.prepare("INSERT INTO liabilities (name, kind, balance, updated_at) VALUES (?, ?, ?, ?)")
+        .run(name, kind, balance, format(new Date(), "yyyy-MM-dd"));
+      res.json({ id: info.lastInsertRowid });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao salvar dívida" });
+    }
+  });
+
+  app.patch("/api/liabilities/:id", (req, res) => {
+    try {
+      const existing = db.prepare("SELECT * FROM liabilities WHERE id = ?").get(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Dívida não encontrada" });
+      }
+      const { name, kind, balance } = { ...existing, ...req.body };
+      if (!name || !LIABILITY_KINDS.includes(kind) || balance == null || isNaN(balance) || balance < 0) {
+        return res.status(400).json({ error: "Dados incompletos ou inválidos" });
+      }
+      db.prepare("UPDATE liabilities SET name = ?, kind = ?, balance = ?, updated_at = ? WHERE id = ?")
+        .run(name, kind, balance, format(new Date(), "yyyy-MM-dd"), req.params.id);
+      res.json({ id: Number(req.params.id) });
+    } catch (error) {
+      console.error("DB Error:", error);
+      res.status(500).json({ error: "Erro ao atualizar dívida" });
+    }
+  });
+
+  app.delete("/api/liabilities/:id", (req, res) => {
+    db.prepare("DELETE FROM liabilities WHERE id = ?").run(req.params.id);
+    res.sendStatus(200);
+  });
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -182,6 +2233,19 @@ async function startServer() {
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
   });
+
+  // Bills and goal deadlines come due, and months end, without any request touching them, so check
+  // every hour as well
+  const hourlyJobs = () => {
+    try {
+      refreshNotifications();
+      snapshotNetWorth();
+    } catch (error) {
+      console.error("Scheduled Job Error:", error);
+    }
+  };
+  hourlyJobs();
+  setInterval(hourlyJobs, 60 * 60 * 1000);
 }
 
 startServer();
@@ -7,6 +7,7 @@ import {
   Wallet, 
   Plus, 
   Trash2, 
+  Pencil,
   Calendar,
   PieChart as PieChartIcon,
   LineChart as LineChartIcon,
@@ -21,7 +22,34 @@ import {
   BarChart3,
   FileUp,
   BrainCircuit,
-  AlertCircle
+  AlertCircle,
+  Landmark,
+  CreditCard,
+  PiggyBank,
+  Banknote,
+  ArrowLeftRight,
+  FileText,
+  Tags,
+  Tag,
+  House,
+  Utensils,
+  ShoppingCart,
+  Car,
+  HeartPulse,
+  GraduationCap,
+  Gamepad2,
+  Briefcase,
+  Shirt,
+  Plane,
+  Gift,
+  Zap,
+  Merge,
+  ArrowUp,
+  ArrowDown,
+  Sparkles,
+  Bell,
+  CheckCheck,
+  Repeat
 } from 'lucide-react';
 import { 
   BarChart, 
@@ -45,49 +73,115 @@ import { ptBR } from 'date-fns/locale';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { cn } from './lib/utils';
-import { Transaction, Investment, Summary, Goal, Budget } from './types';
+import { formatInstallment } from './lib/schedule';
+import { PeriodPreset, periodLabel, periodMonths, periodQueryString, periodStart, shiftPeriod } from './lib/period';
+import { CSV_DATE_FORMATS } from './lib/csv';
+import { decodeOfx } from './lib/ofx';
+import { categoryTree, isDescendant, rootCategory } from './lib/categories';
+import { BUDGET_PERIOD_LABELS } from './lib/budgets';
+import { OPERATION_LABELS } from './lib/positions';
+import { INDEXER_LABELS } from './lib/fixedIncome';
+import { ASSET_CLASS_COLORS, ASSET_CLASS_LABELS } from './lib/allocation';
+import { LIABILITY_KIND_LABELS } from './lib/networth';
+import { parseQuickAdd } from './lib/quickAdd';
+import { REVIEW_KIND_LABELS } from './lib/anomalies';
+import { SUBSCRIPTION_FREQUENCY_LABELS } from './lib/subscriptions';
+import { Transaction, Investment, Summary, Goal, Budget, Occurrence, TransactionFilters, Account, Transfer, CsvImportOptions, CsvImportPreview, CsvColumnMapping, ImportRowResult, OfxImportPreview, Invoice, Category, CategoryRule, RuleApplication, GoalContribution, GoalForecast, BudgetStatus, BudgetVariance, EnvelopeSummary, Notification, InvestmentOperation, InvestmentPrice, IndexRate, Allocation, AssetClass, Liability, NetWorth, NetWorthSnapshot, InsightsResult, QuickAddDraft, AskMessage, TransactionReview, Subscription, SubscriptionsSummary } from './types';
 
 const COLORS = ['#10b981', '#ef4444', '#f59e0b', '#6366f1', '#8b5cf6', '#ec4899'];
 
+// Icons available for categories, stored by key in the categories table
+const CATEGORY_ICONS: Record<string, React.ComponentType<{ size?: number }>> = {
+  'tag': Tag,
+  'home': House,
+  'utensils': Utensils,
+  'shopping-cart': ShoppingCart,
+  'car': Car,
+  'heart-pulse': HeartPulse,
+  'graduation-cap': GraduationCap,
+  'gamepad': Gamepad2,
+  'shirt': Shirt,
+  'plane': Plane,
+  'gift': Gift,
+  'zap': Zap,
+  'briefcase': Briefcase,
+  'trending-up': TrendingUp,
+  'piggy-bank': PiggyBank
+};
+const HISTORY_PAGE_SIZE = 50;
+const EMPTY_TRANSACTION_FILTERS: TransactionFilters = { q: '', type: '', category: '', account_id: '', from: '', to: '', min_amount: '', max_amount: '', sort: 'date', order: 'desc' };
+const ACCOUNT_TYPE_LABELS: Record<Account['type'], string> = {
+  checking: 'Conta Corrente',
+  savings: 'Poupança',
+  credit_card: 'Cartão de Crédito',
+  cash: 'Dinheiro'
+};
+const TRANSACTION_TYPE_LABELS: Record<Transaction['type'], string> = {
+  income: 'Entrada Fixa',
+  variable_income: 'Entrada Variável',
+  fixed_expense: 'Gasto Fixo',
+  variable_expense: 'Gasto Variável'
+};
+
 export default function App() {
   const [viewMode, setViewMode] = useState<'mobile' | 'web' | null>(null);
   const [darkMode, setDarkMode] = useState(false);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'transactions' | 'investments' | 'projections' | 'taxes' | 'goals' | 'budgets'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'transactions' | 'investments' | 'projections' | 'taxes' | 'goals' | 'budgets' | 'categories' | 'review' | 'subscriptions'>('dashboard');
   const [projectionView, setProjectionView] = useState<'chart' | 'reports'>('chart');
+  // Only the latest page, for the dashboard and as the signal that data changed; the history tab
+  // pages through the rest
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [occurrences, setOccurrences] = useState<Occurrence[]>([]);
+  const [historyFilters, setHistoryFilters] = useState<TransactionFilters>(EMPTY_TRANSACTION_FILTERS);
+  const [history, setHistory] = useState<Transaction[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
   const [investments, setInvestments] = useState<Investment[]>([]);
   const [goals, setGoals] = useState<Goal[]>([]);
   const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
   const [summary, setSummary] = useState<Summary>({ income: 0, variable_income: 0, fixed: 0, variable: 0, invested: 0 });
+  const [periodPreset, setPeriodPreset] = useState<PeriodPreset>('month');
+  const [periodAnchor, setPeriodAnchor] = useState(startOfMonth(new Date()));
+  const [periodSummary, setPeriodSummary] = useState<Summary>({ income: 0, variable_income: 0, fixed: 0, variable: 0, invested: 0 });
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [modalType, setModalType] = useState<'transaction' | 'investment' | 'goal' | 'budget'>('transaction');
+  const [modalType, setModalType] = useState<'transaction' | 'investment' | 'goal' | 'budget' | 'account' | 'transfer' | 'category' | 'rule'>('transaction');
+  const [editingRecord, setEditingRecord] = useState<Transaction | Investment | Goal | Budget | Account | null>(null);
   const [isRecurringChecked, setIsRecurringChecked] = useState(false);
   const [recurringStartDate, setRecurringStartDate] = useState(new Date().toISOString().split('T')[0]);
   const [recurringInstallments, setRecurringInstallments] = useState(12);
-  const [aiInsights, setAiInsights] = useState<string[]>([]);
+  const [aiInsights, setAiInsights] = useState<InsightsResult | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [csvImport, setCsvImport] = useState<{ content: string, preview: CsvImportPreview } | null>(null);
+  const [ofxImport, setOfxImport] = useState<{ content: string, preview: OfxImportPreview } | null>(null);
+  const [invoiceCard, setInvoiceCard] = useState<Account | null>(null);
+  const [contributionGoal, setContributionGoal] = useState<Goal | null>(null);
+  const [operationsInvestment, setOperationsInvestment] = useState<Investment | null>(null);
+  const [budgetMode, setBudgetMode] = useState<'limits' | 'envelopes'>('limits');
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [allocation, setAllocation] = useState<Allocation | null>(null);
+  const [reviews, setReviews] = useState<TransactionReview[]>([]);
+  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [accountType, setAccountType] = useState<Account['type']>('checking');
+  const [transactionType, setTransactionType] = useState<Transaction['type']>('income');
+  const [categoryType, setCategoryType] = useState<Category['type']>('expense');
+  const [investmentIndexer, setInvestmentIndexer] = useState<Investment['indexer']>(null);
   const [isAiLoading, setIsAiLoading] = useState(false);
 
+  // The server caches insights per month and data; once some are shown, "Atualizar" asks for new ones
   const generateInsights = async () => {
     setIsAiLoading(true);
+    setAiError(null);
     try {
-      const { GoogleGenAI } = await import("@google/genai");
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-      const prompt = `Analise os seguintes dados financeiros e forneça 3 insights curtos e práticos em português para melhorar a saúde financeira:
-      Transações: ${JSON.stringify(transactions.slice(0, 20))}
-      Metas: ${JSON.stringify(goals)}
-      Orçamentos: ${JSON.stringify(budgets)}
-      Responda apenas com os 3 insights em formato de lista, sem introdução.`;
-
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: prompt
-      });
-
-      const text = response.text || "";
-      setAiInsights(text.split('\n').filter(line => line.trim()));
+      const response = await fetch(`/api/insights${aiInsights ? '?refresh=1' : ''}`);
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao gerar insights');
+      setAiInsights(await response.json());
     } catch (error) {
       console.error("Error generating insights:", error);
-      setAiInsights(["Não foi possível gerar insights no momento. Tente novamente mais tarde."]);
+      setAiError(error instanceof Error ? error.message : "Não foi possível gerar insights no momento. Tente novamente mais tarde.");
     } finally {
       setIsAiLoading(false);
     }
@@ -99,53 +193,104 @@ export default function App() {
 
     const reader = new FileReader();
     reader.onload = async (event) => {
-      const text = event.target?.result as string;
-      const lines = text.split('\n').slice(1); // Skip header
-      
-      for (const line of lines) {
-        const [description, amount, type, category, date] = line.split(',');
-        if (description && amount) {
-          const cleanAmount = parseFloat(amount.replace(',', '.'));
-          if (!isNaN(cleanAmount)) {
-            await fetch('/api/transactions', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                description: description.trim(),
-                amount: cleanAmount,
-                type: type.trim(),
-                category: category.trim(),
-                date: date.trim(),
-                is_recurring: false
-              })
-            });
-          }
-        }
+      const content = event.target?.result as string;
+      try {
+        const response = await fetch('/api/import/csv/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content })
+        });
+        if (!response.ok) throw new Error('Falha ao ler arquivo');
+        setCsvImport({ content, preview: await response.json() });
+      } catch (error) {
+        console.error("Error reading CSV:", error);
+        alert("Não foi possível ler o arquivo CSV.");
       }
-      fetchData();
     };
     reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleImportOFX = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      const content = decodeOfx(event.target?.result as ArrayBuffer);
+      try {
+        const response = await fetch('/api/import/ofx/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content })
+        });
+        if (!response.ok) throw new Error('Falha ao ler arquivo');
+        setOfxImport({ content, preview: await response.json() });
+      } catch (error) {
+        console.error("Error reading OFX:", error);
+        alert("Não foi possível ler o arquivo OFX.");
+      }
+    };
+    reader.readAsArrayBuffer(file);
+    e.target.value = '';
   };
 
   const fetchData = async () => {
     try {
-      const [tRes, iRes, sRes, gRes, bRes] = await Promise.all([
-        fetch('/api/transactions'),
+      const projectionEnd = format(endOfMonth(addMonths(new Date(), 5)), 'yyyy-MM-dd');
+      const [tRes, oRes, iRes, sRes, gRes, bRes, bsRes, aRes, trRes, cRes, rRes, nRes, alRes, rvRes] = await Promise.all([
+        fetch(`/api/transactions?limit=${HISTORY_PAGE_SIZE}`),
+        fetch(`/api/occurrences?to=${projectionEnd}`),
         fetch('/api/investments'),
         fetch('/api/summary'),
         fetch('/api/goals'),
-        fetch('/api/budgets')
+        fetch('/api/budgets'),
+        fetch('/api/budgets/status'),
+        fetch('/api/accounts'),
+        fetch('/api/transfers'),
+        fetch('/api/categories'),
+        fetch('/api/rules'),
+        fetch('/api/notifications'),
+        fetch('/api/allocation'),
+        fetch('/api/reviews')
       ]);
       setTransactions(await tRes.json());
+      setOccurrences(await oRes.json());
       setInvestments(await iRes.json());
       setSummary(await sRes.json());
       setGoals(await gRes.json());
       setBudgets(await bRes.json());
+      setBudgetStatus(await bsRes.json());
+      setAccounts(await aRes.json());
+      setTransfers(await trRes.json());
+      setCategories(await cRes.json());
+      setRules(await rRes.json());
+      setNotifications(await nRes.json());
+      setAllocation(await alRes.json());
+      setReviews(await rvRes.json());
     } catch (error) {
       console.error("Error fetching data:", error);
     }
   };
 
+  const fetchHistory = async (cursor: string | null = null) => {
+    const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE) });
+    Object.entries(historyFilters).forEach(([key, value]) => {
+      if (value) params.set(key, String(value));
+    });
+    if (cursor) params.set('cursor', cursor);
+
+    try {
+      const response = await fetch(`/api/transactions?${params}`);
+      if (!response.ok) throw new Error('Falha ao buscar transações');
+      const page: Transaction[] = await response.json();
+      setHistory(prev => cursor ? [...prev, ...page] : page);
+      setHistoryCursor(response.headers.get('X-Next-Cursor'));
+    } catch (error) {
+      console.error("Error fetching history:", error);
+    }
+  };
+
   useEffect(() => {
     if (darkMode) {
       document.documentElement.classList.add('dark');
@@ -158,12 +303,45 @@ export default function App() {
     fetchData();
   }, []);
 
-  const openModal = (type: 'transaction' | 'investment' | 'goal' | 'budget') => {
+  // Debounced so typing in the search box doesn't fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => fetchHistory(), 300);
+    return () => clearTimeout(timer);
+  }, [historyFilters, transactions]);
+
+  // The overall summary is replaced on every fetchData, so this also refreshes after edits
+  useEffect(() => {
+    fetch(`/api/summary?${periodQueryString(periodPreset, periodAnchor)}`)
+      .then(res => res.json())
+      .then(setPeriodSummary)
+      .catch(error => console.error("Error fetching period summary:", error));
+  }, [periodPreset, periodAnchor, summary]);
+
+  const openModal = (type: 'transaction' | 'investment' | 'goal' | 'budget' | 'account' | 'transfer' | 'category' | 'rule', record: Transaction | Investment | Goal | Budget | Account | Category | CategoryRule | null = null) => {
     setModalType(type);
-    setIsRecurringChecked(false);
+    setEditingRecord(record);
+    const recurring = type === 'transaction' && record ? Boolean((record as Transaction).is_recurring) : false;
+    setIsRecurringChecked(recurring);
+    if (recurring) {
+      const t = record as Transaction;
+      setRecurringStartDate(t.start_date || t.date);
+      setRecurringInstallments(t.installments || 1);
+    }
+    setAccountType(type === 'account' && record ? (record as Account).type : 'checking');
+    setTransactionType(type === 'transaction' && record ? (record as Transaction).type : 'income');
+    setCategoryType(type === 'category' && record ? (record as Category).type : 'expense');
+    setInvestmentIndexer(type === 'investment' && record ? (record as Investment).indexer : null);
     setIsModalOpen(true);
   };
 
+  const editingTransaction = modalType === 'transaction' ? editingRecord as Transaction | null : null;
+  const editingInvestment = modalType === 'investment' ? editingRecord as Investment | null : null;
+  const editingGoal = modalType === 'goal' ? editingRecord as Goal | null : null;
+  const editingBudget = modalType === 'budget' ? editingRecord as Budget | null : null;
+  const editingAccount = modalType === 'account' ? editingRecord as Account | null : null;
+  const editingCategory = modalType === 'category' ? editingRecord as Category | null : null;
+  const editingRule = modalType === 'rule' ? editingRecord as CategoryRule | null : null;
+
   const handleAddTransaction = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
@@ -180,16 +358,18 @@ export default function App() {
       description: formData.get('description'),
       amount: amount,
       type: formData.get('type'),
-      category: formData.get('category'),
+      // Left empty, the server picks the category from the categorization rules
+      category: formData.get('category') || undefined,
       date: formData.get('date'),
       is_recurring: isRecurringChecked,
       installments: isRecurringChecked ? parseInt(formData.get('installments') as string) : 1,
-      start_date: isRecurringChecked ? formData.get('start_date') : formData.get('date')
+      start_date: isRecurringChecked ? formData.get('start_date') : formData.get('date'),
+      account_id: formData.get('account_id') ? Number(formData.get('account_id')) : null
     };
 
     try {
-      const response = await fetch('/api/transactions', {
-        method: 'POST',
+      const response = await fetch(editingRecord ? `/api/transactions/${editingRecord.id}` : '/api/transactions', {
+        method: editingRecord ? 'PATCH' : 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data)
       });
@@ -208,47 +388,67 @@ export default function App() {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     
-    const amountStr = (formData.get('amount') as string).replace(',', '.');
-    const amount = parseFloat(amountStr);
     const returnStr = (formData.get('expected_return') as string).replace(',', '.');
     const expected_return = parseFloat(returnStr);
+    // The first purchase is only asked for when creating; later ones are operations
+    const quantity = editingRecord ? null : parseFloat((formData.get('quantity') as string).replace(',', '.'));
+    const unit_price = editingRecord ? null : parseFloat((formData.get('unit_price') as string).replace(',', '.'));
 
-    if (isNaN(amount) || isNaN(expected_return)) {
+    if (isNaN(expected_return) || (!editingRecord && (isNaN(quantity!) || isNaN(unit_price!) || quantity! <= 0))) {
       alert("Por favor, insira valores válidos.");
       return;
     }
 
+    const indexer_rate = investmentIndexer ? parseFloat((formData.get('indexer_rate') as string).replace(',', '.')) : null;
+    if (investmentIndexer && isNaN(indexer_rate!)) {
+      alert("Informe a taxa contratada.");
+      return;
+    }
+
     const data = {
       name: formData.get('name'),
-      amount: amount,
+      ticker: (formData.get('ticker') as string).trim().toUpperCase() || null,
       type: formData.get('type'),
       expected_return: expected_return,
-      date: formData.get('date')
+      date: formData.get('date'),
+      asset_class: formData.get('asset_class') || null,
+      indexer: investmentIndexer,
+      indexer_rate,
+      maturity_date: investmentIndexer ? formData.get('maturity_date') || null : null,
+      tax_exempt: formData.get('tax_exempt') === 'on',
+      ...(editingRecord ? {} : { quantity, unit_price })
     };
 
     try {
-      const response = await fetch('/api/investments', {
-        method: 'POST',
+      const response = await fetch(editingRecord ? `/api/investments/${editingRecord.id}` : '/api/investments', {
+        method: editingRecord ? 'PATCH' : 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data)
       });
       
-      if (!response.ok) throw new Error('Falha ao salvar investimento');
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar investimento');
       
       setIsModalOpen(false);
       fetchData();
     } catch (error) {
       console.error("Error adding investment:", error);
-      alert("Erro ao salvar investimento.");
+      alert(error instanceof Error ? error.message : "Erro ao salvar investimento.");
     }
   };
 
+  const deleteInvestment = async (investment: Investment) => {
+    if (!confirm(`Excluir ${investment.name} e todas as suas operações?`)) return;
+    await fetch(`/api/investments/${investment.id}`, { method: 'DELETE' });
+    fetchData();
+  };
+
   const handleAddGoal = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     
     const targetStr = (formData.get('target_amount') as string).replace(',', '.');
-    const currentStr = (formData.get('current_amount') as string).replace(',', '.');
+    // Only asked when creating; afterwards the saved amount comes from the contributions
+    const currentStr = ((formData.get('current_amount') as string) || '0').replace(',', '.');
     const target_amount = parseFloat(targetStr);
     const current_amount = parseFloat(currentStr);
 
@@ -266,8 +466,8 @@ export default function App() {
     };
 
     try {
-      const response = await fetch('/api/goals', {
-        method: 'POST',
+      const response = await fetch(editingRecord ? `/api/goals/${editingRecord.id}` : '/api/goals', {
+        method: editingRecord ? 'PATCH' : 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data)
       });
@@ -296,12 +496,14 @@ export default function App() {
 
     const data = {
       category: formData.get('category'),
-      limit_amount: limit_amount
+      limit_amount: limit_amount,
+      period: formData.get('period'),
+      rollover: formData.get('rollover') === 'on'
     };
 
     try {
-      const response = await fetch('/api/budgets', {
-        method: 'POST',
+      const response = await fetch(editingRecord ? `/api/budgets/${editingRecord.id}` : '/api/budgets', {
+        method: editingRecord ? 'PATCH' : 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data)
       });
@@ -316,6 +518,186 @@ export default function App() {
     }
   };
 
+  const handleAddAccount = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    
+    const openingStr = ((formData.get('opening_balance') as string) || '0').replace(',', '.');
+    const opening_balance = parseFloat(openingStr);
+
+    if (isNaN(opening_balance)) {
+      alert("Por favor, insira um valor válido.");
+      return;
+    }
+
+    const data = {
+      name: formData.get('name'),
+      type: formData.get('type'),
+      opening_balance: opening_balance,
+      closing_day: accountType === 'credit_card' ? Number(formData.get('closing_day')) : null,
+      due_day: accountType === 'credit_card' ? Number(formData.get('due_day')) : null
+    };
+
+    try {
+      const response = await fetch(editingRecord ? `/api/accounts/${editingRecord.id}` : '/api/accounts', {
+        method: editingRecord ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar conta');
+      
+      setIsModalOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error("Error adding account:", error);
+      alert("Erro ao salvar conta.");
+    }
+  };
+
+  const handleAddTransfer = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    
+    const amountStr = (formData.get('amount') as string).replace(',', '.');
+    const amount = parseFloat(amountStr);
+
+    if (isNaN(amount) || amount <= 0) {
+      alert("Por favor, insira um valor válido.");
+      return;
+    }
+    if (formData.get('from_account_id') === formData.get('to_account_id')) {
+      alert("Escolha contas de origem e destino diferentes.");
+      return;
+    }
+
+    const data = {
+      from_account_id: Number(formData.get('from_account_id')),
+      to_account_id: Number(formData.get('to_account_id')),
+      amount: amount,
+      date: formData.get('date'),
+      description: formData.get('description')
+    };
+
+    try {
+      const response = await fetch('/api/transfers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      
+      if (!response.ok) throw new Error('Falha ao salvar transferência');
+      
+      setIsModalOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error("Error adding transfer:", error);
+      alert("Erro ao salvar transferência.");
+    }
+  };
+
+  const deleteAccount = async (id: number) => {
+    const response = await fetch(`/api/accounts/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const { error } = await response.json();
+      alert(error);
+      return;
+    }
+    fetchData();
+  };
+
+  const handleAddCategory = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+
+    const data = {
+      name: formData.get('name'),
+      type: formData.get('type'),
+      parent_id: formData.get('parent_id') ? Number(formData.get('parent_id')) : null,
+      icon: formData.get('icon'),
+      color: formData.get('color')
+    };
+
+    try {
+      const response = await fetch(editingRecord ? `/api/categories/${editingRecord.id}` : '/api/categories', {
+        method: editingRecord ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar categoria');
+      
+      setIsModalOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error("Error adding category:", error);
+      alert(error instanceof Error ? error.message : "Erro ao salvar categoria.");
+    }
+  };
+
+  const handleAddRule = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const optionalAmount = (field: string) => {
+      const value = ((formData.get(field) as string) || '').replace(',', '.');
+      return value ? parseFloat(value) : null;
+    };
+
+    const data = {
+      description_pattern: formData.get('description_pattern') || null,
+      min_amount: optionalAmount('min_amount'),
+      max_amount: optionalAmount('max_amount'),
+      account_id: formData.get('account_id') ? Number(formData.get('account_id')) : null,
+      category: formData.get('category'),
+      type: formData.get('type') || null
+    };
+
+    try {
+      const response = await fetch(editingRecord ? `/api/rules/${editingRecord.id}` : '/api/rules', {
+        method: editingRecord ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar regra');
+      
+      setIsModalOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error("Error adding rule:", error);
+      alert(error instanceof Error ? error.message : "Erro ao salvar regra.");
+    }
+  };
+
+  const deleteCategory = async (id: number) => {
+    const response = await fetch(`/api/categories/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const { error } = await response.json();
+      alert(error);
+      return;
+    }
+    fetchData();
+  };
+
+  const mergeCategory = async (id: number, targetId: number) => {
+    const response = await fetch(`/api/categories/${id}/merge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ target_id: targetId })
+    });
+    if (!response.ok) {
+      const { error } = await response.json();
+      alert(error);
+      return;
+    }
+    fetchData();
+  };
+
+  const deleteTransfer = async (id: number) => {
+    await fetch(`/api/transfers/${id}`, { method: 'DELETE' });
+    fetchData();
+  };
+
   const deleteTransaction = async (id: number) => {
     await fetch(`/api/transactions/${id}`, { method: 'DELETE' });
     fetchData();
@@ -329,36 +711,34 @@ export default function App() {
     return format(addMonths(new Date(startDate), installments - 1), 'MM/yyyy');
   };
 
-  const chartData = [
-    { name: 'Fixas', value: summary.income, color: '#10b981' },
-    { name: 'Variáveis', value: summary.variable_income, color: '#34d399' },
-    { name: 'Fixos', value: summary.fixed, color: '#ef4444' },
-    { name: 'Variáveis', value: summary.variable, color: '#f59e0b' },
-    { name: 'Investido', value: summary.invested, color: '#6366f1' },
-  ];
+  // Occurrences up to the end of the current month; later parcelas are still only scheduled
+  const currentMonthEnd = format(endOfMonth(new Date()), 'yyyy-MM-dd');
+  const realizedOccurrences = occurrences.filter(o => o.date <= currentMonthEnd);
 
+  // Subcategories are added to their main category so the pie stays readable
   const categoryData = Object.entries(
-    transactions.reduce((acc, t) => {
+    realizedOccurrences.filter(o => periodSummary.from && periodSummary.to && o.date >= periodSummary.from && o.date <= periodSummary.to).reduce((acc, t) => {
       if (t.type !== 'income' && t.type !== 'variable_income') {
-        acc[t.category] = (acc[t.category] || 0) + t.amount;
+        const name = rootCategory(categories, t.category)?.name || t.category;
+        acc[name] = (acc[name] || 0) + t.amount;
       }
       return acc;
     }, {} as Record<string, number>)
-  ).map(([name, value]) => ({ name, value }));
+  ).map(([name, value]) => ({ name, value, color: categories.find(c => c.name === name)?.color }));
 
-  // Simple projection for the next 6 months
+  // Projection for the next 6 months from the scheduled occurrences (parcelas and recurring entries)
+  // Opening balances of the accounts are money that was already there before the first transaction
+  const currentBalance = accounts.reduce((sum, a) => sum + (a.opening_balance || 0), 0) + summary.income + summary.variable_income - summary.fixed - summary.variable;
   const projectionData = Array.from({ length: 6 }).map((_, i) => {
     const month = addMonths(new Date(), i);
-    const recurringExpenses = transactions
-      .filter(t => t.is_recurring && (t.type === 'fixed_expense' || t.type === 'variable_expense'))
-      .reduce((sum, t) => sum + t.amount, 0);
-    const recurringIncome = transactions
-      .filter(t => t.is_recurring && (t.type === 'income' || t.type === 'variable_income'))
-      .reduce((sum, t) => sum + t.amount, 0);
+    const monthEnd = format(endOfMonth(month), 'yyyy-MM-dd');
+    const scheduledNet = occurrences
+      .filter(o => o.date > currentMonthEnd && o.date <= monthEnd)
+      .reduce((sum, o) => sum + ((o.type === 'income' || o.type === 'variable_income') ? o.amount : -o.amount), 0);
     
     return {
       month: format(month, 'MMM', { locale: ptBR }),
-      balance: (recurringIncome - recurringExpenses) * (i + 1) + (summary.income + summary.variable_income - summary.fixed - summary.variable)
+      balance: currentBalance + scheduledNet
     };
   });
 
@@ -383,8 +763,15 @@ export default function App() {
     return { inss, irpf, net: grossIncome - inss - irpf };
   };
 
-  const totalGrossIncome = summary.income + summary.variable_income;
-  const taxes = calculateTaxes(totalGrossIncome);
+  // INSS/IRPF tables are monthly: apply them to the period's average month and scale back up
+  const totalGrossIncome = periodSummary.income + periodSummary.variable_income;
+  const monthsInPeriod = periodMonths(periodPreset);
+  const monthlyTaxes = calculateTaxes(totalGrossIncome / monthsInPeriod);
+  const taxes = {
+    inss: monthlyTaxes.inss * monthsInPeriod,
+    irpf: monthlyTaxes.irpf * monthsInPeriod,
+    net: monthlyTaxes.net * monthsInPeriod
+  };
 
   return (
     <>
@@ -474,6 +861,10 @@ export default function App() {
                   <SidebarItem icon={<Calendar size={20} />} label="Impostos" active={activeTab === 'taxes'} onClick={() => setActiveTab('taxes')} />
                   <SidebarItem icon={<Flag size={20} />} label="Metas" active={activeTab === 'goals'} onClick={() => setActiveTab('goals')} />
                   <SidebarItem icon={<BarChart3 size={20} />} label="Orçamentos" active={activeTab === 'budgets'} onClick={() => setActiveTab('budgets')} />
+                  <SidebarItem icon={<Tags size={20} />} label="Categorias" active={activeTab === 'categories'} onClick={() => setActiveTab('categories')} />
+                  <SidebarItem icon={<Repeat size={20} />} label="Assinaturas" active={activeTab === 'subscriptions'} onClick={() => setActiveTab('subscriptions')} />
+                  <SidebarItem icon={<AlertCircle size={20} />} label="Revisar" active={activeTab === 'review'} badge={reviews.length} onClick={() => setActiveTab('review')} />
+                  <SidebarItem icon={<Bell size={20} />} label="Notificações" active={isNotificationsOpen} badge={notifications.filter(n => !n.read).length} onClick={() => setIsNotificationsOpen(true)} />
                 </nav>
               </div>
 
@@ -514,6 +905,7 @@ export default function App() {
                 </div>
                 <MobileNavItem icon={<TrendingUp />} label="Invest" active={activeTab === 'investments'} onClick={() => setActiveTab('investments')} />
                 <MobileNavItem icon={<Flag />} label="Metas" active={activeTab === 'goals'} onClick={() => setActiveTab('goals')} />
+                <MobileNavItem icon={<Bell />} label="Avisos" active={isNotificationsOpen} badge={notifications.filter(n => !n.read).length} onClick={() => setIsNotificationsOpen(true)} />
               </div>
             </nav>
           )}
@@ -534,7 +926,8 @@ export default function App() {
                    activeTab === 'investments' ? 'Investimentos' : 
                    activeTab === 'projections' ? 'Projeções' : 
                    activeTab === 'goals' ? 'Metas' : 
-                   activeTab === 'budgets' ? 'Orçamentos' : 'Impostos'}
+                   activeTab === 'budgets' ? 'Orçamentos' :
+                   activeTab === 'categories' ? 'Categorias' : 'Impostos'}
                 </h2>
                 <p className="text-slate-500 dark:text-slate-400 text-sm">
                   {format(new Date(), "EEEE, d 'de' MMMM", { locale: ptBR })}
@@ -558,7 +951,7 @@ export default function App() {
                   "font-bold",
                   viewMode === 'mobile' ? "text-3xl" : "text-4xl"
                 )}>
-                  {formatCurrency(summary.income + summary.variable_income - summary.fixed - summary.variable)}
+                  {formatCurrency(currentBalance)}
                 </h3>
               </div>
             </div>
@@ -572,6 +965,8 @@ export default function App() {
               exit={{ opacity: 0, y: -20 }}
               className="space-y-6"
             >
+              <QuickAddBox categories={categories} accounts={accounts} onSaved={fetchData} />
+
               {/* AI Insights Section */}
               <div className="glass-card p-6 bg-gradient-to-br from-indigo-600 to-violet-700 border-none text-white overflow-hidden relative">
                 <div className="absolute top-0 right-0 p-8 opacity-10">
@@ -592,9 +987,14 @@ export default function App() {
                     </button>
                   </div>
                   
-                  {aiInsights.length > 0 ? (
+                  {aiError ? (
+                    <div className="flex items-center gap-3 bg-white/10 p-3 rounded-xl backdrop-blur-sm">
+                      <AlertCircle size={18} className="shrink-0" />
+                      <p className="text-sm">{aiError}</p>
+                    </div>
+                  ) : aiInsights ? (
                     <div className="space-y-3">
-                      {aiInsights.map((insight, idx) => (
+                      {aiInsights.insights.map((insight, idx) => (
                         <motion.div 
                           key={idx}
                           initial={{ opacity: 0, x: -10 }}
@@ -602,12 +1002,21 @@ export default function App() {
                           transition={{ delay: idx * 0.1 }}
                           className="flex items-start gap-3 bg-white/10 p-3 rounded-xl backdrop-blur-sm"
                         >
-                          <div className="w-5 h-5 bg-white/20 rounded-full flex items-center justify-center shrink-0 mt-0.5">
+                          <div className={cn(
+                            "w-5 h-5 rounded-full flex items-center justify-center shrink-0 mt-0.5",
+                            insight.kind === 'alert' ? "bg-rose-400/80" : insight.kind === 'positive' ? "bg-emerald-400/80" : "bg-white/20"
+                          )}>
                             <span className="text-[10px] font-bold">{idx + 1}</span>
                           </div>
-                          <p className="text-sm leading-relaxed">{insight}</p>
+                          <div>
+                            <p className="text-sm font-bold">{insight.title}</p>
+                            <p className="text-sm leading-relaxed text-indigo-50">{insight.message}</p>
+                          </div>
                         </motion.div>
                       ))}
+                      {aiInsights.provider === 'stub' && (
+                        <p className="text-[10px] text-indigo-200">Análise automática por regras; configure GEMINI_API_KEY no servidor para usar a IA.</p>
+                      )}
                     </div>
                   ) : (
                     <div className="text-center py-4">
@@ -617,41 +1026,44 @@ export default function App() {
                 </div>
               </div>
 
+              {/* Accounts */}
+              <AccountsPanel
+                accounts={accounts}
+                transfers={transfers}
+                formatCurrency={formatCurrency}
+                onAdd={() => openModal('account')}
+                onTransfer={() => openModal('transfer')}
+                onEdit={(account) => openModal('account', account)}
+                onInvoices={setInvoiceCard}
+                onDelete={deleteAccount}
+                onDeleteTransfer={deleteTransfer}
+              />
+
+              {/* Period Picker */}
+              <PeriodPicker
+                preset={periodPreset}
+                anchor={periodAnchor}
+                onPresetChange={(preset) => {
+                  setPeriodPreset(preset);
+                  setPeriodAnchor(periodStart(preset, new Date()));
+                }}
+                onShift={(amount) => setPeriodAnchor(shiftPeriod(periodPreset, periodAnchor, amount))}
+              />
+
               {/* Summary Cards */}
               <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-                <SummaryCard title="Fixas" value={summary.income} icon={<ArrowUpCircle className="text-emerald-500" />} color="emerald" />
-                <SummaryCard title="Variáveis" value={summary.variable_income} icon={<TrendingUp className="text-emerald-400" />} color="emerald" />
-                <SummaryCard title="G. Fixos" value={summary.fixed} icon={<ArrowDownCircle className="text-rose-500" />} color="rose" />
-                <SummaryCard title="G. Variáveis" value={summary.variable} icon={<ArrowDownCircle className="text-amber-500" />} color="amber" />
-                <SummaryCard title="Investido" value={summary.invested} icon={<TrendingUp className="text-indigo-500" />} color="indigo" />
+                <SummaryCard title="Fixas" value={periodSummary.income} previous={periodSummary.previous?.income} icon={<ArrowUpCircle className="text-emerald-500" />} color="emerald" />
+                <SummaryCard title="Variáveis" value={periodSummary.variable_income} previous={periodSummary.previous?.variable_income} icon={<TrendingUp className="text-emerald-400" />} color="emerald" />
+                <SummaryCard title="G. Fixos" value={periodSummary.fixed} previous={periodSummary.previous?.fixed} icon={<ArrowDownCircle className="text-rose-500" />} color="rose" invertTrend />
+                <SummaryCard title="G. Variáveis" value={periodSummary.variable} previous={periodSummary.previous?.variable} icon={<ArrowDownCircle className="text-amber-500" />} color="amber" invertTrend />
+                <SummaryCard title="Investido" value={periodSummary.invested} previous={periodSummary.previous?.invested} icon={<TrendingUp className="text-indigo-500" />} color="indigo" />
               </div>
 
+              <AskPanel formatCurrency={formatCurrency} />
+
               {/* Charts Row */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                <div className="glass-card p-6">
-                  <h3 className="font-bold mb-6 flex items-center gap-2">
-                    <BarChart size={18} className="text-slate-400" />
-                    Distribuição de Recursos
-                  </h3>
-                  <div className="h-64">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={chartData}>
-                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                        <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
-                        <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
-                        <Tooltip 
-                          cursor={{ fill: '#f8fafc' }}
-                          contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
-                        />
-                        <Bar dataKey="value" radius={[4, 4, 0, 0]}>
-                          {chartData.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={entry.color} />
-                          ))}
-                        </Bar>
-                      </BarChart>
-                    </ResponsiveContainer>
-                  </div>
-                </div>
+                <NetWorthPanel accounts={accounts} investments={investments} formatCurrency={formatCurrency} />
 
                 <div className="glass-card p-6">
                   <h3 className="font-bold mb-6 flex items-center gap-2">
@@ -670,8 +1082,8 @@ export default function App() {
                           paddingAngle={5}
                           dataKey="value"
                         >
-                          {categoryData.map((_, index) => (
-                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                          {categoryData.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={entry.color || COLORS[index % COLORS.length]} />
                           ))}
                         </Pie>
                         <Tooltip 
@@ -735,6 +1147,19 @@ export default function App() {
               exit={{ opacity: 0, x: -20 }}
               className="space-y-6"
             >
+              <QuickAddBox categories={categories} accounts={accounts} onSaved={fetchData} />
+
+              {/* The mobile view has no sidebar, so the queue is also reachable from the statement */}
+              {reviews.length > 0 && (
+                <button onClick={() => setActiveTab('review')} className="w-full glass-card p-4 flex items-center justify-between text-left border-amber-200 bg-amber-50/50">
+                  <span className="flex items-center gap-2 text-sm font-medium text-amber-700">
+                    <AlertCircle size={18} />
+                    {reviews.length} lançamento(s) para revisar
+                  </span>
+                  <ChevronRight size={16} className="text-amber-500" />
+                </button>
+              )}
+
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 <div className="lg:col-span-2 glass-card">
                   <div className={cn(
@@ -747,11 +1172,17 @@ export default function App() {
                         <FileUp size={20} /> Importar CSV
                         <input type="file" accept=".csv" className="hidden" onChange={handleImportCSV} />
                       </label>
+                      <label className="flex-1 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-4 py-3 rounded-xl text-sm font-bold flex items-center justify-center gap-2 cursor-pointer hover:bg-slate-200 transition-colors">
+                        <FileUp size={20} /> Importar OFX
+                        <input type="file" accept=".ofx" className="hidden" onChange={handleImportOFX} />
+                      </label>
                       <button onClick={() => openModal('transaction')} className="flex-1 bg-indigo-600 text-white px-4 py-3 rounded-xl text-sm font-bold flex items-center justify-center gap-2 shadow-lg shadow-indigo-100 dark:shadow-none">
                         <Plus size={20} /> Adicionar
                       </button>
                     </div>
                   </div>
+
+                  <TransactionFilterBar filters={historyFilters} accounts={accounts} categories={categories} onChange={setHistoryFilters} viewMode={viewMode!} />
                   
                   {viewMode === 'web' ? (
                     <div className="overflow-x-auto">
@@ -767,7 +1198,7 @@ export default function App() {
                           </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
-                          {transactions.map(t => (
+                          {history.map(t => (
                             <tr key={t.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
                               <td className="px-6 py-4">
                                 <div className="flex flex-col">
@@ -798,9 +1229,14 @@ export default function App() {
                                 {formatCurrency(t.amount)}
                               </td>
                               <td className="px-6 py-4 text-center">
-                                <button onClick={() => deleteTransaction(t.id)} className="text-slate-300 hover:text-rose-500 transition-colors">
-                                  <Trash2 size={18} />
-                                </button>
+                                <div className="flex items-center justify-center gap-3">
+                                  <button onClick={() => openModal('transaction', t)} className="text-slate-300 hover:text-indigo-500 transition-colors">
+                                    <Pencil size={18} />
+                                  </button>
+                                  <button onClick={() => deleteTransaction(t.id)} className="text-slate-300 hover:text-rose-500 transition-colors">
+                                    <Trash2 size={18} />
+                                  </button>
+                                </div>
                               </td>
                             </tr>
                           ))}
@@ -809,7 +1245,7 @@ export default function App() {
                     </div>
                   ) : (
                     <div className="divide-y divide-slate-100 dark:divide-slate-800">
-                      {transactions.map(t => (
+                      {history.map(t => (
                         <div key={t.id} className="p-5 flex items-center justify-between hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
                           <div className="flex items-center gap-4">
                             <div className={cn(
@@ -838,14 +1274,30 @@ export default function App() {
                             )}>
                               {(t.type === 'income' || t.type === 'variable_income') ? '+' : '-'} {formatCurrency(t.amount)}
                             </p>
-                            <button onClick={() => deleteTransaction(t.id)} className="text-slate-300 hover:text-rose-500 p-1">
-                              <Trash2 size={18} />
-                            </button>
+                            <div className="flex gap-1">
+                              <button onClick={() => openModal('transaction', t)} className="text-slate-300 hover:text-indigo-500 p-1">
+                                <Pencil size={18} />
+                              </button>
+                              <button onClick={() => deleteTransaction(t.id)} className="text-slate-300 hover:text-rose-500 p-1">
+                                <Trash2 size={18} />
+                              </button>
+                            </div>
                           </div>
                         </div>
                       ))}
                     </div>
                   )}
+
+                  {history.length === 0 && (
+                    <p className="text-sm text-slate-400 text-center py-8 italic">Nenhuma transação encontrada.</p>
+                  )}
+                  {historyCursor && (
+                    <div className="p-4 border-t border-slate-100 dark:border-slate-800 text-center">
+                      <button onClick={() => fetchHistory(historyCursor)} className="text-indigo-600 text-sm font-bold hover:underline">
+                        Carregar mais
+                      </button>
+                    </div>
+                  )}
                 </div>
                 <div className="space-y-6">
                   <CalendarView transactions={transactions} />
@@ -859,21 +1311,18 @@ export default function App() {
                       <button onClick={() => openModal('budget')} className="text-indigo-600 text-xs font-bold hover:underline">Configurar</button>
                     </div>
                     <div className="space-y-4">
-                      {budgets.length > 0 ? budgets.map(budget => {
-                        const spent = transactions
-                          .filter(t => t.category === budget.category && (t.type === 'fixed_expense' || t.type === 'variable_expense'))
-                          .reduce((sum, t) => sum + t.amount, 0);
-                        const percent = (spent / budget.limit_amount) * 100;
+                      {budgetStatus.length > 0 ? budgetStatus.map(status => {
+                        const { spent, percent } = status;
                         
                         return (
-                          <div key={budget.id}>
+                          <div key={status.budget_id}>
                             <div className="flex justify-between text-xs mb-1">
-                              <span className="font-bold text-slate-700 dark:text-slate-300">{budget.category}</span>
+                              <span className="font-bold text-slate-700 dark:text-slate-300">{status.category}</span>
                               <span className={cn(
                                 "font-bold",
                                 percent > 90 ? "text-rose-600" : percent > 70 ? "text-amber-600" : "text-slate-500"
                               )}>
-                                {formatCurrency(spent)} / {formatCurrency(budget.limit_amount)}
+                                {formatCurrency(spent)} / {formatCurrency(status.available)}
                               </span>
                             </div>
                             <div className="w-full bg-slate-100 dark:bg-slate-800 h-1.5 rounded-full overflow-hidden">
@@ -916,10 +1365,24 @@ export default function App() {
                   <h4 className="text-3xl font-bold">{formatCurrency(summary.invested)}</h4>
                   <div className="mt-4 flex items-center gap-2 text-indigo-100 text-xs">
                     <Target size={14} />
-                    <span>Meta: {formatCurrency(50000)}</span>
+                    <span>{allocationStatus(allocation)}</span>
                   </div>
                 </div>
-                {/* Add more investment stats here */}
+                <div className="glass-card p-6">
+                  <p className="text-slate-500 text-sm font-medium mb-1">Valor de Mercado</p>
+                  <h4 className="text-3xl font-bold">{formatCurrency(investments.reduce((sum, i) => sum + i.amount, 0))}</h4>
+                  <p className="mt-4 text-xs text-slate-400">Custo: {formatCurrency(investments.reduce((sum, i) => sum + (i.position?.cost_basis || 0), 0))}</p>
+                </div>
+                <div className="glass-card p-6">
+                  <p className="text-slate-500 text-sm font-medium mb-1">Resultado</p>
+                  {(() => {
+                    const totalReturn = investments.reduce((sum, i) => sum + (i.position?.total_return || 0), 0);
+                    return <h4 className={cn("text-3xl font-bold", totalReturn < 0 ? "text-rose-600" : "text-emerald-600")}>{formatCurrency(totalReturn)}</h4>;
+                  })()}
+                  <p className="mt-4 text-xs text-slate-400">
+                    Realizado {formatCurrency(investments.reduce((sum, i) => sum + (i.position?.realized || 0), 0))} • Proventos {formatCurrency(investments.reduce((sum, i) => sum + (i.position?.income || 0), 0))}
+                  </p>
+                </div>
               </div>
 
               <div className="glass-card p-6">
@@ -936,20 +1399,80 @@ export default function App() {
                         <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-xl flex items-center justify-center">
                           <TrendingUp size={24} />
                         </div>
-                        <span className="text-[10px] font-bold uppercase bg-slate-100 text-slate-500 px-2 py-1 rounded">
-                          {inv.type}
-                        </span>
+                        <div className="flex items-center gap-2">
+                          <button onClick={() => openModal('investment', inv)} className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Pencil size={16} />
+                          </button>
+                          <button onClick={() => deleteInvestment(inv)} className="text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Trash2 size={16} />
+                          </button>
+                          <span className="text-[10px] font-bold uppercase bg-slate-100 text-slate-500 px-2 py-1 rounded">
+                            {inv.type}
+                          </span>
+                        </div>
                       </div>
-                      <h5 className="font-bold text-slate-900 mb-1">{inv.name}</h5>
+                      <h5 className="font-bold text-slate-900 mb-1">
+                        {inv.name}
+                        {inv.ticker && <span className="ml-2 text-xs font-bold text-slate-400">{inv.ticker}</span>}
+                      </h5>
                       <p className="text-2xl font-bold text-indigo-600 mb-2">{formatCurrency(inv.amount)}</p>
-                      <div className="flex justify-between text-xs text-slate-400">
-                        <span>Retorno Esperado</span>
-                        <span className="text-emerald-600 font-bold">{inv.expected_return}% a.a</span>
-                      </div>
+                      {inv.position && (
+                        <div className="space-y-1 text-xs text-slate-400 mb-2">
+                          <div className="flex justify-between">
+                            <span>{inv.position.quantity.toLocaleString('pt-BR')} × PM {formatCurrency(inv.position.average_cost)}</span>
+                            {inv.position.current_price !== null && <span>Cotação {formatCurrency(inv.position.current_price)}</span>}
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Não realizado</span>
+                            <span className={cn("font-bold", inv.position.unrealized < 0 ? "text-rose-600" : "text-emerald-600")}>
+                              {formatCurrency(inv.position.unrealized)} ({inv.position.unrealized_percent.toFixed(2)}%)
+                            </span>
+                          </div>
+                          {(inv.position.realized !== 0 || inv.position.income !== 0) && (
+                            <div className="flex justify-between">
+                              <span>Realizado + proventos</span>
+                              <span className="font-bold text-slate-600">{formatCurrency(inv.position.realized + inv.position.income)}</span>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {inv.fixed_income ? (
+                        <div className="space-y-1 text-xs text-slate-400 border-t border-slate-50 pt-2">
+                          <div className="flex justify-between">
+                            <span>{inv.indexer === 'cdi' || inv.indexer === 'selic' ? `${inv.indexer_rate}% do ${INDEXER_LABELS[inv.indexer]}` : `${INDEXER_LABELS[inv.indexer!]} ${inv.indexer_rate}% a.a.`}</span>
+                            {inv.tax_exempt ? <span className="font-bold text-emerald-600">Isento de IR</span> : null}
+                          </div>
+                          <div className="flex justify-between">
+                            <span>Líquido hoje (IR {formatCurrency(inv.fixed_income.current.ir)}{inv.fixed_income.current.iof > 0 && ` • IOF ${formatCurrency(inv.fixed_income.current.iof)}`})</span>
+                            <span className="font-bold text-slate-600">{formatCurrency(inv.fixed_income.current.net)}</span>
+                          </div>
+                          {inv.fixed_income.maturity && (
+                            <div className="flex justify-between">
+                              <span>No vencimento ({format(new Date(inv.fixed_income.maturity.date + 'T00:00:00'), 'dd/MM/yyyy')})</span>
+                              <span className="font-bold text-emerald-600">{formatCurrency(inv.fixed_income.maturity.net)}</span>
+                            </div>
+                          )}
+                          {inv.fixed_income.current.missing_rates && (
+                            <p className="text-amber-600 flex items-center gap-1"><AlertCircle size={12} /> Cadastre a série do {INDEXER_LABELS[inv.indexer!]} para calcular o rendimento.</p>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="flex justify-between text-xs text-slate-400">
+                          <span>Retorno Esperado</span>
+                          <span className="text-emerald-600 font-bold">{inv.expected_return}% a.a</span>
+                        </div>
+                      )}
+                      <button onClick={() => setOperationsInvestment(inv)} className="mt-4 w-full text-xs font-bold text-indigo-600 bg-indigo-50 rounded-lg py-2 hover:bg-indigo-100 transition-colors">
+                        Operações e cotação
+                      </button>
                     </div>
                   ))}
                 </div>
               </div>
+
+              <AllocationView investments={investments} formatCurrency={formatCurrency} onChanged={fetchData} />
+
+              <IndexRatesPanel onChanged={fetchData} />
             </motion.div>
           )}
 
@@ -1014,8 +1537,7 @@ export default function App() {
                     <div className="p-4 bg-emerald-50 rounded-xl border border-emerald-100">
                       <h5 className="text-emerald-800 font-bold text-sm mb-1">Capacidade de Poupança</h5>
                       <p className="text-emerald-600 text-2xl font-bold">
-                        {formatCurrency(transactions.filter(t => t.is_recurring && (t.type === 'income' || t.type === 'variable_income')).reduce((s, t) => s + t.amount, 0) - 
-                         transactions.filter(t => t.is_recurring && (t.type === 'fixed_expense' || t.type === 'variable_expense')).reduce((s, t) => s + t.amount, 0))}
+                        {formatCurrency(projectionData[1].balance - projectionData[0].balance)}
                         <span className="text-xs font-normal ml-1">/mês</span>
                       </p>
                     </div>
@@ -1045,7 +1567,7 @@ export default function App() {
             >
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div className="glass-card p-6 border-l-4 border-l-indigo-500">
-                  <p className="text-slate-400 text-xs font-bold uppercase mb-1">Renda Bruta Total</p>
+                  <p className="text-slate-400 text-xs font-bold uppercase mb-1">Renda Bruta • <span className="capitalize">{periodLabel(periodPreset, periodAnchor)}</span></p>
                   <h4 className="text-2xl font-bold">{formatCurrency(totalGrossIncome)}</h4>
                 </div>
                 <div className="glass-card p-6 border-l-4 border-l-rose-500">
@@ -1120,7 +1642,7 @@ export default function App() {
                   <Plus size={18} /> Nova Meta
                 </button>
               </div>
-              <GoalsView goals={goals} formatCurrency={formatCurrency} onDelete={async (id) => {
+              <GoalsView goals={goals} formatCurrency={formatCurrency} onContribute={setContributionGoal} onEdit={(goal) => openModal('goal', goal)} onDelete={async (id) => {
                 await fetch(`/api/goals/${id}`, { method: 'DELETE' });
                 fetchData();
               }} />
@@ -1134,37 +1656,193 @@ export default function App() {
               exit={{ opacity: 0, y: -20 }}
               className="space-y-6"
             >
-              <div className="flex justify-between items-center">
+              <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
                 <h3 className="text-xl font-bold">Gestão de Orçamentos</h3>
-                <button onClick={() => openModal('budget')} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 shadow-lg shadow-indigo-100 dark:shadow-none">
-                  <Plus size={18} /> Novo Orçamento
+                <div className="flex gap-3">
+                  <div className="flex bg-slate-100 p-1 rounded-xl">
+                    {(['limits', 'envelopes'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setBudgetMode(mode)}
+                        className={cn(
+                          "px-4 py-2 rounded-lg text-xs font-bold transition-all",
+                          budgetMode === mode ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+                        )}
+                      >
+                        {mode === 'limits' ? 'Limites' : 'Envelopes'}
+                      </button>
+                    ))}
+                  </div>
+                  {budgetMode === 'limits' && (
+                    <button onClick={() => openModal('budget')} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 shadow-lg shadow-indigo-100 dark:shadow-none">
+                      <Plus size={18} /> Novo Orçamento
+                    </button>
+                  )}
+                </div>
+              </div>
+              {budgetMode === 'limits' ? (
+                <>
+                  <BudgetsView budgets={budgets} formatCurrency={formatCurrency} onEdit={(budget) => openModal('budget', budget)} onDelete={async (id) => {
+                    await fetch(`/api/budgets/${id}`, { method: 'DELETE' });
+                    fetchData();
+                  }} />
+                  {budgets.length > 0 && <BudgetVarianceReport budgets={budgets} transactions={transactions} formatCurrency={formatCurrency} />}
+                </>
+              ) : (
+                <EnvelopesView categories={categories} transactions={transactions} formatCurrency={formatCurrency} onChange={fetchData} />
+              )}
+            </motion.div>
+          )}
+          {activeTab === 'categories' && (
+            <motion.div 
+              key="categories"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="space-y-6"
+            >
+              <div className="flex justify-between items-center">
+                <h3 className="text-xl font-bold">Categorias</h3>
+                <button onClick={() => openModal('category')} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 shadow-lg shadow-indigo-100 dark:shadow-none">
+                  <Plus size={18} /> Nova Categoria
                 </button>
               </div>
-              <BudgetsView budgets={budgets} transactions={transactions} formatCurrency={formatCurrency} onDelete={async (id) => {
-                await fetch(`/api/budgets/${id}`, { method: 'DELETE' });
-                fetchData();
-              }} />
+              <CategoriesView
+                categories={categories}
+                onEdit={(category) => openModal('category', category)}
+                onDelete={deleteCategory}
+                onMerge={mergeCategory}
+              />
+              <RulesPanel
+                rules={rules}
+                accounts={accounts}
+                formatCurrency={formatCurrency}
+                onAdd={() => openModal('rule')}
+                onEdit={(rule) => openModal('rule', rule)}
+                onChanged={fetchData}
+              />
             </motion.div>
           )}
-        </AnimatePresence>
-      </main>
-    </motion.div>
-  )}
-</AnimatePresence>
 
-      {/* Modal */}
-      {isModalOpen && (
-        <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-          <motion.div 
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden"
-          >
-            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          {activeTab === 'review' && (
+            <motion.div 
+              key="review"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="space-y-6"
+            >
+              <h3 className="text-xl font-bold">Revisar Lançamentos</h3>
+              <ReviewView reviews={reviews} formatCurrency={formatCurrency} onChanged={fetchData} />
+            </motion.div>
+          )}
+
+          {activeTab === 'subscriptions' && (
+            <motion.div 
+              key="subscriptions"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="space-y-6"
+            >
+              <h3 className="text-xl font-bold">Assinaturas</h3>
+              <SubscriptionsView transactions={transactions} accounts={accounts} formatCurrency={formatCurrency} onChanged={fetchData} />
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </main>
+    </motion.div>
+  )}
+</AnimatePresence>
+
+      {contributionGoal && (
+        <GoalContributionsModal
+          goal={contributionGoal}
+          transactions={transactions}
+          investments={investments}
+          formatCurrency={formatCurrency}
+          onClose={() => setContributionGoal(null)}
+          onChanged={fetchData}
+        />
+      )}
+
+      {operationsInvestment && (
+        <InvestmentOperationsModal
+          investment={investments.find(i => i.id === operationsInvestment.id) || operationsInvestment}
+          formatCurrency={formatCurrency}
+          onClose={() => setOperationsInvestment(null)}
+          onChanged={fetchData}
+        />
+      )}
+
+      {isNotificationsOpen && (
+        <NotificationsPanel
+          notifications={notifications}
+          onClose={() => setIsNotificationsOpen(false)}
+          onChanged={fetchData}
+        />
+      )}
+
+      {invoiceCard && (
+        <InvoicesModal
+          card={invoiceCard}
+          accounts={accounts}
+          formatCurrency={formatCurrency}
+          onClose={() => setInvoiceCard(null)}
+          onPaid={fetchData}
+        />
+      )}
+
+      {csvImport && (
+        <CsvImportModal
+          accounts={accounts}
+          categories={categories}
+          content={csvImport.content}
+          initialPreview={csvImport.preview}
+          formatCurrency={formatCurrency}
+          onClose={() => setCsvImport(null)}
+          onImported={fetchData}
+        />
+      )}
+
+      {ofxImport && (
+        <OfxImportModal
+          accounts={accounts}
+          categories={categories}
+          content={ofxImport.content}
+          initialPreview={ofxImport.preview}
+          formatCurrency={formatCurrency}
+          onClose={() => setOfxImport(null)}
+          onImported={fetchData}
+        />
+      )}
+
+      {/* Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <motion.div 
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden"
+          >
+            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
               <h3 className="font-bold text-lg">
-                {modalType === 'transaction' ? 'Nova Transação' : 
-                 modalType === 'investment' ? 'Novo Investimento' :
-                 modalType === 'goal' ? 'Nova Meta' : 'Configurar Orçamento'}
+                {editingRecord ? (
+                  modalType === 'transaction' ? 'Editar Transação' : 
+                  modalType === 'investment' ? 'Editar Investimento' :
+                  modalType === 'goal' ? 'Editar Meta' :
+                  modalType === 'account' ? 'Editar Conta' :
+                  modalType === 'category' ? 'Editar Categoria' :
+                  modalType === 'rule' ? 'Editar Regra' : 'Editar Orçamento'
+                ) : (
+                  modalType === 'transaction' ? 'Nova Transação' : 
+                  modalType === 'investment' ? 'Novo Investimento' :
+                  modalType === 'goal' ? 'Nova Meta' :
+                  modalType === 'account' ? 'Nova Conta' :
+                  modalType === 'category' ? 'Nova Categoria' :
+                  modalType === 'rule' ? 'Nova Regra' :
+                  modalType === 'transfer' ? 'Transferência entre Contas' : 'Configurar Orçamento'
+                )}
               </h3>
               <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600">
                 <Plus size={24} className="rotate-45" />
@@ -1174,22 +1852,26 @@ export default function App() {
             <form onSubmit={
               modalType === 'transaction' ? handleAddTransaction : 
               modalType === 'investment' ? handleAddInvestment :
-              modalType === 'goal' ? handleAddGoal : handleAddBudget
+              modalType === 'goal' ? handleAddGoal :
+              modalType === 'account' ? handleAddAccount :
+              modalType === 'category' ? handleAddCategory :
+              modalType === 'rule' ? handleAddRule :
+              modalType === 'transfer' ? handleAddTransfer : handleAddBudget
             } className="p-6 space-y-4">
               {modalType === 'transaction' ? (
                 <>
                   <div>
                     <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Descrição</label>
-                    <input name="description" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Aluguel, Salário..." />
+                    <input name="description" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Aluguel, Salário..." defaultValue={editingTransaction?.description} />
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Valor</label>
-                      <input name="amount" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="0,00" />
+                      <input name="amount" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="0,00" defaultValue={editingTransaction?.amount} />
                     </div>
                     <div>
                       <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Tipo</label>
-                      <select name="type" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                      <select name="type" value={transactionType} onChange={(e) => setTransactionType(e.target.value as Transaction['type'])} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
                         <option value="income">Entrada Fixa</option>
                         <option value="variable_income">Entrada Variável (Comissão)</option>
                         <option value="fixed_expense">Gasto Fixo</option>
@@ -1199,12 +1881,21 @@ export default function App() {
                   </div>
                   <div>
                     <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Categoria</label>
-                    <input name="category" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Moradia, Lazer..." />
+                    <CategorySelect key={transactionType} name="category" required={Boolean(editingTransaction)} emptyLabel={editingTransaction ? undefined : 'Automática (regras)'} categories={categories} type={transactionType.includes('income') ? 'income' : 'expense'} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingTransaction?.category} />
                   </div>
                   <div>
                     <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Data</label>
-                    <input name="date" type="date" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={new Date().toISOString().split('T')[0]} />
+                    <input name="date" type="date" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingTransaction?.date || new Date().toISOString().split('T')[0]} />
                   </div>
+                  {accounts.length > 0 && (
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Conta</label>
+                      <select name="account_id" defaultValue={editingTransaction?.account_id ?? ''} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        <option value="">Sem conta</option>
+                        {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                  )}
                   <div className="flex items-center gap-2">
                     <input 
                       name="is_recurring" 
@@ -1231,7 +1922,7 @@ export default function App() {
                             type="date" 
                             required 
                             className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" 
-                            defaultValue={new Date().toISOString().split('T')[0]} 
+                            defaultValue={editingTransaction?.is_recurring ? recurringStartDate : new Date().toISOString().split('T')[0]} 
                             onChange={(e) => setRecurringStartDate(e.target.value)}
                           />
                         </div>
@@ -1243,7 +1934,7 @@ export default function App() {
                             min="1" 
                             required 
                             className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" 
-                            defaultValue="12" 
+                            defaultValue={editingTransaction?.is_recurring ? recurringInstallments : 12} 
                             onChange={(e) => setRecurringInstallments(parseInt(e.target.value) || 0)}
                           />
                         </div>
@@ -1262,63 +1953,279 @@ export default function App() {
                 </>
               ) : modalType === 'investment' ? (
                 <>
-                  <div>
-                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Nome do Ativo</label>
-                    <input name="name" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Tesouro Direto, Ações..." />
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="col-span-2">
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Nome do Ativo</label>
+                      <input name="name" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Tesouro Direto, Ações..." defaultValue={editingInvestment?.name} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Código</label>
+                      <input name="ticker" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none uppercase" placeholder="Ex: PETR4" defaultValue={editingInvestment?.ticker || ''} />
+                    </div>
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
-                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Valor</label>
-                      <input name="amount" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="0,00" />
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Tipo</label>
+                      <input name="type" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: CDB, Ações, FII" defaultValue={editingInvestment?.type} />
                     </div>
                     <div>
-                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Tipo</label>
-                      <input name="type" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Renda Fixa" />
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Classe</label>
+                      <select name="asset_class" defaultValue={editingInvestment?.asset_class || ''} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        <option value="">Sem classe</option>
+                        {(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).map(assetClass => (
+                          <option key={assetClass} value={assetClass}>{ASSET_CLASS_LABELS[assetClass]}</option>
+                        ))}
+                      </select>
                     </div>
                   </div>
-                  <div>
-                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Retorno Esperado (% ao ano)</label>
-                    <input name="expected_return" type="number" step="0.1" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: 12.5" />
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Retorno Esperado (% a.a.)</label>
+                      <input name="expected_return" type="number" step="0.1" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: 12.5" defaultValue={editingInvestment?.expected_return} />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Indexador</label>
+                      <select value={investmentIndexer || ''} onChange={(e) => setInvestmentIndexer((e.target.value || null) as Investment['indexer'])} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        <option value="">Nenhum (renda variável)</option>
+                        {(Object.keys(INDEXER_LABELS) as NonNullable<Investment['indexer']>[]).map(indexer => (
+                          <option key={indexer} value={indexer}>{INDEXER_LABELS[indexer]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {investmentIndexer && (
+                      <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">
+                          {investmentIndexer === 'cdi' || investmentIndexer === 'selic' ? `% do ${INDEXER_LABELS[investmentIndexer]}` : investmentIndexer === 'ipca' ? 'IPCA + (% a.a.)' : 'Taxa (% a.a.)'}
+                        </label>
+                        <input name="indexer_rate" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder={investmentIndexer === 'cdi' ? 'Ex: 110' : 'Ex: 6.5'} defaultValue={editingInvestment?.indexer_rate ?? undefined} />
+                      </div>
+                    )}
                   </div>
+                  {investmentIndexer && (
+                    <div className="grid grid-cols-2 gap-4 items-end">
+                      <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Vencimento</label>
+                        <input name="maturity_date" type="date" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingInvestment?.maturity_date || ''} />
+                      </div>
+                      <div className="flex items-center gap-2 pb-2">
+                        <input name="tax_exempt" type="checkbox" id="tax_exempt" className="w-4 h-4 text-indigo-600 rounded" defaultChecked={Boolean(editingInvestment?.tax_exempt)} />
+                        <label htmlFor="tax_exempt" className="text-sm text-slate-600">Isento de IR (LCI, LCA)</label>
+                      </div>
+                    </div>
+                  )}
+                  {!editingInvestment && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Quantidade</label>
+                        <input name="quantity" type="number" step="any" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={1} />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Preço Unitário</label>
+                        <input name="unit_price" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="0,00" />
+                      </div>
+                    </div>
+                  )}
                   <div>
                     <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Data da Aplicação</label>
-                    <input name="date" type="date" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={new Date().toISOString().split('T')[0]} />
+                    <input name="date" type="date" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingInvestment?.date || new Date().toISOString().split('T')[0]} />
                   </div>
                 </>
               ) : modalType === 'goal' ? (
                 <>
                   <div>
                     <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Nome da Meta</label>
-                    <input name="name" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Viagem, Carro Novo..." />
+                    <input name="name" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Viagem, Carro Novo..." defaultValue={editingGoal?.name} />
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Valor Alvo</label>
-                      <input name="target_amount" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="0,00" />
-                    </div>
-                    <div>
-                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Valor Atual</label>
-                      <input name="current_amount" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue="0" />
+                      <input name="target_amount" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="0,00" defaultValue={editingGoal?.target_amount} />
                     </div>
+                    {!editingGoal && (
+                      <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Já Guardado</label>
+                        <input name="current_amount" type="number" step="0.01" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={0} />
+                      </div>
+                    )}
                   </div>
                   <div>
                     <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Categoria</label>
-                    <input name="category" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Sonhos, Reserva..." />
+                    <CategorySelect name="category" required categories={categories} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingGoal?.category} />
                   </div>
                   <div>
                     <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Prazo (Deadline)</label>
-                    <input name="deadline" type="date" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" />
+                    <input name="deadline" type="date" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingGoal?.deadline} />
+                  </div>
+                </>
+              ) : modalType === 'account' ? (
+                <>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Nome da Conta</label>
+                    <input name="name" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Nubank, Itaú..." defaultValue={editingAccount?.name} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Tipo</label>
+                      <select name="type" value={accountType} onChange={(e) => setAccountType(e.target.value as Account['type'])} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        {(Object.keys(ACCOUNT_TYPE_LABELS) as Account['type'][]).map(type => (
+                          <option key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Saldo Inicial</label>
+                      <input name="opening_balance" type="number" step="0.01" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingAccount?.opening_balance ?? 0} />
+                    </div>
+                  </div>
+                  {accountType === 'credit_card' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Dia do Fechamento</label>
+                        <input name="closing_day" type="number" min="1" max="31" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingAccount?.closing_day ?? ''} />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Dia do Vencimento</label>
+                        <input name="due_day" type="number" min="1" max="31" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingAccount?.due_day ?? ''} />
+                      </div>
+                    </div>
+                  )}
+                </>
+              ) : modalType === 'category' ? (
+                <>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Nome</label>
+                    <input name="name" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Mercado, Farmácia..." defaultValue={editingCategory?.name} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Tipo</label>
+                      <select name="type" value={categoryType} onChange={(e) => setCategoryType(e.target.value as Category['type'])} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        <option value="expense">Despesa</option>
+                        <option value="income">Receita</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Categoria Pai</label>
+                      <select name="parent_id" defaultValue={editingCategory?.parent_id ?? ''} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        <option value="">Nenhuma</option>
+                        {categoryTree(categories.filter(c => c.type === categoryType && !(editingCategory && isDescendant(categories, c.id, editingCategory.id)))).map(({ category, depth }) => (
+                          <option key={category.id} value={category.id}>{'\u00A0\u00A0'.repeat(depth)}{category.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Ícone</label>
+                      <select name="icon" defaultValue={editingCategory?.icon ?? 'tag'} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        {Object.keys(CATEGORY_ICONS).map(icon => <option key={icon} value={icon}>{icon}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Cor</label>
+                      <input name="color" type="color" className="w-full h-10 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 outline-none" defaultValue={editingCategory?.color ?? '#6366f1'} />
+                    </div>
+                  </div>
+                </>
+              ) : modalType === 'rule' ? (
+                <>
+                  <p className="text-xs text-slate-500">Condições (preencha ao menos uma)</p>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Descrição contém</label>
+                    <input name="description_pattern" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: UBER, IFOOD..." defaultValue={editingRule?.description_pattern ?? ''} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Valor mínimo</label>
+                      <input name="min_amount" type="number" step="0.01" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingRule?.min_amount ?? ''} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Valor máximo</label>
+                      <input name="max_amount" type="number" step="0.01" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingRule?.max_amount ?? ''} />
+                    </div>
+                  </div>
+                  {accounts.length > 0 && (
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Conta</label>
+                      <select name="account_id" defaultValue={editingRule?.account_id ?? ''} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        <option value="">Qualquer conta</option>
+                        {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                  )}
+                  <p className="text-xs text-slate-500 pt-2">Resultado</p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Categoria</label>
+                      <CategorySelect name="category" required categories={categories} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingRule?.category} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Tipo</label>
+                      <select name="type" defaultValue={editingRule?.type ?? ''} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        <option value="">Manter o tipo</option>
+                        {(Object.keys(TRANSACTION_TYPE_LABELS) as Transaction['type'][]).map(type => (
+                          <option key={type} value={type}>{TRANSACTION_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                </>
+              ) : modalType === 'transfer' ? (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">De</label>
+                      <select name="from_account_id" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Para</label>
+                      <select name="to_account_id" required defaultValue={accounts[1]?.id} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Valor</label>
+                      <input name="amount" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="0,00" />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Data</label>
+                      <input name="date" type="date" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={new Date().toISOString().split('T')[0]} />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Descrição</label>
+                    <input name="description" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Reserva de emergência" />
                   </div>
                 </>
               ) : (
                 <>
                   <div>
                     <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Categoria</label>
-                    <input name="category" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="Ex: Alimentação, Lazer..." />
+                    <CategorySelect name="category" required categories={categories} type="expense" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" defaultValue={editingBudget?.category} />
                   </div>
-                  <div>
-                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Limite Mensal</label>
-                    <input name="limit_amount" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="0,00" />
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Limite</label>
+                      <input name="limit_amount" type="number" step="0.01" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none" placeholder="0,00" defaultValue={editingBudget?.limit_amount} />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Período</label>
+                      <select name="period" defaultValue={editingBudget?.period ?? 'monthly'} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none">
+                        {(Object.keys(BUDGET_PERIOD_LABELS) as Budget['period'][]).map(period => (
+                          <option key={period} value={period}>{BUDGET_PERIOD_LABELS[period]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input name="rollover" type="checkbox" id="rollover" className="w-4 h-4 text-indigo-600 rounded" defaultChecked={Boolean(editingBudget?.rollover)} />
+                    <label htmlFor="rollover" className="text-sm text-slate-600">Acumular sobras e excessos no período seguinte</label>
                   </div>
                 </>
               )}
@@ -1334,7 +2241,7 @@ export default function App() {
   );
 }
 
-function MobileNavItem({ icon, label, active, onClick }: { icon: React.ReactNode, label: string, active: boolean, onClick: () => void }) {
+function MobileNavItem({ icon, label, active, badge = 0, onClick }: { icon: React.ReactNode, label: string, active: boolean, badge?: number, onClick: () => void }) {
   return (
     <button 
       onClick={onClick}
@@ -1344,17 +2251,18 @@ function MobileNavItem({ icon, label, active, onClick }: { icon: React.ReactNode
       )}
     >
       <div className={cn(
-        "p-2 rounded-xl transition-all",
+        "p-2 rounded-xl transition-all relative",
         active ? "bg-indigo-50" : "bg-transparent"
       )}>
         {React.cloneElement(icon as React.ReactElement, { size: 24 })}
+        {badge > 0 && <NotificationBadge count={badge} className="absolute -top-1 -right-1" />}
       </div>
       <span className="text-[10px] font-bold uppercase tracking-tighter">{label}</span>
     </button>
   );
 }
 
-function SidebarItem({ icon, label, active, onClick }: { icon: React.ReactNode, label: string, active: boolean, onClick: () => void }) {
+function SidebarItem({ icon, label, active, badge = 0, onClick }: { icon: React.ReactNode, label: string, active: boolean, badge?: number, onClick: () => void }) {
   return (
     <button 
       onClick={onClick}
@@ -1367,13 +2275,22 @@ function SidebarItem({ icon, label, active, onClick }: { icon: React.ReactNode,
     >
       {icon}
       {label && <span>{label}</span>}
-      {active && label && <motion.div layoutId="active-pill" className="ml-auto w-1.5 h-1.5 rounded-full bg-indigo-600" />}
+      {badge > 0 && <NotificationBadge count={badge} className="ml-auto" />}
+      {active && label && <motion.div layoutId="active-pill" className={cn("w-1.5 h-1.5 rounded-full bg-indigo-600", badge > 0 ? "ml-2" : "ml-auto")} />}
       {active && !label && <motion.div layoutId="active-pill" className="absolute right-1 w-1 h-4 rounded-full bg-indigo-600" />}
     </button>
   );
 }
 
-function SummaryCard({ title, value, icon, color }: { title: string, value: number, icon: React.ReactNode, color: string }) {
+function NotificationBadge({ count, className }: { count: number, className?: string }) {
+  return (
+    <span className={cn("min-w-[18px] h-[18px] px-1 rounded-full bg-rose-500 text-white text-[10px] font-bold flex items-center justify-center", className)}>
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+}
+
+function SummaryCard({ title, value, previous, icon, color, invertTrend = false }: { title: string, value: number, previous?: number, icon: React.ReactNode, color: string, invertTrend?: boolean }) {
   const formatCurrency = (val: number) => {
     return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
   };
@@ -1392,288 +2309,3063 @@ function SummaryCard({ title, value, icon, color }: { title: string, value: numb
       </div>
       <p className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">{title}</p>
       <h4 className="text-2xl font-bold text-slate-900 dark:text-white">{formatCurrency(value)}</h4>
+      {previous !== undefined && (
+        <p className={cn(
+          "text-[10px] font-bold mt-1",
+          value === previous ? "text-slate-400" : (value > previous) !== invertTrend ? "text-emerald-600" : "text-rose-600"
+        )}>
+          {previous === 0
+            ? (value === 0 ? 'Sem variação' : 'Sem dados no período anterior')
+            : `${value >= previous ? '+' : ''}${(((value - previous) / previous) * 100).toFixed(1)}% vs. período anterior`}
+        </p>
+      )}
     </div>
   );
 }
 
-function ReportsView({ transactions, formatCurrency, viewMode }: { transactions: Transaction[], formatCurrency: (v: number) => string, viewMode: 'mobile' | 'web' }) {
-  const [period, setPeriod] = useState<'monthly' | 'quarterly' | 'semi-annual' | 'annual'>('monthly');
-
-  const currentYear = getYear(new Date());
-
-  const exportToPDF = () => {
-    const doc = new jsPDF();
-    const periodLabel = period === 'monthly' ? 'Mensal' : period === 'quarterly' ? 'Trimestral' : period === 'semi-annual' ? 'Semestral' : 'Anual';
-    const title = `Relatorio Financeiro - ${periodLabel} (${currentYear})`;
-    
-    doc.setFontSize(18);
-    doc.text(title, 14, 22);
-    
-    const tableData = periodData.map(item => [
-      item.label,
-      formatCurrency(item.income),
-      formatCurrency(item.expenses),
-      formatCurrency(item.income - item.expenses)
-    ]);
+function CsvImportModal({ accounts, categories, content, initialPreview, formatCurrency, onClose, onImported }: { accounts: Account[], categories: Category[], content: string, initialPreview: CsvImportPreview, formatCurrency: (v: number) => string, onClose: () => void, onImported: () => void }) {
+  const [preview, setPreview] = useState(initialPreview);
+  const [importDuplicates, setImportDuplicates] = useState(false);
+  const [accountId, setAccountId] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<CsvImportPreview | null>(null);
+  const { options } = preview;
+  const mappingOk = options.mapping.description !== null && options.mapping.amount !== null && options.mapping.date !== null;
+  const selectClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
 
-    autoTable(doc, {
-      startY: 30,
-      head: [['Periodo', 'Ganhos', 'Gastos', 'Saldo']],
-      body: tableData,
-      theme: 'striped',
-      headStyles: { fillColor: [99, 102, 241] }
-    });
+  const updateOptions = async (patch: Partial<CsvImportOptions>) => {
+    // Changing the delimiter or header flag changes the columns, so let the server guess the mapping again
+    const next = { ...options, ...patch };
+    if (patch.delimiter || patch.has_header !== undefined) delete (next as Partial<CsvImportOptions>).mapping;
+    try {
+      const response = await fetch('/api/import/csv/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, options: next })
+      });
+      if (!response.ok) throw new Error('Falha ao gerar prévia');
+      setPreview(await response.json());
+    } catch (error) {
+      console.error("Error previewing CSV:", error);
+    }
+  };
 
-    doc.save(`relatorio_${period}_${currentYear}.pdf`);
+  const updateMapping = (field: keyof CsvColumnMapping, value: string) => {
+    updateOptions({ mapping: { ...options.mapping, [field]: value === '' ? null : Number(value) } });
   };
 
-  const getPeriodData = () => {
-    const data: any[] = [];
-    
-    if (period === 'monthly') {
-      for (let i = 0; i < 12; i++) {
-        const monthTransactions = transactions.filter(t => {
-          const d = new Date(t.date);
-          return getMonth(d) === i && getYear(d) === currentYear;
-        });
-        data.push({
-          label: format(new Date(currentYear, i, 1), 'MMMM', { locale: ptBR }),
-          income: monthTransactions.filter(t => t.type === 'income' || t.type === 'variable_income').reduce((s, t) => s + t.amount, 0),
-          expenses: monthTransactions.filter(t => t.type === 'fixed_expense' || t.type === 'variable_expense').reduce((s, t) => s + t.amount, 0),
-        });
-      }
-    } else if (period === 'quarterly') {
-      for (let i = 1; i <= 4; i++) {
-        const quarterTransactions = transactions.filter(t => {
-          const d = new Date(t.date);
-          return getQuarter(d) === i && getYear(d) === currentYear;
-        });
-        data.push({
-          label: `${i}º Trimestre`,
-          income: quarterTransactions.filter(t => t.type === 'income' || t.type === 'variable_income').reduce((s, t) => s + t.amount, 0),
-          expenses: quarterTransactions.filter(t => t.type === 'fixed_expense' || t.type === 'variable_expense').reduce((s, t) => s + t.amount, 0),
-        });
-      }
-    } else if (period === 'semi-annual') {
-      for (let i = 1; i <= 2; i++) {
-        const semesterTransactions = transactions.filter(t => {
-          const d = new Date(t.date);
-          const month = getMonth(d);
-          return (i === 1 ? month < 6 : month >= 6) && getYear(d) === currentYear;
-        });
-        data.push({
-          label: `${i}º Semestre`,
-          income: semesterTransactions.filter(t => t.type === 'income' || t.type === 'variable_income').reduce((s, t) => s + t.amount, 0),
-          expenses: semesterTransactions.filter(t => t.type === 'fixed_expense' || t.type === 'variable_expense').reduce((s, t) => s + t.amount, 0),
-        });
-      }
-    } else if (period === 'annual') {
-      const annualTransactions = transactions.filter(t => getYear(new Date(t.date)) === currentYear);
-      data.push({
-        label: `Ano ${currentYear}`,
-        income: annualTransactions.filter(t => t.type === 'income' || t.type === 'variable_income').reduce((s, t) => s + t.amount, 0),
-        expenses: annualTransactions.filter(t => t.type === 'fixed_expense' || t.type === 'variable_expense').reduce((s, t) => s + t.amount, 0),
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/import/csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, options, import_duplicates: importDuplicates, account_id: accountId ? Number(accountId) : null })
       });
+      if (!response.ok) throw new Error('Falha ao importar');
+      setReport(await response.json());
+      onImported();
+    } catch (error) {
+      console.error("Error importing CSV:", error);
+      alert("Erro ao importar transações.");
+    } finally {
+      setIsImporting(false);
     }
+  };
 
-    return data;
-  };
-
-  const periodData = getPeriodData();
+  const rows = report ? report.rows : preview.rows;
 
   return (
-    <div className={cn(
-      "glass-card",
-      viewMode === 'mobile' ? "p-5" : "p-8"
-    )}>
-      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-4">
-        <div>
-          <h3 className="text-xl font-bold mb-1">Relatórios de Desempenho</h3>
-          <p className="text-slate-500 text-sm">Acompanhe sua evolução financeira por períodos.</p>
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-lg">{report ? 'Resultado da Importação' : 'Importar CSV'}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <Plus size={24} className="rotate-45" />
+          </button>
         </div>
-        <div className="flex bg-slate-100 p-1 rounded-xl w-full md:w-auto overflow-x-auto no-scrollbar">
-          {(['monthly', 'quarterly', 'semi-annual', 'annual'] as const).map((p) => (
-            <button
-              key={p}
-              onClick={() => setPeriod(p)}
-              className={cn(
-                "px-4 py-2.5 rounded-lg text-xs font-bold transition-all capitalize whitespace-nowrap flex-1 md:flex-none",
-                period === p ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {!report && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Separador</label>
+                  <select value={options.delimiter} onChange={(e) => updateOptions({ delimiter: e.target.value as CsvImportOptions['delimiter'] })} className={selectClass}>
+                    <option value=";">Ponto e vírgula (;)</option>
+                    <option value=",">Vírgula (,)</option>
+                    <option value={'\t'}>Tabulação</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Decimal</label>
+                  <select value={options.decimal_separator} onChange={(e) => updateOptions({ decimal_separator: e.target.value as CsvImportOptions['decimal_separator'] })} className={selectClass}>
+                    <option value=",">1.234,56</option>
+                    <option value=".">1,234.56</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Formato da Data</label>
+                  <select value={options.date_format} onChange={(e) => updateOptions({ date_format: e.target.value })} className={selectClass}>
+                    {CSV_DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-end pb-2">
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <input type="checkbox" checked={options.has_header} onChange={(e) => updateOptions({ has_header: e.target.checked })} className="w-4 h-4 text-indigo-600 rounded" />
+                    Primeira linha é cabeçalho
+                  </label>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {([
+                  ['description', 'Descrição'],
+                  ['amount', 'Valor'],
+                  ['date', 'Data'],
+                  ['type', 'Tipo'],
+                  ['category', 'Categoria']
+                ] as const).map(([field, label]) => (
+                  <div key={field}>
+                    <label className="block text-xs font-bold text-slate-400 uppercase mb-1">{label}</label>
+                    <select value={options.mapping[field] ?? ''} onChange={(e) => updateMapping(field, e.target.value)} className={selectClass}>
+                      <option value="">—</option>
+                      {preview.headers.map((header, index) => <option key={index} value={index}>{header}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Tipo Padrão (valores positivos)</label>
+                  <select value={options.default_type} onChange={(e) => updateOptions({ default_type: e.target.value as Transaction['type'] })} className={selectClass}>
+                    <option value="income">Entrada Fixa</option>
+                    <option value="variable_income">Entrada Variável</option>
+                    <option value="fixed_expense">Gasto Fixo</option>
+                    <option value="variable_expense">Gasto Variável</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Categoria Padrão</label>
+                  <CategorySelect categories={categories} value={options.default_category} onChange={(e) => updateOptions({ default_category: e.target.value })} className={selectClass} />
+                </div>
+              </div>
+
+              {accounts.length > 0 && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Conta</label>
+                  <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={selectClass}>
+                    <option value="">Sem conta</option>
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                </div>
               )}
-            >
-              {p === 'monthly' ? 'Mensal' : p === 'quarterly' ? 'Trimestral' : p === 'semi-annual' ? 'Semestral' : 'Anual'}
+            </>
+          )}
+
+          <ImportRowsTable rows={rows} done={report !== null} formatCurrency={formatCurrency} />
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+          {report ? (
+            <button onClick={onClose} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl py-3 font-bold transition-all">
+              Concluir
             </button>
-          ))}
+          ) : (
+            <>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox" checked={importDuplicates} onChange={(e) => setImportDuplicates(e.target.checked)} className="w-4 h-4 text-indigo-600 rounded" />
+                Importar também as duplicadas
+              </label>
+              <button
+                onClick={handleImport}
+                disabled={!mappingOk || isImporting}
+                className="bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl py-3 px-6 font-bold transition-all shadow-lg shadow-indigo-100 disabled:opacity-50"
+              >
+                {isImporting ? 'Importando...' : 'Importar'}
+              </button>
+            </>
+          )}
         </div>
-        <button 
-          onClick={exportToPDF}
-          className="w-full md:w-auto flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-xl text-sm font-bold transition-all shadow-lg shadow-indigo-100"
-        >
-          <Download size={20} />
-          Exportar PDF
-        </button>
-      </div>
+      </motion.div>
+    </div>
+  );
+}
 
-      <div className="grid grid-cols-1 gap-4">
-        {periodData.map((item, idx) => (
-          <div key={idx} className="flex items-center justify-between p-4 bg-slate-50 rounded-xl border border-slate-100 hover:border-indigo-100 transition-all">
-            <div className="flex items-center gap-4">
-              <div className="w-10 h-10 bg-white rounded-lg flex items-center justify-center shadow-sm text-slate-400">
-                <Calendar size={20} />
-              </div>
+function OfxImportModal({ accounts, categories, content, initialPreview, formatCurrency, onClose, onImported }: { accounts: Account[], categories: Category[], content: string, initialPreview: OfxImportPreview, formatCurrency: (v: number) => string, onClose: () => void, onImported: () => void }) {
+  const [preview, setPreview] = useState(initialPreview);
+  const [defaultCategory, setDefaultCategory] = useState('Outros');
+  const [accountId, setAccountId] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<OfxImportPreview | null>(null);
+
+  const updateCategory = async (category: string) => {
+    setDefaultCategory(category);
+    try {
+      const response = await fetch('/api/import/ofx/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, default_category: category })
+      });
+      if (!response.ok) throw new Error('Falha ao gerar prévia');
+      setPreview(await response.json());
+    } catch (error) {
+      console.error("Error previewing OFX:", error);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/import/ofx', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, default_category: defaultCategory, account_id: accountId ? Number(accountId) : null })
+      });
+      if (!response.ok) throw new Error('Falha ao importar');
+      setReport(await response.json());
+      onImported();
+    } catch (error) {
+      console.error("Error importing OFX:", error);
+      alert("Erro ao importar transações.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg">{report ? 'Resultado da Importação' : 'Importar OFX'}</h3>
+            {preview.account_id && (
+              <p className="text-xs text-slate-400">Conta {preview.account_id}{preview.bank_id && ` • Banco ${preview.bank_id}`}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <Plus size={24} className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {!report && (
+            <div className="grid grid-cols-2 gap-3">
               <div>
-                <h4 className="font-bold text-slate-900 capitalize">{item.label}</h4>
-                <div className="flex gap-3 text-xs">
-                  <span className="text-emerald-600">Ganhos: {formatCurrency(item.income)}</span>
-                  <span className="text-rose-600">Gastos: {formatCurrency(item.expenses)}</span>
-                </div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Categoria Padrão</label>
+                <CategorySelect categories={categories} value={defaultCategory} onChange={(e) => updateCategory(e.target.value)} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
               </div>
+              {accounts.length > 0 && (
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Conta</label>
+                  <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+                    <option value="">Sem conta</option>
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                </div>
+              )}
             </div>
-            <div className="text-right">
-              <p className="text-xs text-slate-400 uppercase font-bold tracking-wider mb-0.5">Saldo</p>
-              <p className={cn(
-                "text-lg font-bold",
-                (item.income - item.expenses) >= 0 ? "text-emerald-600" : "text-rose-600"
-              )}>
-                {formatCurrency(item.income - item.expenses)}
-              </p>
-            </div>
-          </div>
-        ))}
+          )}
+          <ImportRowsTable rows={report ? report.rows : preview.rows} done={report !== null} formatCurrency={formatCurrency} />
+        </div>
+
+        <div className="p-6 border-t border-slate-100">
+          {report ? (
+            <button onClick={onClose} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl py-3 font-bold transition-all">
+              Concluir
+            </button>
+          ) : (
+            <button
+              onClick={handleImport}
+              disabled={isImporting || !preview.rows.some(r => r.status === 'ready')}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl py-3 font-bold transition-all shadow-lg shadow-indigo-100 disabled:opacity-50"
+            >
+              {isImporting ? 'Importando...' : 'Importar'}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+function ImportRowsTable({ rows, done, formatCurrency }: { rows: ImportRowResult[], done: boolean, formatCurrency: (v: number) => string }) {
+  const count = (status: ImportRowResult['status']) => rows.filter(r => r.status === status).length;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2 text-xs font-bold">
+        {done ? (
+          <span className="bg-emerald-50 text-emerald-700 px-2 py-1 rounded">{count('imported')} importadas</span>
+        ) : (
+          <span className="bg-indigo-50 text-indigo-700 px-2 py-1 rounded">{count('ready')} prontas</span>
+        )}
+        <span className="bg-amber-50 text-amber-700 px-2 py-1 rounded">{count('duplicate')} duplicadas</span>
+        <span className="bg-rose-50 text-rose-700 px-2 py-1 rounded">{count('error')} com erro</span>
+      </div>
+  
+      <div className="border border-slate-100 rounded-xl overflow-hidden">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="bg-slate-50 text-slate-400 uppercase">
+              <th className="px-3 py-2">Linha</th>
+              <th className="px-3 py-2">Descrição</th>
+              <th className="px-3 py-2">Data</th>
+              <th className="px-3 py-2">Categoria</th>
+              <th className="px-3 py-2 text-right">Valor</th>
+              <th className="px-3 py-2">Situação</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.slice(0, 100).map(result => (
+              <tr key={result.row}>
+                <td className="px-3 py-2 text-slate-400">{result.row}</td>
+                {result.transaction ? (
+                  <>
+                    <td className="px-3 py-2 font-medium">{result.transaction.description}</td>
+                    <td className="px-3 py-2">{format(new Date(result.transaction.date + 'T00:00:00'), 'dd/MM/yyyy')}</td>
+                    <td className="px-3 py-2">
+                      {result.transaction.category}
+                      {result.rule_id && <Sparkles size={12} className="inline ml-1 text-indigo-400" title="Categorizada por regra" />}
+                    </td>
+                    <td className={cn(
+                      "px-3 py-2 text-right font-bold",
+                      (result.transaction.type === 'income' || result.transaction.type === 'variable_income') ? "text-emerald-600" : "text-slate-900"
+                    )}>
+                      {formatCurrency(result.transaction.amount)}
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={4} className="px-3 py-2 text-rose-600">{result.error}</td>
+                )}
+                <td className="px-3 py-2">
+                  <span className={cn(
+                    "px-2 py-0.5 rounded-full text-[10px] font-bold uppercase",
+                    result.status === 'imported' || result.status === 'ready' ? "bg-emerald-100 text-emerald-700" :
+                    result.status === 'duplicate' ? "bg-amber-100 text-amber-700" : "bg-rose-100 text-rose-700"
+                  )}>
+                    {result.status === 'imported' ? 'Importada' : result.status === 'ready' ? 'Pronta' : result.status === 'duplicate' ? 'Duplicada' : 'Erro'}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length > 100 && (
+          <p className="text-xs text-slate-400 text-center py-2">Exibindo 100 de {rows.length} linhas.</p>
+        )}
       </div>
+    </>
+  );
+}
 
-      <div className="mt-8 h-64">
-        <ResponsiveContainer width="100%" height="100%">
-          <BarChart data={periodData}>
-            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-            <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} />
-            <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} />
-            <Tooltip 
-              contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
-            />
-            <Bar dataKey="income" name="Ganhos" fill="#10b981" radius={[4, 4, 0, 0]} />
-            <Bar dataKey="expenses" name="Gastos" fill="#ef4444" radius={[4, 4, 0, 0]} />
-          </BarChart>
-        </ResponsiveContainer>
+function TransactionFilterBar({ filters, accounts, categories, onChange, viewMode }: { filters: TransactionFilters, accounts: Account[], categories: Category[], onChange: (filters: TransactionFilters) => void, viewMode: 'mobile' | 'web' }) {
+  const update = (patch: Partial<TransactionFilters>) => onChange({ ...filters, ...patch });
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+  const hasFilters = Object.entries(filters).some(([key, value]) => value !== EMPTY_TRANSACTION_FILTERS[key as keyof TransactionFilters]);
+
+  return (
+    <div className={cn(
+      "p-4 border-b border-slate-100 dark:border-slate-800 grid gap-3",
+      viewMode === 'mobile' ? "grid-cols-2" : "grid-cols-4"
+    )}>
+      <input
+        value={filters.q}
+        onChange={(e) => update({ q: e.target.value })}
+        className={cn(inputClass, "col-span-2")}
+        placeholder="Buscar na descrição..."
+      />
+      <select value={filters.type} onChange={(e) => update({ type: e.target.value as TransactionFilters['type'] })} className={inputClass}>
+        <option value="">Todos os tipos</option>
+        <option value="income">Entrada Fixa</option>
+        <option value="variable_income">Entrada Variável</option>
+        <option value="fixed_expense">Gasto Fixo</option>
+        <option value="variable_expense">Gasto Variável</option>
+      </select>
+      <CategorySelect categories={categories} emptyLabel="Todas as categorias" value={filters.category} onChange={(e) => update({ category: e.target.value })} className={inputClass} />
+      {accounts.length > 0 && (
+        <select value={filters.account_id} onChange={(e) => update({ account_id: e.target.value })} className={cn(inputClass, "col-span-2")}>
+          <option value="">Todas as contas</option>
+          {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+        </select>
+      )}
+      <input type="date" value={filters.from} onChange={(e) => update({ from: e.target.value })} className={inputClass} title="De" />
+      <input type="date" value={filters.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} title="Até" />
+      <input type="number" step="0.01" value={filters.min_amount} onChange={(e) => update({ min_amount: e.target.value })} className={inputClass} placeholder="Valor mín." />
+      <input type="number" step="0.01" value={filters.max_amount} onChange={(e) => update({ max_amount: e.target.value })} className={inputClass} placeholder="Valor máx." />
+      <div className="col-span-2 flex gap-2">
+        <select value={filters.sort} onChange={(e) => update({ sort: e.target.value as TransactionFilters['sort'] })} className={inputClass}>
+          <option value="date">Ordenar por data</option>
+          <option value="amount">Ordenar por valor</option>
+          <option value="description">Ordenar por descrição</option>
+        </select>
+        <button
+          onClick={() => update({ order: filters.order === 'desc' ? 'asc' : 'desc' })}
+          className="bg-slate-100 text-slate-600 px-3 rounded-lg text-xs font-bold whitespace-nowrap"
+        >
+          {filters.order === 'desc' ? 'Decrescente' : 'Crescente'}
+        </button>
       </div>
+      {hasFilters && (
+        <button onClick={() => onChange(EMPTY_TRANSACTION_FILTERS)} className="col-span-2 text-indigo-600 text-xs font-bold hover:underline justify-self-start">
+          Limpar filtros
+        </button>
+      )}
     </div>
   );
 }
 
-function GoalsView({ goals, formatCurrency, onDelete }: { goals: Goal[], formatCurrency: (v: number) => string, onDelete: (id: number) => void }) {
+function AccountsPanel({ accounts, transfers, formatCurrency, onAdd, onTransfer, onEdit, onInvoices, onDelete, onDeleteTransfer }: { accounts: Account[], transfers: Transfer[], formatCurrency: (v: number) => string, onAdd: () => void, onTransfer: () => void, onEdit: (account: Account) => void, onInvoices: (account: Account) => void, onDelete: (id: number) => void, onDeleteTransfer: (id: number) => void }) {
+  const accountName = (id: number) => accounts.find(a => a.id === id)?.name || '—';
+
+  const icons: Record<Account['type'], React.ReactNode> = {
+    checking: <Landmark size={20} />,
+    savings: <PiggyBank size={20} />,
+    credit_card: <CreditCard size={20} />,
+    cash: <Banknote size={20} />
+  };
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {goals.map(goal => {
-        const progress = (goal.current_amount / goal.target_amount) * 100;
-        return (
-          <div key={goal.id} className="glass-card p-6 relative group">
-            <button 
-              onClick={() => onDelete(goal.id)}
-              className="absolute top-4 right-4 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity"
-            >
-              <Trash2 size={16} />
+    <div className="glass-card p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <Landmark size={18} className="text-slate-400" />
+          Minhas Contas
+        </h3>
+        <div className="flex gap-3">
+          {accounts.length > 1 && (
+            <button onClick={onTransfer} className="text-indigo-600 text-xs font-bold hover:underline flex items-center gap-1">
+              <ArrowLeftRight size={14} /> Transferir
             </button>
-            <div className="w-12 h-12 bg-indigo-50 rounded-xl flex items-center justify-center text-indigo-600 mb-4">
-              <Flag size={24} />
-            </div>
-            <h4 className="font-bold text-lg mb-1">{goal.name}</h4>
-            <p className="text-xs text-slate-400 uppercase font-bold mb-4">{goal.category}</p>
-            
-            <div className="flex justify-between text-sm mb-2">
-              <span className="text-slate-500">Progresso</span>
-              <span className="font-bold text-indigo-600">{progress.toFixed(1)}%</span>
-            </div>
-            <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden mb-4">
-              <motion.div 
-                initial={{ width: 0 }}
-                animate={{ width: `${Math.min(progress, 100)}%` }}
-                className="bg-indigo-600 h-full"
-              />
-            </div>
-            
-            <div className="flex justify-between items-end">
-              <div>
-                <p className="text-[10px] text-slate-400 uppercase font-bold">Meta</p>
-                <p className="font-bold">{formatCurrency(goal.target_amount)}</p>
+          )}
+          <button onClick={onAdd} className="text-indigo-600 text-xs font-bold hover:underline flex items-center gap-1">
+            <Plus size={14} /> Nova Conta
+          </button>
+        </div>
+      </div>
+      {accounts.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {accounts.map(account => (
+            <div key={account.id} className="border border-slate-100 rounded-2xl p-4 relative group hover:border-indigo-200 transition-all">
+              <div className="absolute top-3 right-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => onEdit(account)} className="text-slate-300 hover:text-indigo-500">
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => onDelete(account.id)} className="text-slate-300 hover:text-rose-500">
+                  <Trash2 size={14} />
+                </button>
               </div>
-              <div className="text-right">
-                <p className="text-[10px] text-slate-400 uppercase font-bold">Prazo</p>
-                <p className="text-sm font-medium">{format(new Date(goal.deadline), 'MMM yyyy', { locale: ptBR })}</p>
+              <div className="flex items-center gap-3 mb-3">
+                <div className={cn(
+                  "w-10 h-10 rounded-xl flex items-center justify-center",
+                  account.type === 'credit_card' ? "bg-rose-50 text-rose-600" : "bg-indigo-50 text-indigo-600"
+                )}>
+                  {icons[account.type]}
+                </div>
+                <div>
+                  <p className="font-bold text-slate-900 dark:text-white text-sm">{account.name}</p>
+                  <p className="text-[10px] text-slate-400 uppercase font-bold">{ACCOUNT_TYPE_LABELS[account.type]}</p>
+                </div>
               </div>
+              <p className={cn(
+                "text-xl font-bold",
+                account.balance >= 0 ? "text-slate-900 dark:text-white" : "text-rose-600"
+              )}>
+                {formatCurrency(account.balance)}
+              </p>
+              {account.type === 'credit_card' && account.closing_day && (
+                <button onClick={() => onInvoices(account)} className="mt-2 text-indigo-600 text-xs font-bold hover:underline flex items-center gap-1">
+                  <FileText size={12} /> Faturas
+                </button>
+              )}
             </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 text-center py-4 italic">Nenhuma conta cadastrada.</p>
+      )}
+      {transfers.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-slate-100">
+          <p className="text-[10px] text-slate-400 uppercase font-bold mb-2">Transferências Recentes</p>
+          <div className="divide-y divide-slate-50">
+            {transfers.slice(0, 5).map(t => (
+              <div key={t.id} className="py-2 flex items-center justify-between text-xs group">
+                <span className="text-slate-500">
+                  {format(new Date(t.date + 'T00:00:00'), 'dd/MM')} • {accountName(t.from_account_id)} → {accountName(t.to_account_id)}
+                  {t.description && <span className="text-slate-400"> ({t.description})</span>}
+                </span>
+                <div className="flex items-center gap-2">
+                  <span className="font-bold text-slate-700">{formatCurrency(t.amount)}</span>
+                  <button onClick={() => onDeleteTransfer(t.id)} className="text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            ))}
           </div>
-        );
-      })}
+        </div>
+      )}
     </div>
   );
 }
 
-function BudgetsView({ budgets, transactions, formatCurrency, onDelete }: { budgets: Budget[], transactions: Transaction[], formatCurrency: (v: number) => string, onDelete: (id: number) => void }) {
+const INVOICE_STATUS: Record<Invoice['status'], { label: string, className: string }> = {
+  open: { label: 'Aberta', className: 'bg-indigo-50 text-indigo-600' },
+  closed: { label: 'Fechada', className: 'bg-amber-50 text-amber-600' },
+  paid: { label: 'Paga', className: 'bg-emerald-50 text-emerald-600' },
+  overdue: { label: 'Vencida', className: 'bg-rose-50 text-rose-600' }
+};
+
+const NOTIFICATION_ICONS: Record<Notification['kind'], React.ReactNode> = {
+  budget: <BarChart3 size={18} />,
+  bill: <Calendar size={18} />,
+  goal: <Flag size={18} />,
+  large_transaction: <AlertCircle size={18} />
+};
+
+function NotificationsPanel({ notifications, onClose, onChanged }: { notifications: Notification[], onClose: () => void, onChanged: () => void }) {
+  const unread = notifications.filter(n => !n.read).length;
+
+  const markRead = async (notification: Notification) => {
+    if (notification.read) return;
+    await fetch(`/api/notifications/${notification.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ read: true })
+    });
+    onChanged();
+  };
+
+  const markAllRead = async () => {
+    await fetch('/api/notifications/read-all', { method: 'POST' });
+    onChanged();
+  };
+
+  const deleteNotification = async (id: number) => {
+    await fetch(`/api/notifications/${id}`, { method: 'DELETE' });
+    onChanged();
+  };
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {budgets.map(budget => {
-        const spent = transactions
-          .filter(t => t.category === budget.category && (t.type === 'fixed_expense' || t.type === 'variable_expense'))
-          .reduce((sum, t) => sum + t.amount, 0);
-        const percent = (spent / budget.limit_amount) * 100;
-        
-        return (
-          <div key={budget.id} className="glass-card p-6 relative group">
-            <button 
-              onClick={() => onDelete(budget.id)}
-              className="absolute top-4 right-4 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity"
-            >
-              <Trash2 size={16} />
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-lg">Notificações</h3>
+          <div className="flex items-center gap-3">
+            {unread > 0 && (
+              <button onClick={markAllRead} className="text-xs font-bold text-indigo-600 flex items-center gap-1">
+                <CheckCheck size={14} /> Marcar todas como lidas
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <Plus size={24} className="rotate-45" />
             </button>
-            <div className="w-12 h-12 bg-amber-50 rounded-xl flex items-center justify-center text-amber-600 mb-4">
-              <BarChart3 size={24} />
-            </div>
-            <h4 className="font-bold text-lg mb-1">{budget.category}</h4>
-            
-            <div className="flex justify-between text-sm mb-2">
-              <span className="text-slate-500">Gasto Atual</span>
-              <span className={cn(
-                "font-bold",
-                percent > 90 ? "text-rose-600" : percent > 70 ? "text-amber-600" : "text-indigo-600"
-              )}>
-                {percent.toFixed(1)}%
-              </span>
-            </div>
-            <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden mb-4">
-              <motion.div 
-                initial={{ width: 0 }}
-                animate={{ width: `${Math.min(percent, 100)}%` }}
-                className={cn(
-                  "h-full",
-                  percent > 90 ? "bg-rose-500" : percent > 70 ? "bg-amber-500" : "bg-indigo-600"
-                )}
-              />
-            </div>
-            
-            <div className="flex justify-between items-end">
-              <div>
-                <p className="text-[10px] text-slate-400 uppercase font-bold">Limite</p>
-                <p className="font-bold">{formatCurrency(budget.limit_amount)}</p>
-              </div>
-              <div className="text-right">
-                <p className="text-[10px] text-slate-400 uppercase font-bold">Disponível</p>
-                <p className={cn(
-                  "text-sm font-bold",
-                  (budget.limit_amount - spent) >= 0 ? "text-emerald-600" : "text-rose-600"
+          </div>
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="p-12 text-center text-slate-400 text-sm">Nenhuma notificação por enquanto.</p>
+        ) : (
+          <div className="divide-y divide-slate-50 overflow-y-auto">
+            {notifications.map(notification => (
+              <div
+                key={notification.id}
+                onClick={() => markRead(notification)}
+                className={cn("p-4 flex gap-3 items-start cursor-pointer group", !notification.read && "bg-indigo-50/50")}
+              >
+                <div className={cn(
+                  "w-9 h-9 rounded-xl flex items-center justify-center shrink-0",
+                  notification.kind === 'large_transaction' || notification.key.endsWith(':100') ? "bg-rose-50 text-rose-600" : "bg-amber-50 text-amber-600"
                 )}>
-                  {formatCurrency(budget.limit_amount - spent)}
-                </p>
+                  {NOTIFICATION_ICONS[notification.kind]}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className={cn("text-sm", notification.read ? "text-slate-600" : "font-bold text-slate-900")}>{notification.title}</p>
+                  <p className="text-xs text-slate-500">{notification.message}</p>
+                  <p className="text-[10px] text-slate-400 mt-1">{format(new Date(notification.date + 'T00:00:00'), 'dd/MM/yyyy')}</p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteNotification(notification.id);
+                  }}
+                  className="text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <Trash2 size={16} />
+                </button>
               </div>
-            </div>
+            ))}
           </div>
-        );
-      })}
+        )}
+      </motion.div>
     </div>
   );
 }
 
-function CalendarView({ transactions }: { transactions: Transaction[] }) {
-  const [currentMonth, setCurrentMonth] = useState(new Date());
+function InvoicesModal({ card, accounts, formatCurrency, onClose, onPaid }: { card: Account, accounts: Account[], formatCurrency: (v: number) => string, onClose: () => void, onPaid: () => void }) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [index, setIndex] = useState(0);
+  const [payFrom, setPayFrom] = useState('');
+  const sources = accounts.filter(a => a.type !== 'credit_card');
+
+  const fetchInvoices = async () => {
+    try {
+      const response = await fetch(`/api/accounts/${card.id}/invoices`);
+      if (!response.ok) throw new Error('Falha ao carregar faturas');
+      const data: Invoice[] = await response.json();
+      setInvoices(data);
+      return data;
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      return [];
+    }
+  };
+
+  useEffect(() => {
+    // Start on the invoice currently being filled, or the last one if every invoice has closed
+    fetchInvoices().then(data => {
+      const current = data.findIndex(i => i.status === 'open');
+      setIndex(current >= 0 ? current : Math.max(data.length - 1, 0));
+    });
+  }, [card.id]);
+
+  useEffect(() => {
+    if (!payFrom && sources.length > 0) setPayFrom(String(sources[0].id));
+  }, [accounts]);
+
+  const invoice = invoices[index];
+
+  const handlePay = async () => {
+    if (!invoice || !payFrom) return;
+    try {
+      const response = await fetch(`/api/accounts/${card.id}/invoices/${invoice.month}/pay`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from_account_id: Number(payFrom), date: format(new Date(), 'yyyy-MM-dd') })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao pagar fatura');
+      await fetchInvoices();
+      onPaid();
+    } catch (error) {
+      console.error("Error paying invoice:", error);
+      alert(error instanceof Error ? error.message : "Erro ao pagar fatura.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-lg">Faturas • {card.name}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <Plus size={24} className="rotate-45" />
+          </button>
+        </div>
+
+        {invoice ? (
+          <div className="p-6 space-y-4 overflow-y-auto">
+            <div className="flex items-center justify-between">
+              <button onClick={() => setIndex(i => i - 1)} disabled={index === 0} className="p-2 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30">
+                <ChevronRight size={20} className="rotate-180" />
+              </button>
+              <div className="text-center">
+                <p className="font-bold capitalize">{format(new Date(invoice.month + '-01T00:00:00'), 'MMMM yyyy', { locale: ptBR })}</p>
+                <span className={cn("text-[10px] font-bold uppercase px-2 py-0.5 rounded-full", INVOICE_STATUS[invoice.status].className)}>
+                  {INVOICE_STATUS[invoice.status].label}
+                </span>
+              </div>
+              <button onClick={() => setIndex(i => i + 1)} disabled={index === invoices.length - 1} className="p-2 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30">
+                <ChevronRight size={20} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="bg-slate-50 rounded-xl p-3">
+                <p className="text-[10px] text-slate-400 uppercase font-bold">Fechamento</p>
+                <p className="font-bold text-sm">{format(new Date(invoice.closing_date + 'T00:00:00'), 'dd/MM/yyyy')}</p>
+              </div>
+              <div className="bg-slate-50 rounded-xl p-3">
+                <p className="text-[10px] text-slate-400 uppercase font-bold">Vencimento</p>
+                <p className="font-bold text-sm">{format(new Date(invoice.due_date + 'T00:00:00'), 'dd/MM/yyyy')}</p>
+              </div>
+              <div className="bg-slate-50 rounded-xl p-3">
+                <p className="text-[10px] text-slate-400 uppercase font-bold">Total</p>
+                <p className="font-bold text-sm">{formatCurrency(invoice.total)}</p>
+              </div>
+            </div>
+
+            <div className="divide-y divide-slate-50">
+              {invoice.items.map(item => (
+                <div key={`${item.transaction_id}-${item.installment_number}`} className="py-2 flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium text-slate-700">
+                      {item.description}
+                      {formatInstallment(item) && <span className="text-xs text-slate-400"> ({formatInstallment(item)})</span>}
+                    </p>
+                    <p className="text-[10px] text-slate-400">{format(new Date(item.date + 'T00:00:00'), 'dd/MM')} • {item.category}</p>
+                  </div>
+                  <span className={cn("font-bold", item.type.includes('income') ? "text-emerald-600" : "text-slate-700")}>
+                    {item.type.includes('income') ? '-' : ''}{formatCurrency(item.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {invoice.paid > 0 && (
+              <p className="text-xs text-slate-500">Pago: <span className="font-bold">{formatCurrency(invoice.paid)}</span></p>
+            )}
+            {invoice.status !== 'paid' && invoice.total - invoice.paid > 0 && (
+              <div className="flex flex-col md:flex-row gap-3 pt-4 border-t border-slate-100">
+                <select value={payFrom} onChange={(e) => setPayFrom(e.target.value)} className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+                  {sources.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+                <button onClick={handlePay} disabled={!payFrom} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all disabled:opacity-50">
+                  Pagar fatura ({formatCurrency(invoice.total - invoice.paid)})
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-slate-400 text-center py-8 italic">Nenhuma compra neste cartão.</p>
+        )}
+      </motion.div>
+    </div>
+  );
+}
+
+// Category picker with subcategories indented under their parent. Without `type` both income and
+// expense categories are listed in separate groups.
+function QuickAddBox({ categories, accounts, onSaved }: { categories: Category[], accounts: Account[], onSaved: () => void }) {
+  const [text, setText] = useState('');
+  const [draft, setDraft] = useState<QuickAddDraft | null>(null);
+  const [draftType, setDraftType] = useState<Transaction['type']>('variable_expense');
+  const [isParsing, setIsParsing] = useState(false);
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  const showDraft = (next: QuickAddDraft) => {
+    setDraft(next);
+    setDraftType(next.type);
+  };
+
+  const parseWithAi = async () => {
+    setIsParsing(true);
+    try {
+      const response = await fetch('/api/transactions/parse', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao interpretar lançamento');
+      showDraft(await response.json());
+    } catch (error) {
+      console.error("Error parsing quick-add text:", error);
+      alert(error instanceof Error ? error.message : "Erro ao interpretar lançamento.");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  // The local parser answers instantly; the server (and its model) is only asked when it finds no amount
+  const handleParse = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    const parsed = parseQuickAdd(text, { today: format(new Date(), 'yyyy-MM-dd'), categories, accounts });
+    if (parsed.amount === null) {
+      parseWithAi();
+    } else {
+      showDraft(parsed);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const amount = parseFloat((formData.get('amount') as string).replace(',', '.'));
+    if (isNaN(amount) || amount <= 0) {
+      alert("Por favor, insira um valor válido.");
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/transactions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          description: formData.get('description'),
+          amount,
+          type: draftType,
+          category: formData.get('category') || undefined,
+          date: formData.get('date'),
+          is_recurring: false,
+          installments: 1,
+          start_date: formData.get('date'),
+          account_id: formData.get('account_id') ? Number(formData.get('account_id')) : null
+        })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar transação');
+      setDraft(null);
+      setText('');
+      onSaved();
+    } catch (error) {
+      console.error("Error adding quick transaction:", error);
+      alert(error instanceof Error ? error.message : "Erro ao salvar transação.");
+    }
+  };
+
+  return (
+    <div className="glass-card p-4 space-y-4">
+      <form onSubmit={handleParse} className="flex gap-2">
+        <div className="relative flex-1">
+          <Sparkles size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-indigo-400" />
+          <input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder='Lançamento rápido: "almoço 42,50 ontem no cartão"'
+            className={cn(inputClass, "pl-9 py-2.5")}
+          />
+        </div>
+        <button type="submit" disabled={isParsing || !text.trim()} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-all disabled:opacity-50">
+          {isParsing ? 'Lendo...' : 'Adicionar'}
+        </button>
+      </form>
+
+      {draft && (
+        <form key={JSON.stringify(draft)} onSubmit={handleConfirm} className="space-y-3 border-t border-slate-100 pt-4">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div className="col-span-2 md:col-span-1">
+              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Descrição</label>
+              <input name="description" required defaultValue={draft.description} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Valor</label>
+              <input name="amount" required inputMode="decimal" defaultValue={draft.amount ?? ''} className={cn(inputClass, draft.amount === null && "border-rose-300")} />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Tipo</label>
+              <select value={draftType} onChange={(e) => setDraftType(e.target.value as Transaction['type'])} className={inputClass}>
+                <option value="income">Entrada Fixa</option>
+                <option value="variable_income">Entrada Variável (Comissão)</option>
+                <option value="fixed_expense">Gasto Fixo</option>
+                <option value="variable_expense">Gasto Variável</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Categoria</label>
+              <CategorySelect key={draftType} name="category" emptyLabel="Automática (regras)" categories={categories} type={draftType.includes('income') ? 'income' : 'expense'} className={inputClass} defaultValue={draft.category ?? ''} />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Data</label>
+              <input name="date" type="date" required defaultValue={draft.date} className={inputClass} />
+            </div>
+            {accounts.length > 0 && (
+              <div>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Conta</label>
+                <select name="account_id" defaultValue={draft.account_id ?? ''} className={inputClass}>
+                  <option value="">Sem conta</option>
+                  {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <button type="button" onClick={parseWithAi} disabled={isParsing} className="text-xs font-bold text-indigo-600 flex items-center gap-1 disabled:opacity-50">
+              <BrainCircuit size={14} /> Interpretar com IA
+            </button>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 rounded-lg text-sm font-bold text-slate-500 hover:bg-slate-100 transition-all">
+                Cancelar
+              </button>
+              <button type="submit" className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-emerald-700 transition-all">
+                Confirmar
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+const ASK_SUGGESTIONS = ['Quanto gastei com Lazer no último trimestre?', 'Gastos por categoria este mês', 'Qual foi a maior despesa do mês passado?'];
+
+function AskPanel({ formatCurrency }: { formatCurrency: (v: number) => string }) {
+  const [messages, setMessages] = useState<AskMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+
+  const fetchHistory = async () => {
+    try {
+      const response = await fetch('/api/ask');
+      if (!response.ok) throw new Error('Falha ao carregar conversa');
+      setMessages(await response.json());
+    } catch (error) {
+      console.error("Error fetching chat history:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, []);
+
+  const ask = async (text: string) => {
+    if (!text.trim()) return;
+    setIsAsking(true);
+    try {
+      const response = await fetch('/api/ask', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ question: text })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao responder pergunta');
+      const answered: AskMessage[] = await response.json();
+      setMessages(current => [...current, ...answered]);
+      setQuestion('');
+    } catch (error) {
+      console.error("Error asking question:", error);
+      alert(error instanceof Error ? error.message : "Erro ao responder pergunta.");
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const clearHistory = async () => {
+    if (!confirm("Apagar toda a conversa?")) return;
+    await fetch('/api/ask', { method: 'DELETE' });
+    setMessages([]);
+  };
+
+  return (
+    <div className="glass-card p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold flex items-center gap-2">
+          <Sparkles size={18} className="text-indigo-500" />
+          Pergunte às suas finanças
+        </h3>
+        {messages.length > 0 && (
+          <button onClick={clearHistory} className="text-xs font-bold text-slate-400 hover:text-rose-600 flex items-center gap-1">
+            <Trash2 size={14} /> Limpar
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {ASK_SUGGESTIONS.map(suggestion => (
+            <button key={suggestion} onClick={() => ask(suggestion)} disabled={isAsking} className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-600 px-3 py-1.5 rounded-full transition-all">
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto pr-1">
+          {messages.map(message => message.role === 'user' ? (
+            <div key={message.id} className="flex justify-end">
+              <p className="bg-indigo-600 text-white text-sm px-4 py-2 rounded-2xl rounded-br-sm max-w-[80%]">{message.content}</p>
+            </div>
+          ) : (
+            <div key={message.id} className="bg-slate-50 rounded-2xl rounded-bl-sm p-4 max-w-[90%] space-y-2">
+              <p className="text-sm">{message.content}</p>
+              {message.result && message.result.rows.length > 0 && (
+                <div className="space-y-1">
+                  {message.result.rows.slice(0, 12).map(row => (
+                    <div key={row.label} className="flex justify-between text-xs">
+                      <span className="text-slate-500">{message.query?.function === 'by_month' ? format(new Date(row.label + '-01T00:00:00'), 'MMM/yy', { locale: ptBR }) : row.label}</span>
+                      <span className="font-bold">{formatCurrency(row.value)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {message.result && message.result.total_transactions > 0 && (
+                <button onClick={() => setExpanded(expanded === message.id ? null : message.id)} className="text-xs font-bold text-indigo-600 flex items-center gap-1">
+                  <ChevronRight size={14} className={cn("transition-transform", expanded === message.id && "rotate-90")} />
+                  {message.result.total_transactions} lançamento(s)
+                </button>
+              )}
+              {expanded === message.id && message.result && (
+                <div className="divide-y divide-slate-100 bg-white rounded-xl px-3">
+                  {message.result.transactions.map(o => (
+                    <div key={`${o.transaction_id}-${o.installment_number}`} className="flex justify-between items-center py-2 text-xs gap-3">
+                      <div>
+                        <p className="font-medium">{o.description}</p>
+                        <p className="text-slate-400">{format(new Date(o.date + 'T00:00:00'), 'dd/MM/yyyy')} · {o.category}</p>
+                      </div>
+                      <span className="font-bold shrink-0">{formatCurrency(o.amount)}</span>
+                    </div>
+                  ))}
+                  {message.result.total_transactions > message.result.transactions.length && (
+                    <p className="py-2 text-xs text-slate-400">
+                      Mostrando {message.result.transactions.length} de {message.result.total_transactions}.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={(e) => { e.preventDefault(); ask(question); }} className="flex gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder='Ex: "quanto gastei com Lazer no último trimestre?"'
+          className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button type="submit" disabled={isAsking || !question.trim()} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-all disabled:opacity-50">
+          {isAsking ? 'Consultando...' : 'Perguntar'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+function CategorySelect({ categories, type, emptyLabel, ...props }: { categories: Category[], type?: Category['type'], emptyLabel?: string } & React.SelectHTMLAttributes<HTMLSelectElement>) {
+  const options = (groupType: Category['type']) => categoryTree(categories.filter(c => c.type === groupType)).map(({ category, depth }) => (
+    <option key={category.id} value={category.name}>{'\u00A0\u00A0'.repeat(depth)}{category.name}</option>
+  ));
+
+  return (
+    <select {...props}>
+      {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+      {type ? options(type) : (
+        <>
+          <optgroup label="Despesas">{options('expense')}</optgroup>
+          <optgroup label="Receitas">{options('income')}</optgroup>
+        </>
+      )}
+    </select>
+  );
+}
+
+function CategoryIcon({ category, size = 16 }: { category: Category, size?: number }) {
+  const Icon = CATEGORY_ICONS[category.icon || 'tag'] || Tag;
+  return (
+    <div className="w-8 h-8 rounded-lg flex items-center justify-center text-white" style={{ backgroundColor: category.color || '#94a3b8' }}>
+      <Icon size={size} />
+    </div>
+  );
+}
+
+function ReviewView({ reviews, formatCurrency, onChanged }: { reviews: TransactionReview[], formatCurrency: (v: number) => string, onChanged: () => void }) {
+  const act = async (review: TransactionReview, action: 'dismiss' | 'merge') => {
+    if (action === 'merge' && !confirm(`Excluir a cópia de "${review.transaction.description}" e manter o lançamento original?`)) return;
+    try {
+      const response = await fetch(`/api/reviews/${review.id}/${action}`, { method: 'POST' });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao atualizar item');
+      onChanged();
+    } catch (error) {
+      console.error("Error updating review:", error);
+      alert(error instanceof Error ? error.message : "Erro ao atualizar item.");
+    }
+  };
+
+  const row = (label: string, t: Transaction) => (
+    <div className="flex justify-between items-center text-xs bg-slate-50 rounded-lg px-3 py-2">
+      <div>
+        <span className="font-bold text-slate-400 uppercase mr-2">{label}</span>
+        <span className="font-medium">{t.description}</span>
+        <span className="text-slate-400"> · {format(new Date(t.date + 'T00:00:00'), 'dd/MM/yyyy')} · {t.category}</span>
+      </div>
+      <span className="font-bold">{formatCurrency(t.amount)}</span>
+    </div>
+  );
+
+  if (reviews.length === 0) {
+    return (
+      <div className="glass-card p-12 text-center text-slate-400">
+        <CheckCheck size={32} className="mx-auto mb-3 text-emerald-500" />
+        <p className="text-sm">Nenhum lançamento suspeito. Duplicatas, valores fora do padrão e mudanças de preço aparecem aqui.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {reviews.map(review => (
+        <div key={review.id} className="glass-card p-5 space-y-3">
+          <div className="flex flex-col md:flex-row justify-between md:items-start gap-3">
+            <div className="flex items-start gap-3">
+              <div className={cn(
+                "w-9 h-9 rounded-xl flex items-center justify-center shrink-0",
+                review.kind === 'duplicate' ? "bg-rose-100 text-rose-600" : review.kind === 'outlier' ? "bg-amber-100 text-amber-600" : "bg-indigo-100 text-indigo-600"
+              )}>
+                {review.kind === 'duplicate' ? <Merge size={18} /> : review.kind === 'outlier' ? <AlertCircle size={18} /> : <TrendingUp size={18} />}
+              </div>
+              <div>
+                <p className="text-sm font-bold">{REVIEW_KIND_LABELS[review.kind]}</p>
+                <p className="text-sm text-slate-500">{review.message}</p>
+              </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {review.kind === 'duplicate' && (
+                <button onClick={() => act(review, 'merge')} className="bg-rose-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-rose-700 transition-all">
+                  Mesclar
+                </button>
+              )}
+              <button onClick={() => act(review, 'dismiss')} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 bg-slate-100 hover:bg-slate-200 transition-all">
+                {review.kind === 'duplicate' ? 'Não é duplicata' : 'Está correto'}
+              </button>
+            </div>
+          </div>
+          <div className="space-y-1">
+            {review.related && row(review.kind === 'duplicate' ? 'Original' : 'Anterior', review.related)}
+            {row(review.kind === 'duplicate' ? 'Cópia' : 'Lançamento', review.transaction)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SubscriptionsView({ transactions, accounts, formatCurrency, onChanged }: { transactions: Transaction[], accounts: Account[], formatCurrency: (v: number) => string, onChanged: () => void }) {
+  const [summary, setSummary] = useState<SubscriptionsSummary | null>(null);
+
+  const fetchSubscriptions = async () => {
+    try {
+      const response = await fetch('/api/subscriptions');
+      if (!response.ok) throw new Error('Falha ao carregar assinaturas');
+      setSummary(await response.json());
+    } catch (error) {
+      console.error("Error fetching subscriptions:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [transactions]);
+
+  const act = async (subscription: Subscription, action: 'convert' | 'ignore') => {
+    try {
+      const response = await fetch(`/api/subscriptions/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: subscription.key })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao atualizar assinatura');
+      // Converting adds a transaction, which refreshes this view through `transactions`
+      if (action === 'convert') onChanged(); else fetchSubscriptions();
+    } catch (error) {
+      console.error("Error updating subscription:", error);
+      alert(error instanceof Error ? error.message : "Erro ao atualizar assinatura.");
+    }
+  };
+
+  if (!summary) return null;
+  const scheduled = summary.subscriptions.filter(s => s.recurring_transaction_id !== null);
+  const detected = summary.subscriptions.filter(s => s.recurring_transaction_id === null);
+  const accountName = (id: number | null) => accounts.find(a => a.id === id)?.name;
+
+  const card = (s: Subscription) => (
+    <div key={s.key} className={cn("flex flex-col md:flex-row md:items-center justify-between gap-3 p-4", !s.active && "opacity-60")}>
+      <div>
+        <p className="text-sm font-bold flex items-center gap-2">
+          {s.description}
+          {!s.active && <span className="text-[10px] font-bold uppercase bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">Inativa</span>}
+        </p>
+        <p className="text-xs text-slate-400">
+          {SUBSCRIPTION_FREQUENCY_LABELS[s.frequency]} · {s.category}{accountName(s.account_id) ? ` · ${accountName(s.account_id)}` : ''} · {s.charges} cobrança(s)
+        </p>
+      </div>
+      <div className="flex items-center gap-6">
+        <div className="text-right">
+          <p className="text-sm font-bold">{formatCurrency(s.amount)}</p>
+          <p className="text-xs text-slate-400">
+            {s.active ? `Próxima: ${format(new Date(s.next_charge + 'T00:00:00'), 'dd/MM/yyyy')}` : `Última: ${format(new Date(s.last_charge + 'T00:00:00'), 'dd/MM/yyyy')}`}
+          </p>
+        </div>
+        {s.recurring_transaction_id === null && (
+          <div className="flex gap-2">
+            {s.frequency === 'monthly' && s.active && (
+              <button onClick={() => act(s, 'convert')} className="bg-indigo-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold hover:bg-indigo-700 transition-all">
+                Tornar recorrente
+              </button>
+            )}
+            <button onClick={() => act(s, 'ignore')} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 bg-slate-100 hover:bg-slate-200 transition-all">
+              Não é assinatura
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="glass-card p-6">
+          <p className="text-sm text-slate-500 mb-1">Custo Mensal</p>
+          <p className="text-2xl font-bold">{formatCurrency(summary.monthly_total)}</p>
+        </div>
+        <div className="glass-card p-6">
+          <p className="text-sm text-slate-500 mb-1">Custo Anual</p>
+          <p className="text-2xl font-bold">{formatCurrency(summary.annual_total)}</p>
+        </div>
+        <div className="glass-card p-6">
+          <p className="text-sm text-slate-500 mb-1">Assinaturas Ativas</p>
+          <p className="text-2xl font-bold">{summary.subscriptions.filter(s => s.active).length}</p>
+        </div>
+      </div>
+
+      <div className="glass-card overflow-hidden">
+        <div className="p-6 border-b border-slate-100">
+          <h3 className="font-bold">Detectadas no extrato</h3>
+          <p className="text-xs text-slate-400">Cobranças parecidas, de valor próximo e em intervalos regulares que não estão marcadas como recorrentes.</p>
+        </div>
+        {detected.length > 0 ? (
+          <div className="divide-y divide-slate-100">{detected.map(card)}</div>
+        ) : (
+          <p className="p-6 text-sm text-slate-400 text-center">Nenhuma cobrança periódica nova encontrada.</p>
+        )}
+      </div>
+
+      <div className="glass-card overflow-hidden">
+        <div className="p-6 border-b border-slate-100">
+          <h3 className="font-bold">Lançamentos recorrentes</h3>
+        </div>
+        {scheduled.length > 0 ? (
+          <div className="divide-y divide-slate-100">{scheduled.map(card)}</div>
+        ) : (
+          <p className="p-6 text-sm text-slate-400 text-center">Nenhuma despesa recorrente cadastrada.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CategoriesView({ categories, onEdit, onDelete, onMerge }: { categories: Category[], onEdit: (category: Category) => void, onDelete: (id: number) => void, onMerge: (id: number, targetId: number) => void }) {
+  const [merging, setMerging] = useState<{ id: number, targetId: string } | null>(null);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {(['expense', 'income'] as const).map(type => (
+        <div key={type} className="glass-card p-6">
+          <h4 className="font-bold mb-4">{type === 'expense' ? 'Despesas' : 'Receitas'}</h4>
+          <div className="divide-y divide-slate-50">
+            {categoryTree(categories.filter(c => c.type === type)).map(({ category, depth }) => (
+              <div key={category.id} className="py-2 group" style={{ paddingLeft: depth * 24 }}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <CategoryIcon category={category} />
+                    <span className="font-medium text-sm">{category.name}</span>
+                  </div>
+                  <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => onEdit(category)} className="text-slate-300 hover:text-indigo-500" title="Editar">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => setMerging({ id: category.id, targetId: '' })} className="text-slate-300 hover:text-indigo-500" title="Mesclar">
+                      <Merge size={14} />
+                    </button>
+                    <button onClick={() => onDelete(category.id)} className="text-slate-300 hover:text-rose-500" title="Excluir">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+                {merging?.id === category.id && (
+                  <div className="mt-2 flex gap-2 items-center">
+                    <span className="text-xs text-slate-500">Mesclar em</span>
+                    <select value={merging.targetId} onChange={(e) => setMerging({ ...merging, targetId: e.target.value })} className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-1 text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+                      <option value="">Escolha...</option>
+                      {categoryTree(categories.filter(c => !isDescendant(categories, c.id, category.id))).map(({ category: target, depth }) => (
+                        <option key={target.id} value={target.id}>{'\u00A0\u00A0'.repeat(depth)}{target.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      disabled={!merging.targetId}
+                      onClick={() => {
+                        onMerge(category.id, Number(merging.targetId));
+                        setMerging(null);
+                      }}
+                      className="text-indigo-600 text-xs font-bold hover:underline disabled:opacity-30"
+                    >
+                      Mesclar
+                    </button>
+                    <button onClick={() => setMerging(null)} className="text-slate-400 text-xs hover:underline">Cancelar</button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RulesPanel({ rules, accounts, formatCurrency, onAdd, onEdit, onChanged }: { rules: CategoryRule[], accounts: Account[], formatCurrency: (v: number) => string, onAdd: () => void, onEdit: (rule: CategoryRule) => void, onChanged: () => void }) {
+  const [preview, setPreview] = useState<RuleApplication[] | null>(null);
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) throw new Error((await response.json()).error || 'Falha ao atualizar regras');
+    return response;
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error("Error updating rules:", error);
+      alert(error instanceof Error ? error.message : "Erro ao atualizar regras.");
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const ids = rules.map(r => r.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    run(() => request('/api/rules/reorder', 'POST', { ids }));
+  };
+
+  const describe = (rule: CategoryRule) => [
+    rule.description_pattern && `descrição contém "${rule.description_pattern}"`,
+    rule.min_amount !== null && `valor ≥ ${formatCurrency(rule.min_amount)}`,
+    rule.max_amount !== null && `valor ≤ ${formatCurrency(rule.max_amount)}`,
+    rule.account_id !== null && `conta ${accounts.find(a => a.id === rule.account_id)?.name || '—'}`
+  ].filter(Boolean).join(' e ');
+
+  const loadPreview = async () => {
+    try {
+      const response = await request('/api/rules/apply', 'POST', { dry_run: true });
+      setPreview(await response.json());
+    } catch (error) {
+      console.error("Error previewing rules:", error);
+    }
+  };
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <Sparkles size={18} className="text-slate-400" />
+          Regras de Categorização
+        </h3>
+        <div className="flex gap-3">
+          {rules.length > 0 && (
+            <button onClick={loadPreview} className="text-indigo-600 text-xs font-bold hover:underline">
+              Aplicar às transações existentes
+            </button>
+          )}
+          <button onClick={onAdd} className="text-indigo-600 text-xs font-bold hover:underline flex items-center gap-1">
+            <Plus size={14} /> Nova Regra
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-400 mb-4">As regras rodam em ordem: a primeira que combinar define a categoria de novas transações e importações.</p>
+      {rules.length > 0 ? (
+        <div className="divide-y divide-slate-50">
+          {rules.map((rule, index) => (
+            <div key={rule.id} className={cn("py-3 flex items-center justify-between gap-4 group", !rule.enabled && "opacity-50")}>
+              <div className="flex items-center gap-3">
+                <div className="flex flex-col">
+                  <button onClick={() => move(index, -1)} disabled={index === 0} className="text-slate-300 hover:text-indigo-500 disabled:opacity-30">
+                    <ArrowUp size={12} />
+                  </button>
+                  <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} className="text-slate-300 hover:text-indigo-500 disabled:opacity-30">
+                    <ArrowDown size={12} />
+                  </button>
+                </div>
+                <p className="text-sm">
+                  <span className="text-slate-500">Se {describe(rule)} → </span>
+                  <span className="font-bold">{rule.category}</span>
+                  {rule.type && <span className="text-slate-400"> ({TRANSACTION_TYPE_LABELS[rule.type]})</span>}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={Boolean(rule.enabled)}
+                  onChange={(e) => run(() => request(`/api/rules/${rule.id}`, 'PATCH', { enabled: e.target.checked }))}
+                  className="w-4 h-4 text-indigo-600 rounded"
+                  title="Ativa"
+                />
+                <button onClick={() => onEdit(rule)} className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => run(() => request(`/api/rules/${rule.id}`, 'DELETE'))} className="text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 text-center py-4 italic">Nenhuma regra cadastrada.</p>
+      )}
+
+      {preview && (
+        <div className="mt-4 pt-4 border-t border-slate-100">
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-[10px] text-slate-400 uppercase font-bold">
+              {preview.length} {preview.length === 1 ? 'transação seria alterada' : 'transações seriam alteradas'}
+            </p>
+            <div className="flex gap-3">
+              {preview.length > 0 && (
+                <button
+                  onClick={() => run(async () => {
+                    await request('/api/rules/apply', 'POST', { dry_run: false });
+                    setPreview(null);
+                  })}
+                  className="text-indigo-600 text-xs font-bold hover:underline"
+                >
+                  Confirmar
+                </button>
+              )}
+              <button onClick={() => setPreview(null)} className="text-slate-400 text-xs hover:underline">Fechar</button>
+            </div>
+          </div>
+          <div className="max-h-64 overflow-y-auto divide-y divide-slate-50">
+            {preview.map(change => (
+              <div key={change.transaction.id} className="py-2 flex items-center justify-between text-xs">
+                <span className="text-slate-600">
+                  {format(new Date(change.transaction.date + 'T00:00:00'), 'dd/MM/yyyy')} • {change.transaction.description} ({formatCurrency(change.transaction.amount)})
+                </span>
+                <span>
+                  <span className="text-slate-400 line-through">{change.transaction.category}</span>
+                  {' → '}
+                  <span className="font-bold">{change.category}</span>
+                  {change.type !== change.transaction.type && <span className="text-slate-400"> ({TRANSACTION_TYPE_LABELS[change.type]})</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PeriodPicker({ preset, anchor, onPresetChange, onShift }: { preset: PeriodPreset, anchor: Date, onPresetChange: (preset: PeriodPreset) => void, onShift: (amount: number) => void }) {
+  return (
+    <div className="glass-card p-4 flex flex-col md:flex-row justify-between items-stretch md:items-center gap-4">
+      <div className="flex bg-slate-100 p-1 rounded-xl">
+        {(['month', 'quarter', 'year'] as const).map((p) => (
+          <button
+            key={p}
+            onClick={() => onPresetChange(p)}
+            className={cn(
+              "px-4 py-2 rounded-lg text-xs font-bold transition-all flex-1 md:flex-none",
+              preset === p ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+            )}
+          >
+            {p === 'month' ? 'Mês' : p === 'quarter' ? 'Trimestre' : 'Ano'}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <button onClick={() => onShift(-1)} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+          <ChevronRight size={20} className="rotate-180" />
+        </button>
+        <span className="font-bold min-w-[160px] text-center capitalize">{periodLabel(preset, anchor)}</span>
+        <button onClick={() => onShift(1)} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+          <ChevronRight size={20} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ReportsView({ transactions, formatCurrency, viewMode }: { transactions: Transaction[], formatCurrency: (v: number) => string, viewMode: 'mobile' | 'web' }) {
+  const [period, setPeriod] = useState<'monthly' | 'quarterly' | 'semi-annual' | 'annual'>('monthly');
+  const [yearTransactions, setYearTransactions] = useState<Transaction[]>([]);
+
+  const currentYear = getYear(new Date());
+
+  // `transactions` is just the latest page, so the year is fetched here, again whenever it reloads
+  useEffect(() => {
+    fetch(`/api/transactions?from=${currentYear}-01-01&to=${currentYear}-12-31`)
+      .then(res => res.json())
+      .then(setYearTransactions)
+      .catch(error => console.error("Error fetching report transactions:", error));
+  }, [currentYear, transactions]);
+
+  const exportToPDF = () => {
+    const doc = new jsPDF();
+    const periodLabel = period === 'monthly' ? 'Mensal' : period === 'quarterly' ? 'Trimestral' : period === 'semi-annual' ? 'Semestral' : 'Anual';
+    const title = `Relatorio Financeiro - ${periodLabel} (${currentYear})`;
+    
+    doc.setFontSize(18);
+    doc.text(title, 14, 22);
+    
+    const tableData = periodData.map(item => [
+      item.label,
+      formatCurrency(item.income),
+      formatCurrency(item.expenses),
+      formatCurrency(item.income - item.expenses)
+    ]);
+
+    autoTable(doc, {
+      startY: 30,
+      head: [['Periodo', 'Ganhos', 'Gastos', 'Saldo']],
+      body: tableData,
+      theme: 'striped',
+      headStyles: { fillColor: [99, 102, 241] }
+    });
+
+    doc.save(`relatorio_${period}_${currentYear}.pdf`);
+  };
+
+  const getPeriodData = () => {
+    const data: any[] = [];
+    
+    if (period === 'monthly') {
+      for (let i = 0; i < 12; i++) {
+        const monthTransactions = yearTransactions.filter(t => {
+          const d = new Date(t.date);
+          return getMonth(d) === i && getYear(d) === currentYear;
+        });
+        data.push({
+          label: format(new Date(currentYear, i, 1), 'MMMM', { locale: ptBR }),
+          income: monthTransactions.filter(t => t.type === 'income' || t.type === 'variable_income').reduce((s, t) => s + t.amount, 0),
+          expenses: monthTransactions.filter(t => t.type === 'fixed_expense' || t.type === 'variable_expense').reduce((s, t) => s + t.amount, 0),
+        });
+      }
+    } else if (period === 'quarterly') {
+      for (let i = 1; i <= 4; i++) {
+        const quarterTransactions = yearTransactions.filter(t => {
+          const d = new Date(t.date);
+          return getQuarter(d) === i && getYear(d) === currentYear;
+        });
+        data.push({
+          label: `${i}º Trimestre`,
+          income: quarterTransactions.filter(t => t.type === 'income' || t.type === 'variable_income').reduce((s, t) => s + t.amount, 0),
+          expenses: quarterTransactions.filter(t => t.type === 'fixed_expense' || t.type === 'variable_expense').reduce((s, t) => s + t.amount, 0),
+        });
+      }
+    } else if (period === 'semi-annual') {
+      for (let i = 1; i <= 2; i++) {
+        const semesterTransactions = yearTransactions.filter(t => {
+          const d = new Date(t.date);
+          const month = getMonth(d);
+          return (i === 1 ? month < 6 : month >= 6) && getYear(d) === currentYear;
+        });
+        data.push({
+          label: `${i}º Semestre`,
+          income: semesterTransactions.filter(t => t.type === 'income' || t.type === 'variable_income').reduce((s, t) => s + t.amount, 0),
+          expenses: semesterTransactions.filter(t => t.type === 'fixed_expense' || t.type === 'variable_expense').reduce((s, t) => s + t.amount, 0),
+        });
+      }
+    } else if (period === 'annual') {
+      const annualTransactions = yearTransactions.filter(t => getYear(new Date(t.date)) === currentYear);
+      data.push({
+        label: `Ano ${currentYear}`,
+        income: annualTransactions.filter(t => t.type === 'income' || t.type === 'variable_income').reduce((s, t) => s + t.amount, 0),
+        expenses: annualTransactions.filter(t => t.type === 'fixed_expense' || t.type === 'variable_expense').reduce((s, t) => s + t.amount, 0),
+      });
+    }
+
+    return data;
+  };
+
+  const periodData = getPeriodData();
+
+  return (
+    <div className={cn(
+      "glass-card",
+      viewMode === 'mobile' ? "p-5" : "p-8"
+    )}>
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-4">
+        <div>
+          <h3 className="text-xl font-bold mb-1">Relatórios de Desempenho</h3>
+          <p className="text-slate-500 text-sm">Acompanhe sua evolução financeira por períodos.</p>
+        </div>
+        <div className="flex bg-slate-100 p-1 rounded-xl w-full md:w-auto overflow-x-auto no-scrollbar">
+          {(['monthly', 'quarterly', 'semi-annual', 'annual'] as const).map((p) => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={cn(
+                "px-4 py-2.5 rounded-lg text-xs font-bold transition-all capitalize whitespace-nowrap flex-1 md:flex-none",
+                period === p ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+              )}
+            >
+              {p === 'monthly' ? 'Mensal' : p === 'quarterly' ? 'Trimestral' : p === 'semi-annual' ? 'Semestral' : 'Anual'}
+            </button>
+          ))}
+        </div>
+        <button 
+          onClick={exportToPDF}
+          className="w-full md:w-auto flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-xl text-sm font-bold transition-all shadow-lg shadow-indigo-100"
+        >
+          <Download size={20} />
+          Exportar PDF
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4">
+        {periodData.map((item, idx) => (
+          <div key={idx} className="flex items-center justify-between p-4 bg-slate-50 rounded-xl border border-slate-100 hover:border-indigo-100 transition-all">
+            <div className="flex items-center gap-4">
+              <div className="w-10 h-10 bg-white rounded-lg flex items-center justify-center shadow-sm text-slate-400">
+                <Calendar size={20} />
+              </div>
+              <div>
+                <h4 className="font-bold text-slate-900 capitalize">{item.label}</h4>
+                <div className="flex gap-3 text-xs">
+                  <span className="text-emerald-600">Ganhos: {formatCurrency(item.income)}</span>
+                  <span className="text-rose-600">Gastos: {formatCurrency(item.expenses)}</span>
+                </div>
+              </div>
+            </div>
+            <div className="text-right">
+              <p className="text-xs text-slate-400 uppercase font-bold tracking-wider mb-0.5">Saldo</p>
+              <p className={cn(
+                "text-lg font-bold",
+                (item.income - item.expenses) >= 0 ? "text-emerald-600" : "text-rose-600"
+              )}>
+                {formatCurrency(item.income - item.expenses)}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-8 h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={periodData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} />
+            <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} />
+            <Tooltip 
+              contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+            />
+            <Bar dataKey="income" name="Ganhos" fill="#10b981" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="expenses" name="Gastos" fill="#ef4444" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+const GOAL_STATUS: Record<GoalForecast['status'], { label: string, className: string }> = {
+  achieved: { label: 'Concluída', className: 'bg-emerald-50 text-emerald-600' },
+  on_track: { label: 'No ritmo', className: 'bg-indigo-50 text-indigo-600' },
+  at_risk: { label: 'Em risco', className: 'bg-amber-50 text-amber-600' },
+  late: { label: 'Atrasada', className: 'bg-rose-50 text-rose-600' }
+};
+
+function GoalsView({ goals, formatCurrency, onContribute, onEdit, onDelete }: { goals: Goal[], formatCurrency: (v: number) => string, onContribute: (goal: Goal) => void, onEdit: (goal: Goal) => void, onDelete: (id: number) => void }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      {goals.map(goal => {
+        const progress = (goal.current_amount / goal.target_amount) * 100;
+        return (
+          <div key={goal.id} className="glass-card p-6 relative group">
+            <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => onEdit(goal)} className="text-slate-300 hover:text-indigo-500">
+                <Pencil size={16} />
+              </button>
+              <button onClick={() => onDelete(goal.id)} className="text-slate-300 hover:text-rose-500">
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <div className="w-12 h-12 bg-indigo-50 rounded-xl flex items-center justify-center text-indigo-600 mb-4">
+              <Flag size={24} />
+            </div>
+            <h4 className="font-bold text-lg mb-1">{goal.name}</h4>
+            <div className="flex items-center gap-2 mb-4">
+              <p className="text-xs text-slate-400 uppercase font-bold">{goal.category}</p>
+              {goal.forecast && (
+                <span className={cn("text-[10px] font-bold uppercase px-2 py-0.5 rounded-full", GOAL_STATUS[goal.forecast.status].className)}>
+                  {GOAL_STATUS[goal.forecast.status].label}
+                </span>
+              )}
+            </div>
+            
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-slate-500">{formatCurrency(goal.current_amount)}</span>
+              <span className="font-bold text-indigo-600">{progress.toFixed(1)}%</span>
+            </div>
+            <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden mb-4">
+              <motion.div 
+                initial={{ width: 0 }}
+                animate={{ width: `${Math.min(progress, 100)}%` }}
+                className="bg-indigo-600 h-full"
+              />
+            </div>
+            
+            <div className="flex justify-between items-end">
+              <div>
+                <p className="text-[10px] text-slate-400 uppercase font-bold">Meta</p>
+                <p className="font-bold">{formatCurrency(goal.target_amount)}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-[10px] text-slate-400 uppercase font-bold">Prazo</p>
+                <p className="text-sm font-medium">{format(new Date(goal.deadline), 'MMM yyyy', { locale: ptBR })}</p>
+              </div>
+            </div>
+
+            {goal.forecast && goal.forecast.status !== 'achieved' && (
+              <div className="mt-4 pt-4 border-t border-slate-100 grid grid-cols-2 gap-2 text-xs">
+                <div>
+                  <p className="text-[10px] text-slate-400 uppercase font-bold">Necessário/mês</p>
+                  <p className="font-bold">{formatCurrency(goal.forecast.required_monthly)}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-[10px] text-slate-400 uppercase font-bold">No ritmo atual</p>
+                  <p className="font-bold">
+                    {goal.forecast.projected_completion
+                      ? format(new Date(goal.forecast.projected_completion + 'T00:00:00'), 'MMM yyyy', { locale: ptBR })
+                      : 'Sem previsão'}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <button onClick={() => onContribute(goal)} className="mt-4 w-full bg-indigo-50 text-indigo-600 py-2 rounded-xl text-sm font-bold hover:bg-indigo-100 transition-colors flex items-center justify-center gap-2">
+              <Plus size={16} /> Contribuir
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// One-line summary of how far the portfolio is from its target allocation
+function allocationStatus(allocation: Allocation | null) {
+  if (!allocation || allocation.classes.every(c => !c.target_percent)) return 'Defina sua alocação-alvo';
+  const furthest = [...allocation.classes].sort((a, b) => Math.abs(b.current_percent - b.target_percent) - Math.abs(a.current_percent - a.target_percent))[0];
+  const gap = furthest.current_percent - furthest.target_percent;
+  if (Math.abs(gap) < 1) return 'Carteira dentro da alocação-alvo';
+  return `Maior desvio: ${ASSET_CLASS_LABELS[furthest.asset_class]} ${gap > 0 ? '+' : ''}${gap.toFixed(1).replace('.', ',')} p.p.`;
+}
+
+function AllocationView({ investments, formatCurrency, onChanged }: { investments: Investment[], formatCurrency: (v: number) => string, onChanged: () => void }) {
+  const [allocation, setAllocation] = useState<Allocation | null>(null);
+  const [contribution, setContribution] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [targets, setTargets] = useState<Record<AssetClass, string>>({ renda_fixa: '', acoes: '', fiis: '', internacional: '', cripto: '' });
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+  const contributionValue = parseFloat(contribution.replace(',', '.')) || 0;
+
+  useEffect(() => {
+    fetch(`/api/allocation?contribution=${contributionValue}`)
+      .then(res => res.json())
+      .then(setAllocation)
+      .catch(error => console.error("Error fetching allocation:", error));
+  }, [contributionValue, investments]);
+
+  const startEditing = () => {
+    if (!allocation) return;
+    setTargets(Object.fromEntries(allocation.classes.map(c => [c.asset_class, c.target_percent ? String(c.target_percent) : ''])) as Record<AssetClass, string>);
+    setIsEditing(true);
+  };
+
+  const classes = Object.keys(ASSET_CLASS_LABELS) as AssetClass[];
+  const targetPercent = (assetClass: AssetClass) => parseFloat(targets[assetClass].replace(',', '.')) || 0;
+  const targetSum = classes.reduce((sum, assetClass) => sum + targetPercent(assetClass), 0);
+
+  const saveTargets = async () => {
+    try {
+      const response = await fetch('/api/allocation/targets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targets: Object.fromEntries(classes.map(assetClass => [assetClass, targetPercent(assetClass)])) })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar metas');
+      setIsEditing(false);
+      onChanged();
+    } catch (error) {
+      console.error("Error saving allocation targets:", error);
+      alert(error instanceof Error ? error.message : "Erro ao salvar metas de alocação.");
+    }
+  };
+
+  if (!allocation) return null;
+  const hasTargets = allocation.classes.some(c => c.target_percent > 0);
+  const chartData = allocation.classes.map(c => ({ name: ASSET_CLASS_LABELS[c.asset_class], Atual: c.current_percent, Meta: c.target_percent, color: ASSET_CLASS_COLORS[c.asset_class] }));
+
+  return (
+    <div className="glass-card p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-lg flex items-center gap-2">
+          <PieChartIcon size={18} className="text-slate-400" />
+          Alocação da Carteira
+        </h3>
+        {!isEditing && (
+          <button onClick={startEditing} className="text-xs font-bold text-indigo-600 flex items-center gap-1">
+            <Target size={14} /> {hasTargets ? 'Editar metas' : 'Definir metas'}
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="bg-slate-50 rounded-xl p-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {classes.map(assetClass => (
+              <div key={assetClass}>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">{ASSET_CLASS_LABELS[assetClass]} (%)</label>
+                <input type="number" step="0.1" min="0" max="100" value={targets[assetClass]} onChange={(e) => setTargets({ ...targets, [assetClass]: e.target.value })} className={cn(inputClass, "bg-white")} />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between items-center">
+            <span className={cn("text-xs font-bold", Math.abs(targetSum - 100) < 0.01 || targetSum === 0 ? "text-emerald-600" : "text-rose-600")}>
+              Total: {targetSum.toFixed(1).replace('.', ',')}%
+            </span>
+            <div className="flex gap-2">
+              <button onClick={() => setIsEditing(false)} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100">Cancelar</button>
+              <button onClick={saveTargets} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all">Salvar</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie data={allocation.classes.filter(c => c.value > 0).map(c => ({ name: ASSET_CLASS_LABELS[c.asset_class], value: c.value, color: ASSET_CLASS_COLORS[c.asset_class] }))} cx="50%" cy="50%" innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value">
+                {allocation.classes.filter(c => c.value > 0).map(c => (
+                  <Cell key={c.asset_class} fill={ASSET_CLASS_COLORS[c.asset_class]} />
+                ))}
+              </Pie>
+              <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} unit="%" />
+              <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+              <Bar dataKey="Atual" radius={[4, 4, 0, 0]}>
+                {chartData.map(d => <Cell key={d.name} fill={d.color} />)}
+              </Bar>
+              {hasTargets && <Bar dataKey="Meta" fill="#e2e8f0" radius={[4, 4, 0, 0]} />}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {allocation.unclassified > 0 && (
+        <p className="text-xs text-amber-600 flex items-center gap-1">
+          <AlertCircle size={12} /> {formatCurrency(allocation.unclassified)} em ativos sem classe ficam fora da alocação.
+        </p>
+      )}
+
+      {hasTargets && (
+        <div className="space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="w-48">
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Novo aporte (R$)</label>
+              <input type="text" inputMode="decimal" value={contribution} onChange={(e) => setContribution(e.target.value)} className={inputClass} placeholder="0,00" />
+            </div>
+            <p className="text-xs text-slate-400 pb-2">Distribui o aporte entre as classes abaixo da meta, sem vender nada.</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-[10px] text-slate-400 uppercase">
+                <tr>
+                  <th className="py-2">Classe</th>
+                  <th className="py-2 text-right">Atual</th>
+                  <th className="py-2 text-right">% Atual</th>
+                  <th className="py-2 text-right">% Meta</th>
+                  <th className="py-2 text-right">Diferença</th>
+                  <th className="py-2 text-right">Aportar</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {allocation.classes.map(c => (
+                  <tr key={c.asset_class}>
+                    <td className="py-2 font-medium flex items-center gap-2">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ASSET_CLASS_COLORS[c.asset_class] }} />
+                      {ASSET_CLASS_LABELS[c.asset_class]}
+                    </td>
+                    <td className="py-2 text-right">{formatCurrency(c.value)}</td>
+                    <td className="py-2 text-right">{c.current_percent.toFixed(1)}%</td>
+                    <td className="py-2 text-right">{c.target_percent.toFixed(1)}%</td>
+                    <td className={cn("py-2 text-right", c.difference < 0 ? "text-rose-600" : "text-slate-500")}>{formatCurrency(c.difference)}</td>
+                    <td className="py-2 text-right font-bold text-indigo-600">{c.suggested > 0 ? formatCurrency(c.suggested) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NetWorthPanel({ accounts, investments, formatCurrency }: { accounts: Account[], investments: Investment[], formatCurrency: (v: number) => string }) {
+  const [netWorth, setNetWorth] = useState<{ current: NetWorth, history: NetWorthSnapshot[] } | null>(null);
+  const [liabilities, setLiabilities] = useState<Liability[]>([]);
+  const [editingLiability, setEditingLiability] = useState<Liability | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  const fetchNetWorth = async () => {
+    try {
+      const [nwRes, lRes] = await Promise.all([fetch('/api/net-worth'), fetch('/api/liabilities')]);
+      if (!nwRes.ok || !lRes.ok) throw new Error('Falha ao carregar patrimônio');
+      setNetWorth(await nwRes.json());
+      setLiabilities(await lRes.json());
+    } catch (error) {
+      console.error("Error fetching net worth:", error);
+    }
+  };
+
+  // Balances change with every transaction and quote, all of which refresh these lists
+  useEffect(() => {
+    fetchNetWorth();
+  }, [accounts, investments]);
+
+  const openForm = (liability: Liability | null) => {
+    setEditingLiability(liability);
+    setIsFormOpen(true);
+  };
+
+  const handleSaveLiability = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const balance = parseFloat((formData.get('balance') as string).replace(',', '.'));
+    if (isNaN(balance) || balance < 0) {
+      alert("Por favor, insira um saldo devedor válido.");
+      return;
+    }
+
+    try {
+      const response = await fetch(editingLiability ? `/api/liabilities/${editingLiability.id}` : '/api/liabilities', {
+        method: editingLiability ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: formData.get('name'), kind: formData.get('kind'), balance })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar dívida');
+      setIsFormOpen(false);
+      setEditingLiability(null);
+      fetchNetWorth();
+    } catch (error) {
+      console.error("Error saving liability:", error);
+      alert(error instanceof Error ? error.message : "Erro ao salvar dívida.");
+    }
+  };
+
+  const deleteLiability = async (id: number) => {
+    if (!confirm("Excluir esta dívida?")) return;
+    await fetch(`/api/liabilities/${id}`, { method: 'DELETE' });
+    fetchNetWorth();
+  };
+
+  if (!netWorth) return null;
+  const { current, history } = netWorth;
+  const chartData = history.map(s => ({
+    month: format(new Date(s.month + '-01T00:00:00'), 'MMM/yy', { locale: ptBR }),
+    Patrimônio: s.net_worth,
+    Ativos: s.assets,
+    Dívidas: s.liabilities
+  }));
+
+  return (
+    <div className="glass-card p-6 space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-start gap-4">
+        <div>
+          <h3 className="font-bold flex items-center gap-2">
+            <Landmark size={18} className="text-slate-400" />
+            Patrimônio Líquido
+          </h3>
+          <p className={cn("text-3xl font-bold mt-2", current.net_worth < 0 ? "text-rose-600" : "text-slate-900")}>
+            {formatCurrency(current.net_worth)}
+          </p>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-xs text-slate-400">Contas</p>
+            <p className="font-bold text-emerald-600">{formatCurrency(current.accounts)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Investimentos</p>
+            <p className="font-bold text-emerald-600">{formatCurrency(current.investments)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Cartões</p>
+            <p className="font-bold text-rose-600">{formatCurrency(current.card_debt)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Empréstimos</p>
+            <p className="font-bold text-rose-600">{formatCurrency(current.loans)}</p>
+          </div>
+        </div>
+      </div>
+
+      {chartData.length > 1 ? (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="month" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+              <Tooltip
+                formatter={(value: number) => formatCurrency(value)}
+                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+              />
+              <Line type="monotone" dataKey="Patrimônio" stroke="#6366f1" strokeWidth={3} dot={{ r: 3 }} />
+              <Line type="monotone" dataKey="Ativos" stroke="#10b981" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="Dívidas" stroke="#ef4444" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400 text-center py-8">
+          O histórico é registrado uma vez por mês. O gráfico aparece a partir do segundo mês.
+        </p>
+      )}
+
+      <div className="border-t border-slate-100 pt-4 space-y-3">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold">Empréstimos e financiamentos</h4>
+          {!isFormOpen && (
+            <button onClick={() => openForm(null)} className="text-xs font-bold text-indigo-600 flex items-center gap-1">
+              <Plus size={14} /> Adicionar dívida
+            </button>
+          )}
+        </div>
+
+        {isFormOpen && (
+          <form key={editingLiability?.id ?? 'new'} onSubmit={handleSaveLiability} className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-end">
+            <input name="name" required placeholder="Ex: Financiamento do carro" defaultValue={editingLiability?.name} className={inputClass} />
+            <select name="kind" defaultValue={editingLiability?.kind || 'loan'} className={inputClass}>
+              {(Object.keys(LIABILITY_KIND_LABELS) as Liability['kind'][]).map(kind => (
+                <option key={kind} value={kind}>{LIABILITY_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+            <input name="balance" required inputMode="decimal" placeholder="Saldo devedor" defaultValue={editingLiability?.balance} className={inputClass} />
+            <div className="flex gap-2">
+              <button type="submit" className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-indigo-700 transition-all">
+                Salvar
+              </button>
+              <button type="button" onClick={() => { setIsFormOpen(false); setEditingLiability(null); }} className="px-4 py-2 rounded-lg text-sm font-bold text-slate-500 hover:bg-slate-100 transition-all">
+                Cancelar
+              </button>
+            </div>
+          </form>
+        )}
+
+        {liabilities.length === 0 ? (
+          !isFormOpen && <p className="text-xs text-slate-400">Nenhuma dívida cadastrada. Faturas de cartão já entram pelo saldo das contas.</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {liabilities.map(l => (
+              <div key={l.id} className="flex items-center justify-between py-2 group">
+                <div>
+                  <p className="text-sm font-medium">{l.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {LIABILITY_KIND_LABELS[l.kind]} · atualizado em {format(new Date(l.updated_at + 'T00:00:00'), 'dd/MM/yyyy')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm font-bold text-rose-600">{formatCurrency(l.balance)}</span>
+                  <button onClick={() => openForm(l)} className="p-1 text-slate-300 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-all">
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => deleteLiability(l.id)} className="p-1 text-slate-300 hover:text-rose-600 opacity-0 group-hover:opacity-100 transition-all">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function IndexRatesPanel({ onChanged }: { onChanged: () => void }) {
+  const [indexer, setIndexer] = useState<IndexRate['indexer']>('cdi');
+  const [rates, setRates] = useState<IndexRate[]>([]);
+  const [importText, setImportText] = useState('');
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  const fetchRates = async () => {
+    try {
+      const response = await fetch(`/api/index-rates?indexer=${indexer}`);
+      if (!response.ok) throw new Error('Falha ao carregar taxas');
+      setRates(await response.json());
+    } catch (error) {
+      console.error("Error fetching index rates:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRates();
+  }, [indexer]);
+
+  const handleAddRate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const rate = parseFloat((formData.get('rate') as string).replace(',', '.'));
+    if (isNaN(rate)) {
+      alert("Por favor, insira um valor válido.");
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/index-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ indexer, date: formData.get('date'), rate })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar taxa');
+      form.reset();
+      fetchRates();
+      onChanged();
+    } catch (error) {
+      console.error("Error saving index rate:", error);
+      alert(error instanceof Error ? error.message : "Erro ao salvar taxa.");
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const response = await fetch('/api/index-rates/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ indexer, content: importText })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Falha ao importar taxas');
+      alert(`${result.imported} taxa(s) importada(s).`);
+      setImportText('');
+      fetchRates();
+      onChanged();
+    } catch (error) {
+      console.error("Error importing index rates:", error);
+      alert(error instanceof Error ? error.message : "Erro ao importar taxas.");
+    }
+  };
+
+  const deleteRate = async (id: number) => {
+    await fetch(`/api/index-rates/${id}`, { method: 'DELETE' });
+    fetchRates();
+    onChanged();
+  };
+
+  return (
+    <div className="glass-card p-6 space-y-4">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h3 className="font-bold text-lg">Taxas de Referência</h3>
+          <p className="text-xs text-slate-400">
+            {indexer === 'ipca' ? 'IPCA mensal (%), válido a partir da data informada.' : `${INDEXER_LABELS[indexer]} anual (% a.a.), válido a partir da data informada.`} A última taxa vale para as projeções.
+          </p>
+        </div>
+        <div className="flex bg-slate-100 p-1 rounded-xl">
+          {(['cdi', 'selic', 'ipca'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setIndexer(option)}
+              className={cn(
+                "px-4 py-2 rounded-lg text-xs font-bold transition-all",
+                indexer === option ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+              )}
+            >
+              {option === 'ipca' ? 'IPCA' : INDEXER_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <form onSubmit={handleAddRate} className="grid grid-cols-3 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-1">A partir de</label>
+              <input name="date" type="date" required className={inputClass} defaultValue={format(new Date(), 'yyyy-MM-dd')} />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Taxa (%)</label>
+              <input name="rate" type="number" step="0.0001" required className={inputClass} />
+            </div>
+            <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all">
+              Salvar
+            </button>
+          </form>
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Importar série (data;valor, ex. SGS do Banco Central)</label>
+            <textarea value={importText} onChange={(e) => setImportText(e.target.value)} rows={4} className={cn(inputClass, "font-mono text-xs")} placeholder={"data;valor\n02/01/2026;14,90"} />
+            <button onClick={handleImport} disabled={!importText.trim()} className="mt-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+              <FileUp size={16} /> Importar
+            </button>
+          </div>
+        </div>
+
+        {rates.length > 0 ? (
+          <div className="divide-y divide-slate-50 max-h-64 overflow-y-auto">
+            {rates.map(rate => (
+              <div key={rate.id} className="py-2 flex justify-between items-center text-sm group">
+                <span className="text-slate-500">{format(new Date(rate.date + 'T00:00:00'), 'dd/MM/yyyy')}</span>
+                <div className="flex items-center gap-2">
+                  <span className="font-bold">{rate.rate.toLocaleString('pt-BR', { maximumFractionDigits: 4 })}%</span>
+                  <button onClick={() => deleteRate(rate.id)} className="text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-slate-400 text-center py-4 italic">Nenhuma taxa cadastrada.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function InvestmentOperationsModal({ investment, formatCurrency, onClose, onChanged }: { investment: Investment, formatCurrency: (v: number) => string, onClose: () => void, onChanged: () => void }) {
+  const [operations, setOperations] = useState<InvestmentOperation[]>([]);
+  const [prices, setPrices] = useState<InvestmentPrice[]>([]);
+  const [editingOperation, setEditingOperation] = useState<InvestmentOperation | null>(null);
+  const [operationType, setOperationType] = useState<InvestmentOperation['type']>('buy');
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+  const isTrade = operationType === 'buy' || operationType === 'sell';
+  const position = investment.position;
+
+  const fetchHistory = async () => {
+    try {
+      const [oRes, pRes] = await Promise.all([
+        fetch(`/api/investments/${investment.id}/operations`),
+        fetch(`/api/investments/${investment.id}/prices`)
+      ]);
+      if (!oRes.ok || !pRes.ok) throw new Error('Falha ao carregar operações');
+      setOperations(await oRes.json());
+      setPrices(await pRes.json());
+    } catch (error) {
+      console.error("Error fetching operations:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [investment.id]);
+
+  const editOperation = (operation: InvestmentOperation | null) => {
+    setEditingOperation(operation);
+    setOperationType(operation?.type || 'buy');
+  };
+
+  const handleOperation = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const number = (name: string) => parseFloat(((formData.get(name) as string) || '').replace(',', '.'));
+    const data = isTrade
+      ? { type: operationType, date: formData.get('date'), quantity: number('quantity'), unit_price: number('unit_price'), fees: number('fees') || 0, notes: formData.get('notes') || null }
+      : { type: operationType, date: formData.get('date'), amount: number('amount'), notes: formData.get('notes') || null };
+    if (Object.values(data).some(value => typeof value === 'number' && isNaN(value))) {
+      alert("Por favor, insira valores válidos.");
+      return;
+    }
+
+    try {
+      const url = `/api/investments/${investment.id}/operations`;
+      const response = await fetch(editingOperation ? `${url}/${editingOperation.id}` : url, {
+        method: editingOperation ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar operação');
+      form.reset();
+      editOperation(null);
+      fetchHistory();
+      onChanged();
+    } catch (error) {
+      console.error("Error saving operation:", error);
+      alert(error instanceof Error ? error.message : "Erro ao salvar operação.");
+    }
+  };
+
+  const deleteOperation = async (id: number) => {
+    const response = await fetch(`/api/investments/${investment.id}/operations/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      alert((await response.json()).error);
+      return;
+    }
+    fetchHistory();
+    onChanged();
+  };
+
+  const handlePrice = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const price = parseFloat((formData.get('price') as string).replace(',', '.'));
+    if (isNaN(price) || price < 0) {
+      alert("Por favor, insira um valor válido.");
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/investments/${investment.id}/prices`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: formData.get('date'), price })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao atualizar preço');
+      form.reset();
+      fetchHistory();
+      onChanged();
+    } catch (error) {
+      console.error("Error updating price:", error);
+      alert(error instanceof Error ? error.message : "Erro ao atualizar preço.");
+    }
+  };
+
+  const deletePrice = async (id: number) => {
+    await fetch(`/api/investments/${investment.id}/prices/${id}`, { method: 'DELETE' });
+    fetchHistory();
+    onChanged();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg">{investment.name}{investment.ticker && <span className="ml-2 text-sm text-slate-400">{investment.ticker}</span>}</h3>
+            {position && (
+              <p className="text-xs text-slate-500">
+                {position.quantity.toLocaleString('pt-BR')} un. • PM {formatCurrency(position.average_cost)} • {formatCurrency(position.market_value)}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <Plus size={24} className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          {position && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              {[
+                ['Custo', position.cost_basis],
+                ['Não realizado', position.unrealized],
+                ['Realizado', position.realized],
+                ['Proventos', position.income]
+              ].map(([label, value]) => (
+                <div key={label} className="bg-slate-50 rounded-xl p-3">
+                  <p className="text-[10px] text-slate-400 uppercase font-bold">{label}</p>
+                  <p className={cn("font-bold", (value as number) < 0 ? "text-rose-600" : "text-slate-700")}>{formatCurrency(value as number)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form key={editingOperation?.id ?? 'new'} onSubmit={handleOperation} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Operação</label>
+              <select value={operationType} onChange={(e) => setOperationType(e.target.value as InvestmentOperation['type'])} className={inputClass}>
+                {Object.entries(OPERATION_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Data</label>
+              <input name="date" type="date" required className={inputClass} defaultValue={editingOperation?.date || format(new Date(), 'yyyy-MM-dd')} />
+            </div>
+            {isTrade ? (
+              <>
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Quantidade</label>
+                  <input name="quantity" type="number" step="any" required className={inputClass} defaultValue={editingOperation?.quantity ?? undefined} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Preço Unitário</label>
+                  <input name="unit_price" type="number" step="0.01" required className={inputClass} placeholder="0,00" defaultValue={editingOperation?.unit_price ?? undefined} />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Custos</label>
+                  <input name="fees" type="number" step="0.01" className={inputClass} placeholder="0,00" defaultValue={editingOperation?.fees || undefined} />
+                </div>
+              </>
+            ) : (
+              <div className="col-span-2">
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Valor</label>
+                <input name="amount" type="number" step="0.01" required className={inputClass} placeholder="0,00" defaultValue={editingOperation && !editingOperation.quantity ? editingOperation.amount : undefined} />
+              </div>
+            )}
+            <div className={isTrade ? "col-span-2" : "col-span-2 md:col-span-3"}>
+              <input name="notes" className={inputClass} placeholder="Observação (opcional)" defaultValue={editingOperation?.notes || ''} />
+            </div>
+            <div className="flex gap-2">
+              {editingOperation && (
+                <button type="button" onClick={() => editOperation(null)} className="px-3 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100">
+                  Cancelar
+                </button>
+              )}
+              <button type="submit" className="flex-1 bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all">
+                {editingOperation ? 'Salvar' : 'Registrar'}
+              </button>
+            </div>
+          </form>
+
+          {operations.length > 0 ? (
+            <div className="divide-y divide-slate-50">
+              {operations.map(op => (
+                <div key={op.id} className="py-2 flex items-center justify-between text-sm group">
+                  <div>
+                    <p className="font-medium text-slate-700">
+                      {OPERATION_LABELS[op.type]}
+                      {op.quantity !== null && op.unit_price !== null && <span className="text-slate-400 font-normal"> • {op.quantity.toLocaleString('pt-BR')} × {formatCurrency(op.unit_price)}</span>}
+                    </p>
+                    <p className="text-[10px] text-slate-400">
+                      {format(new Date(op.date + 'T00:00:00'), 'dd/MM/yyyy')}
+                      {op.fees > 0 && <> • custos {formatCurrency(op.fees)}</>}
+                      {op.notes && <> • {op.notes}</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={cn("font-bold", op.type === 'buy' || op.type === 'fee' ? "text-slate-700" : "text-emerald-600")}>{formatCurrency(op.amount)}</span>
+                    <button onClick={() => editOperation(op)} className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Pencil size={12} />
+                    </button>
+                    <button onClick={() => deleteOperation(op.id)} className="text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 text-center py-4 italic">Nenhuma operação registrada.</p>
+          )}
+
+          <div className="border-t border-slate-100 pt-6 space-y-4">
+            <h4 className="font-bold text-sm">Atualizar cotação</h4>
+            <form onSubmit={handlePrice} className="grid grid-cols-3 gap-3 items-end">
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Data</label>
+                <input name="date" type="date" required className={inputClass} defaultValue={format(new Date(), 'yyyy-MM-dd')} />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Preço</label>
+                <input name="price" type="number" step="0.01" required className={inputClass} placeholder="0,00" />
+              </div>
+              <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all">
+                Atualizar
+              </button>
+            </form>
+
+            {prices.length > 1 && (
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={prices.map(p => ({ date: format(new Date(p.date + 'T00:00:00'), 'dd/MM/yy'), price: p.price }))}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} domain={['auto', 'auto']} />
+                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                    <Line type="monotone" dataKey="price" name="Cotação" stroke="#6366f1" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {prices.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {[...prices].reverse().slice(0, 12).map(p => (
+                  <span key={p.id} className="text-[10px] bg-slate-100 text-slate-500 rounded-lg px-2 py-1 flex items-center gap-1 group">
+                    {format(new Date(p.date + 'T00:00:00'), 'dd/MM/yy')}: {formatCurrency(p.price)}
+                    <button onClick={() => deletePrice(p.id)} className="text-slate-300 hover:text-rose-500">
+                      <Plus size={10} className="rotate-45" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+function GoalContributionsModal({ goal, transactions, investments, formatCurrency, onClose, onChanged }: { goal: Goal, transactions: Transaction[], investments: Investment[], formatCurrency: (v: number) => string, onClose: () => void, onChanged: () => void }) {
+  const [contributions, setContributions] = useState<GoalContribution[]>([]);
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  const fetchContributions = async () => {
+    try {
+      const response = await fetch(`/api/goals/${goal.id}/contributions`);
+      if (!response.ok) throw new Error('Falha ao carregar contribuições');
+      setContributions(await response.json());
+    } catch (error) {
+      console.error("Error fetching contributions:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchContributions();
+  }, [goal.id]);
+
+  const handleContribute = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const amount = parseFloat((formData.get('amount') as string).replace(',', '.'));
+    if (isNaN(amount) || amount === 0) {
+      alert("Por favor, insira um valor válido.");
+      return;
+    }
+    // The link select holds "t:<id>" for a transaction or "i:<id>" for an investment
+    const [kind, linkId] = ((formData.get('link') as string) || ':').split(':');
+
+    try {
+      const response = await fetch(`/api/goals/${goal.id}/contributions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount,
+          date: formData.get('date'),
+          description: formData.get('description') || null,
+          transaction_id: kind === 't' ? Number(linkId) : null,
+          investment_id: kind === 'i' ? Number(linkId) : null
+        })
+      });
+      if (!response.ok) throw new Error((await response.json()).error || 'Falha ao salvar contribuição');
+      form.reset();
+      fetchContributions();
+      onChanged();
+    } catch (error) {
+      console.error("Error adding contribution:", error);
+      alert(error instanceof Error ? error.message : "Erro ao salvar contribuição.");
+    }
+  };
+
+  const deleteContribution = async (id: number) => {
+    await fetch(`/api/goals/${goal.id}/contributions/${id}`, { method: 'DELETE' });
+    fetchContributions();
+    onChanged();
+  };
+
+  const total = contributions.reduce((sum, c) => sum + c.amount, 0);
+  let running = 0;
+  const chartData = contributions.map(c => {
+    running += c.amount;
+    return { date: format(new Date(c.date + 'T00:00:00'), 'dd/MM/yy'), total: running };
+  });
+  const linkLabel = (c: GoalContribution) =>
+    c.transaction_id ? c.transaction_description :
+    c.investment_id ? investments.find(i => i.id === c.investment_id)?.name : null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden"
+      >
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-lg">{goal.name}</h3>
+            <p className="text-xs text-slate-500">{formatCurrency(total)} de {formatCurrency(goal.target_amount)}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <Plus size={24} className="rotate-45" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <form onSubmit={handleContribute} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Valor</label>
+              <input name="amount" type="number" step="0.01" required className={inputClass} placeholder="0,00" />
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Data</label>
+              <input name="date" type="date" required className={inputClass} defaultValue={format(new Date(), 'yyyy-MM-dd')} />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-1">Origem</label>
+              <select name="link" defaultValue="" className={inputClass}>
+                <option value="">Sem vínculo</option>
+                {transactions.length > 0 && (
+                  <optgroup label="Transações">
+                    {transactions.slice(0, 50).map(t => (
+                      <option key={t.id} value={`t:${t.id}`}>{format(new Date(t.date + 'T00:00:00'), 'dd/MM')} • {t.description} ({formatCurrency(t.amount)})</option>
+                    ))}
+                  </optgroup>
+                )}
+                {investments.length > 0 && (
+                  <optgroup label="Investimentos">
+                    {investments.map(i => <option key={i.id} value={`i:${i.id}`}>{i.name} ({formatCurrency(i.amount)})</option>)}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+            <div className="col-span-2 md:col-span-3">
+              <input name="description" className={inputClass} placeholder="Observação (opcional)" />
+            </div>
+            <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all">
+              Contribuir
+            </button>
+          </form>
+          <p className="text-[10px] text-slate-400">Use um valor negativo para registrar uma retirada.</p>
+
+          {chartData.length > 1 && (
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+                  <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Area type="stepAfter" dataKey="total" stroke="#6366f1" fill="#eef2ff" strokeWidth={2} />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          {contributions.length > 0 ? (
+            <div className="divide-y divide-slate-50">
+              {[...contributions].reverse().map(c => (
+                <div key={c.id} className="py-2 flex items-center justify-between text-sm group">
+                  <div>
+                    <p className="font-medium text-slate-700">{c.description || 'Contribuição'}</p>
+                    <p className="text-[10px] text-slate-400">
+                      {format(new Date(c.date + 'T00:00:00'), 'dd/MM/yyyy')}
+                      {linkLabel(c) && <> • {linkLabel(c)}</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={cn("font-bold", c.amount < 0 ? "text-rose-600" : "text-emerald-600")}>{formatCurrency(c.amount)}</span>
+                    <button onClick={() => deleteContribution(c.id)} className="text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 text-center py-4 italic">Nenhuma contribuição registrada.</p>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+function BudgetsView({ budgets, formatCurrency, onEdit, onDelete }: { budgets: Budget[], formatCurrency: (v: number) => string, onEdit: (budget: Budget) => void, onDelete: (id: number) => void }) {
+  const [month, setMonth] = useState(new Date());
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+
+  // Refetch when the month changes or the budget list is reloaded
+  useEffect(() => {
+    fetch(`/api/budgets/status?month=${format(month, 'yyyy-MM')}`)
+      .then(res => res.json())
+      .then(setStatuses)
+      .catch(error => console.error("Error fetching budget status:", error));
+  }, [month, budgets]);
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card p-4 flex justify-center items-center gap-2">
+        <button onClick={() => setMonth(addMonths(month, -1))} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+          <ChevronRight size={20} className="rotate-180" />
+        </button>
+        <span className="font-bold min-w-[160px] text-center capitalize">{format(month, 'MMMM yyyy', { locale: ptBR })}</span>
+        <button onClick={() => setMonth(addMonths(month, 1))} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {statuses.map(status => {
+          const budget = budgets.find(b => b.id === status.budget_id);
+          if (!budget) return null;
+          const { spent, percent } = status;
+          
+          return (
+            <div key={budget.id} className="glass-card p-6 relative group">
+              <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => onEdit(budget)} className="text-slate-300 hover:text-indigo-500">
+                  <Pencil size={16} />
+                </button>
+                <button onClick={() => onDelete(budget.id)} className="text-slate-300 hover:text-rose-500">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <div className="w-12 h-12 bg-amber-50 rounded-xl flex items-center justify-center text-amber-600 mb-4">
+                <BarChart3 size={24} />
+              </div>
+              <h4 className="font-bold text-lg mb-1">{budget.category}</h4>
+              <p className="text-xs text-slate-400 mb-4">
+                {BUDGET_PERIOD_LABELS[budget.period]} • {format(new Date(status.from + 'T00:00:00'), 'dd/MM')} a {format(new Date(status.to + 'T00:00:00'), 'dd/MM')}
+              </p>
+              
+              <div className="flex justify-between text-sm mb-2">
+                <span className="text-slate-500">Gasto: {formatCurrency(spent)}</span>
+                <span className={cn(
+                  "font-bold",
+                  percent > 90 ? "text-rose-600" : percent > 70 ? "text-amber-600" : "text-indigo-600"
+                )}>
+                  {percent.toFixed(1)}%
+                </span>
+              </div>
+              <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden mb-4">
+                <motion.div 
+                  initial={{ width: 0 }}
+                  animate={{ width: `${Math.min(percent, 100)}%` }}
+                  className={cn(
+                    "h-full",
+                    percent > 90 ? "bg-rose-500" : percent > 70 ? "bg-amber-500" : "bg-indigo-600"
+                  )}
+                />
+              </div>
+              
+              <div className="flex justify-between items-end">
+                <div>
+                  <p className="text-[10px] text-slate-400 uppercase font-bold">Limite</p>
+                  <p className="font-bold">{formatCurrency(status.available)}</p>
+                  {status.carried !== 0 && (
+                    <p className={cn("text-[10px] font-bold", status.carried > 0 ? "text-emerald-600" : "text-rose-600")}>
+                      {status.carried > 0 ? '+' : ''}{formatCurrency(status.carried)} acumulado
+                    </p>
+                  )}
+                </div>
+                <div className="text-right">
+                  <p className="text-[10px] text-slate-400 uppercase font-bold">Disponível</p>
+                  <p className={cn(
+                    "text-sm font-bold",
+                    status.remaining >= 0 ? "text-emerald-600" : "text-rose-600"
+                  )}>
+                    {formatCurrency(status.remaining)}
+                  </p>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function EnvelopesView({ categories, transactions, formatCurrency, onChange }: { categories: Category[], transactions: Transaction[], formatCurrency: (v: number) => string, onChange: () => void }) {
+  const [month, setMonth] = useState(new Date());
+  const [summary, setSummary] = useState<EnvelopeSummary | null>(null);
+
+  const fetchSummary = () => {
+    fetch(`/api/envelopes?month=${format(month, 'yyyy-MM')}`)
+      .then(res => res.json())
+      .then(setSummary)
+      .catch(error => console.error("Error fetching envelopes:", error));
+  };
+
+  useEffect(() => {
+    fetchSummary();
+  }, [month, transactions]);
+
+  const handleMove = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const data = {
+      month: format(month, 'yyyy-MM'),
+      from_category: formData.get('from_category') as string,
+      to_category: formData.get('to_category') as string,
+      amount: Number((formData.get('amount') as string).replace(',', '.')),
+      description: formData.get('description') as string
+    };
+
+    if (isNaN(data.amount) || data.amount <= 0) {
+      alert("Por favor, insira um valor válido.");
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/envelopes/moves', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data)
+      });
+      if (!response.ok) throw new Error((await response.json()).error);
+      form.reset();
+      fetchSummary();
+      onChange();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Erro ao movimentar envelope.");
+    }
+  };
+
+  const deleteMove = async (id: number) => {
+    await fetch(`/api/envelopes/moves/${id}`, { method: 'DELETE' });
+    fetchSummary();
+  };
+
+  if (!summary) return null;
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-card p-4 flex justify-center items-center gap-2">
+        <button onClick={() => setMonth(addMonths(month, -1))} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+          <ChevronRight size={20} className="rotate-180" />
+        </button>
+        <span className="font-bold min-w-[160px] text-center capitalize">{format(month, 'MMMM yyyy', { locale: ptBR })}</span>
+        <button onClick={() => setMonth(addMonths(month, 1))} className="p-2 hover:bg-slate-100 rounded-lg transition-colors">
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className={cn("glass-card p-6", summary.unassigned < 0 && "border-rose-200")}>
+          <p className="text-[10px] text-slate-400 uppercase font-bold">A distribuir</p>
+          <p className={cn("text-2xl font-bold", summary.unassigned < 0 ? "text-rose-600" : summary.unassigned > 0 ? "text-emerald-600" : "text-slate-700")}>
+            {formatCurrency(summary.unassigned)}
+          </p>
+          <p className="text-xs text-slate-400 mt-2">Receitas do mês: {formatCurrency(summary.income)}</p>
+        </div>
+        <div className="glass-card p-6">
+          <p className="text-[10px] text-slate-400 uppercase font-bold">Saldo nos envelopes</p>
+          <p className="text-2xl font-bold">{formatCurrency(summary.envelopes.reduce((sum, e) => sum + e.balance, 0))}</p>
+          <p className="text-xs text-slate-400 mt-2">Distribuído no mês: {formatCurrency(summary.envelopes.reduce((sum, e) => sum + e.assigned, 0))}</p>
+        </div>
+        <div className="glass-card p-6">
+          <p className="text-[10px] text-slate-400 uppercase font-bold">Gastos sem envelope</p>
+          <p className={cn("text-2xl font-bold", summary.unenveloped_spent > 0 ? "text-amber-600" : "text-slate-700")}>{formatCurrency(summary.unenveloped_spent)}</p>
+          <p className="text-xs text-slate-400 mt-2">Desde {format(new Date(summary.start_month + '-01T00:00:00'), 'MMM yyyy', { locale: ptBR })}</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleMove} className="glass-card p-6 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">De</label>
+          <select name="from_category" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+            <option value="">A distribuir</option>
+            {summary.envelopes.map(e => <option key={e.category} value={e.category}>{e.category} ({formatCurrency(e.balance)})</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Para</label>
+          <CategorySelect name="to_category" categories={categories} type="expense" emptyLabel="A distribuir" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Valor (R$)</label>
+          <input name="amount" type="text" inputMode="decimal" required className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Observação</label>
+          <input name="description" type="text" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
+        </div>
+        <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center justify-center gap-2">
+          <ArrowLeftRight size={16} /> Mover
+        </button>
+      </form>
+
+      {summary.envelopes.length === 0 ? (
+        <div className="glass-card p-12 text-center text-slate-400">
+          Distribua a receita do mês entre categorias para começar a usar envelopes.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {summary.envelopes.map(envelope => {
+            const funded = envelope.carried + envelope.assigned;
+            const percent = funded > 0 ? (envelope.spent / funded) * 100 : envelope.spent > 0 ? 100 : 0;
+            return (
+              <div key={envelope.category} className="glass-card p-6">
+                <div className="flex justify-between items-start mb-4">
+                  <h4 className="font-bold text-lg">{envelope.category}</h4>
+                  <span className={cn("font-bold", envelope.balance < 0 ? "text-rose-600" : "text-emerald-600")}>{formatCurrency(envelope.balance)}</span>
+                </div>
+                <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden mb-4">
+                  <div className={cn("h-full", percent > 100 ? "bg-rose-500" : "bg-indigo-600")} style={{ width: `${Math.min(percent, 100)}%` }} />
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-xs">
+                  <div>
+                    <p className="text-[10px] text-slate-400 uppercase font-bold">Anterior</p>
+                    <p className="font-medium">{formatCurrency(envelope.carried)}</p>
+                  </div>
+                  <div>
+                    <p className="text-[10px] text-slate-400 uppercase font-bold">Distribuído</p>
+                    <p className="font-medium">{formatCurrency(envelope.assigned)}</p>
+                  </div>
+                  <div>
+                    <p className="text-[10px] text-slate-400 uppercase font-bold">Gasto</p>
+                    <p className="font-medium">{formatCurrency(envelope.spent)}</p>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {summary.moves.length > 0 && (
+        <div className="glass-card p-6">
+          <h3 className="font-bold mb-4">Movimentações do mês</h3>
+          <div className="divide-y divide-slate-50">
+            {summary.moves.map(move => (
+              <div key={move.id} className="py-3 flex justify-between items-center text-sm group">
+                <div>
+                  <p className="font-medium">{move.from_category || 'A distribuir'} → {move.to_category || 'A distribuir'}</p>
+                  <p className="text-xs text-slate-400">{format(new Date(move.date + 'T00:00:00'), 'dd/MM/yyyy')}{move.description && ` • ${move.description}`}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-bold">{formatCurrency(move.amount)}</span>
+                  <button onClick={() => deleteMove(move.id)} className="text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BudgetVarianceReport({ budgets, transactions, formatCurrency }: { budgets: Budget[], transactions: Transaction[], formatCurrency: (v: number) => string }) {
+  const [report, setReport] = useState<BudgetVariance[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetch('/api/budgets/variance?months=12')
+      .then(res => res.json())
+      .then(setReport)
+      .catch(error => console.error("Error fetching budget variance:", error));
+  }, [budgets, transactions]);
+
+  const selected = report.find(r => r.budget_id === selectedId) || report[0];
+  const monthLabel = (month: string) => format(new Date(month + '-01T00:00:00'), 'MMM yy', { locale: ptBR });
+
+  const exportToPDF = () => {
+    const doc = new jsPDF();
+    doc.setFontSize(18);
+    doc.text('Orcamentos - Previsto x Realizado (12 meses)', 14, 22);
+
+    autoTable(doc, {
+      startY: 30,
+      head: [['Categoria', 'Limite mensal', 'Gasto medio', 'Estouro medio', 'Meses acima']],
+      body: report.map(r => [
+        r.category,
+        formatCurrency(r.monthly_limit),
+        formatCurrency(r.average_spent),
+        formatCurrency(r.average_overshoot),
+        `${r.months_over} de ${r.months.length}`
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: [99, 102, 241] }
+    });
+
+    // One table per budget with the month-by-month numbers
+    for (const r of report) {
+      autoTable(doc, {
+        head: [[r.category, 'Limite', 'Gasto', 'Diferenca']],
+        body: r.months.map(m => [monthLabel(m.month), formatCurrency(m.limit), formatCurrency(m.spent), formatCurrency(m.variance)]),
+        theme: 'striped',
+        headStyles: { fillColor: [99, 102, 241] }
+      });
+    }
+
+    doc.save(`orcamentos_variacao_${format(new Date(), 'yyyy-MM')}.pdf`);
+  };
+
+  if (!selected) return null;
+
+  return (
+    <div className="glass-card p-6 space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <BarChart3 size={18} className="text-slate-400" />
+          Previsto x Realizado (12 meses)
+        </h3>
+        <div className="flex gap-3">
+          <select value={selected.budget_id} onChange={(e) => setSelectedId(Number(e.target.value))} className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+            {report.map(r => <option key={r.budget_id} value={r.budget_id}>{r.category}</option>)}
+          </select>
+          <button onClick={exportToPDF} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-bold flex items-center gap-2">
+            <Download size={16} /> PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={selected.months.map(m => ({ ...m, label: monthLabel(m.month) }))}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+            <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} />
+            <Bar dataKey="limit" name="Limite" fill="#e2e8f0" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="spent" name="Gasto" radius={[4, 4, 0, 0]}>
+              {selected.months.map(m => (
+                <Cell key={m.month} fill={m.variance > 0 ? '#ef4444' : '#6366f1'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="text-[10px] text-slate-400 uppercase">
+            <tr>
+              <th className="py-2">Categoria</th>
+              <th className="py-2 text-right">Limite mensal</th>
+              <th className="py-2 text-right">Gasto médio</th>
+              <th className="py-2 text-right">Estouro médio</th>
+              <th className="py-2 text-right">Meses acima</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {report.map(r => (
+              <tr key={r.budget_id}>
+                <td className="py-2 font-medium">{r.category}</td>
+                <td className="py-2 text-right">{formatCurrency(r.monthly_limit)}</td>
+                <td className="py-2 text-right">{formatCurrency(r.average_spent)}</td>
+                <td className={cn("py-2 text-right font-bold", r.average_overshoot > 0 ? "text-rose-600" : "text-slate-400")}>{formatCurrency(r.average_overshoot)}</td>
+                <td className="py-2 text-right">{r.months_over} de {r.months.length}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function CalendarView({ transactions }: { transactions: Transaction[] }) {
+  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [occurrences, setOccurrences] = useState<Occurrence[]>([]);
+
+  // Refetch when the month changes or the transaction list is reloaded
+  useEffect(() => {
+    const from = format(startOfMonth(currentMonth), 'yyyy-MM-dd');
+    const to = format(endOfMonth(currentMonth), 'yyyy-MM-dd');
+    fetch(`/api/occurrences?from=${from}&to=${to}`)
+      .then(res => res.json())
+      .then(setOccurrences)
+      .catch(error => console.error("Error fetching occurrences:", error));
+  }, [currentMonth, transactions]);
   
   const daysInMonth = (date: Date) => {
     const year = date.getFullYear();
@@ -1714,18 +5406,19 @@ function CalendarView({ transactions }: { transactions: Transaction[] }) {
         {blanks.map(b => <div key={`b-${b}`} className="bg-white h-24 p-2" />)}
         {days.map(d => {
           const dateStr = format(new Date(currentMonth.getFullYear(), currentMonth.getMonth(), d), 'yyyy-MM-dd');
-          const dayTransactions = transactions.filter(t => t.date === dateStr);
+          const dayOccurrences = occurrences.filter(o => o.date === dateStr);
           
           return (
             <div key={d} className="bg-white h-24 p-2 hover:bg-slate-50 transition-colors overflow-y-auto">
               <span className="text-xs font-bold text-slate-400">{d}</span>
               <div className="space-y-1 mt-1">
-                {dayTransactions.map(t => (
-                  <div key={t.id} className={cn(
+                {dayOccurrences.map(o => (
+                  <div key={`${o.transaction_id}-${o.installment_number}`} className={cn(
                     "text-[8px] p-1 rounded font-bold truncate",
-                    (t.type === 'income' || t.type === 'variable_income') ? "bg-emerald-50 text-emerald-700" : "bg-rose-50 text-rose-700"
+                    (o.type === 'income' || o.type === 'variable_income') ? "bg-emerald-50 text-emerald-700" : "bg-rose-50 text-rose-700"
                   )}>
-                    {t.description}
+                    {o.description}
+                    {formatInstallment(o) && <span className="ml-1 opacity-60">{formatInstallment(o)}</span>}
                   </div>
                 ))}
               </div>
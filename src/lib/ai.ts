@@ -0,0 +1,67 @@
+// Language-model access for the server. Every call names a task, sends a prompt plus the data it was
+// built from, and expects JSON matching `schema`; providers are picked with AI_PROVIDER.
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface AiRequest<Task extends string = string, Input = unknown> {
+  task: Task;
+  system: string;
+  prompt: string;
+  schema: JsonSchema;
+  // The aggregated data behind `prompt`; the stub provider answers from it directly
+  input: Input;
+}
+
+export interface AiProvider {
+  name: string;
+  generateJson(request: AiRequest): Promise<unknown>;
+}
+
+// One responder per task, each typed with the `input` that task's requests carry (`Inputs` maps task
+// names to input types)
+export type StubResponders<Inputs> = { [Task in keyof Inputs]: (input: Inputs[Task]) => unknown };
+
+// Answers without any network call, from one deterministic responder per task. Used when no API key
+// is configured and to exercise the routes locally.
+export function createStubProvider<Inputs>(responders: StubResponders<Inputs>): AiProvider {
+  return {
+    name: 'stub',
+    async generateJson(request) {
+      // The caller pairs each task with its input type, which a plain AiRequest no longer carries
+      const responder = (responders as Record<string, ((input: unknown) => unknown) | undefined>)[request.task];
+      if (!responder) throw new Error(`Stub provider has no responder for "${request.task}"`);
+      return responder(request.input);
+    }
+  };
+}
+
+export function createGeminiProvider(apiKey: string, model: string): AiProvider {
+  return {
+    name: `gemini:${model}`,
+    async generateJson(request) {
+      const { GoogleGenAI } = await import('@google/genai');
+      const ai = new GoogleGenAI({ apiKey });
+      const response = await ai.models.generateContent({
+        model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.system,
+          responseMimeType: 'application/json',
+          responseJsonSchema: request.schema
+        }
+      });
+      return JSON.parse(response.text || '');
+    }
+  };
+}
+
+// AI_PROVIDER=gemini|stub; without it, Gemini is used whenever GEMINI_API_KEY is set
+export function createAiProvider<Inputs>(env: Record<string, string | undefined>, responders: StubResponders<Inputs>): AiProvider {
+  const choice = env.AI_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'stub');
+  if (choice === 'gemini') {
+    if (!env.GEMINI_API_KEY) throw new Error('AI_PROVIDER=gemini requires GEMINI_API_KEY');
+    return createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || 'gemini-3-flash-preview');
+  }
+  if (choice === 'stub') return createStubProvider(responders);
+  throw new Error(`Unknown AI_PROVIDER "${choice}"`);
+}
@@ -0,0 +1,61 @@
+import { AllocationClass, AssetClass, Investment } from '../types';
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  renda_fixa: 'Renda Fixa',
+  acoes: 'Ações',
+  fiis: 'FIIs',
+  internacional: 'Internacional',
+  cripto: 'Cripto'
+};
+
+export const ASSET_CLASS_COLORS: Record<AssetClass, string> = {
+  renda_fixa: '#6366f1',
+  acoes: '#10b981',
+  fiis: '#f59e0b',
+  internacional: '#0ea5e9',
+  cripto: '#ec4899'
+};
+
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Best guess from the free-text type for assets created before classes existed; null when unsure
+export function guessAssetClass(investment: Pick<Investment, 'type' | 'indexer'>): AssetClass | null {
+  if (investment.indexer) return 'renda_fixa';
+  const type = normalize(investment.type || '');
+  if (/fixa|cdb|lci|lca|tesouro|debenture|cri\b|cra\b/.test(type)) return 'renda_fixa';
+  if (/fii|imobiliari/.test(type)) return 'fiis';
+  if (/cripto|bitcoin|btc|ethereum/.test(type)) return 'cripto';
+  if (/internacional|exterior|bdr|stock|etf ext|reit/.test(type)) return 'internacional';
+  if (/acao|acoes|variavel/.test(type)) return 'acoes';
+  return null;
+}
+
+// Splits a new contribution so the portfolio gets as close to the targets as possible without selling.
+// Classes below target get money in proportion to how far behind they are; if the contribution covers
+// every gap, the rest is spread by target weight.
+export function rebalance(values: Partial<Record<AssetClass, number>>, targets: Partial<Record<AssetClass, number>>, contribution: number): AllocationClass[] {
+  const classes = Object.keys(ASSET_CLASS_LABELS) as AssetClass[];
+  const total = classes.reduce((sum, c) => sum + (values[c] || 0), 0);
+  const totalAfter = total + contribution;
+  const targetSum = classes.reduce((sum, c) => sum + (targets[c] || 0), 0);
+  const gaps = classes.map(c => Math.max(((targets[c] || 0) / 100) * totalAfter - (values[c] || 0), 0));
+  const gapSum = gaps.reduce((sum, g) => sum + g, 0);
+  const leftover = Math.max(contribution - gapSum, 0);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return classes.map((assetClass, i) => {
+    const value = values[assetClass] || 0;
+    const target = targets[assetClass] || 0;
+    const suggested = contribution <= 0 || targetSum === 0 ? 0
+      : gapSum >= contribution ? contribution * (gaps[i] / gapSum)
+      : gaps[i] + leftover * (target / targetSum);
+    return {
+      asset_class: assetClass,
+      value: round(value),
+      current_percent: total > 0 ? round((value / total) * 100) : 0,
+      target_percent: target,
+      difference: round(value - (target / 100) * total),
+      suggested: round(suggested)
+    };
+  });
+}
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Charge, chargeSeries, detectAnomalies } from './anomalies';
+
+let nextId = 1;
+const charge = (overrides: Partial<Charge>): Charge => ({
+  id: nextId++,
+  description: 'Mercado Bom Preço',
+  amount: 100,
+  type: 'variable_expense',
+  category: 'Alimentação',
+  date: '2026-10-01',
+  is_recurring: false,
+  installments: 1,
+  account_id: 1,
+  ...overrides
+});
+
+const keys = (transactions: Charge[], kind: string) =>
+  detectAnomalies(transactions).filter(d => d.kind === kind).map(d => d.key);
+
+describe('detectAnomalies', () => {
+  it('pairs copies of a charge within the window with the earliest one still in it', () => {
+    const first = charge({ date: '2026-10-01', description: 'UBER *TRIP 01/10' });
+    const second = charge({ date: '2026-10-02', description: 'UBER *TRIP 02/10' });
+    const third = charge({ date: '2026-10-04', description: 'Uber trip' });
+    const late = charge({ date: '2026-10-08', description: 'Uber trip' });
+    const otherAccount = charge({ date: '2026-10-02', description: 'Uber trip', account_id: 2 });
+    const otherAmount = charge({ date: '2026-10-02', description: 'Uber trip', amount: 101 });
+    assert.deepEqual(keys([late, third, otherAmount, second, otherAccount, first], 'duplicate'), [
+      `duplicate:${first.id}:${second.id}`,
+      `duplicate:${first.id}:${third.id}`
+    ]);
+  });
+
+  it('flags an expense far above the rest of its category', () => {
+    const usual = [90, 100, 110, 95, 105].map((amount, i) => charge({ amount, date: `2026-09-0${i + 1}`, description: `Feira ${i}` }));
+    const big = charge({ amount: 400, date: '2026-09-20', description: 'Atacadão' });
+    const scheduled = charge({ amount: 900, date: '2026-09-21', description: 'Aluguel', is_recurring: true });
+    assert.deepEqual(keys([...usual, big, scheduled], 'outlier'), [`outlier:${big.id}`]);
+    assert.deepEqual(keys([...usual.slice(1), big], 'outlier'), []);
+  });
+
+  it('flags a price change in a monthly series, the same series subscriptions are detected from', () => {
+    const netflix = ['2026-07-15', '2026-08-15', '2026-09-15'].map((date, i) =>
+      charge({ date, description: `NETFLIX.COM ${i}A2B`, amount: i < 2 ? 39.9 : 44.9, category: 'Lazer' }));
+    const [series] = chargeSeries(netflix);
+    assert.equal(series.frequency, 'monthly');
+    assert.deepEqual(keys(netflix, 'price_change'), [`price_change:${netflix[2].id}`]);
+    assert.deepEqual(keys(netflix.slice(0, 2), 'price_change'), []);
+  });
+});
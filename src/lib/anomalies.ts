@@ -0,0 +1,159 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { ReviewDraft, Subscription, Transaction } from '../types';
+
+export const REVIEW_SETTINGS = {
+  duplicateDays: 3,
+  // Other expenses the category needs before a charge can stand out from them
+  outlierMinSamples: 5,
+  outlierDeviations: 3,
+  priceChangeMinPercent: 1
+};
+
+export type Charge = Pick<Transaction, 'id' | 'description' | 'amount' | 'type' | 'category' | 'date' | 'is_recurring' | 'installments'> & { account_id?: number | null };
+
+const isExpense = (t: Charge) => t.type === 'fixed_expense' || t.type === 'variable_expense';
+// Card statements add dates and codes to the same merchant ("NETFLIX.COM 12/03"), so they are ignored
+export const merchantKey = (description: string) => description.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+  .replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim();
+const brl = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+const brDate = (date: string) => format(parseISO(date), 'dd/MM');
+const daysApart = (a: Charge, b: Charge) => Math.abs(differenceInCalendarDays(parseISO(a.date), parseISO(b.date)));
+
+// Typical days between charges, how far the median gap may stray from it, and how many charges it
+// takes to call it a series
+export const SERIES_FREQUENCIES: Record<Subscription['frequency'], { days: number, tolerance: number, minCharges: number }> = {
+  weekly: { days: 7, tolerance: 2, minCharges: 3 },
+  monthly: { days: 30.44, tolerance: 6, minCharges: 3 },
+  quarterly: { days: 91.3, tolerance: 12, minCharges: 3 },
+  annual: { days: 365.25, tolerance: 20, minCharges: 2 }
+};
+export const SIMILARITY_THRESHOLD = 0.5;
+
+// Single letters are what's left of card codes ("SPOTIFY P1A2B3" -> "spotify p")
+export const merchantTokens = (description: string) => merchantKey(description).split(' ').filter(t => t.length > 1);
+export const similarity = (a: string[], b: string[]) => {
+  const union = new Set([...a, ...b]);
+  return union.size ? a.filter(t => b.includes(t)).length / union.size : 0;
+};
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export interface ChargeSeries<T extends Charge> {
+  tokens: string[];
+  account_id: number | null;
+  frequency: Subscription['frequency'];
+  // Oldest first
+  charges: T[];
+}
+
+// Charges with similar descriptions on the same account that repeat at one of SERIES_FREQUENCIES.
+// Recurring and installment transactions are left out: they are one row for the whole schedule.
+// Both the price-change review and subscription detection read their series from here.
+export function chargeSeries<T extends Charge>(transactions: T[]): ChargeSeries<T>[] {
+  const clusters: { tokens: string[], account_id: number | null, charges: T[] }[] = [];
+  const candidates = transactions
+    .filter(t => isExpense(t) && !t.is_recurring && (t.installments || 1) <= 1)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  for (const t of candidates) {
+    const words = merchantTokens(t.description);
+    if (words.length === 0) continue;
+    const account = t.account_id ?? null;
+    const cluster = clusters.find(c => c.account_id === account && similarity(c.tokens, words) >= SIMILARITY_THRESHOLD);
+    if (cluster) {
+      cluster.charges.push(t);
+    } else {
+      clusters.push({ tokens: words, account_id: account, charges: [t] });
+    }
+  }
+
+  return clusters.flatMap(cluster => {
+    const gaps = cluster.charges.slice(1).map((t, i) => daysApart(t, cluster.charges[i]));
+    if (gaps.length === 0) return [];
+    const typicalGap = median(gaps);
+    const frequency = (Object.keys(SERIES_FREQUENCIES) as Subscription['frequency'][]).find(f =>
+      Math.abs(typicalGap - SERIES_FREQUENCIES[f].days) <= SERIES_FREQUENCIES[f].tolerance
+    );
+    if (!frequency) return [];
+    const { days, tolerance, minCharges } = SERIES_FREQUENCIES[frequency];
+    if (cluster.charges.length < minCharges || gaps.some(gap => Math.abs(gap - days) > tolerance * 1.5)) return [];
+    return [{ ...cluster, frequency }];
+  });
+}
+
+export function monthlySeries<T extends Charge>(transactions: T[]): T[][] {
+  return chargeSeries(transactions).filter(s => s.frequency === 'monthly').map(s => s.charges);
+}
+
+export function detectAnomalies(transactions: Charge[]): ReviewDraft[] {
+  const drafts: ReviewDraft[] = [];
+  const byDate = [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+
+  // The later of two equal charges is the suspect; a third copy pairs with the first as well. Each
+  // window holds the earlier equal charges still within duplicateDays, oldest first.
+  const windows = new Map<string, Charge[]>();
+  for (const t of byDate) {
+    const key = `${t.amount}|${t.type}|${t.account_id ?? ''}|${merchantKey(t.description)}`;
+    const window = windows.get(key) || [];
+    while (window.length && daysApart(window[0], t) > REVIEW_SETTINGS.duplicateDays) window.shift();
+    const original = window[0];
+    window.push(t);
+    windows.set(key, window);
+    if (!original) continue;
+    drafts.push({
+      kind: 'duplicate',
+      key: `duplicate:${original.id}:${t.id}`,
+      transaction_id: t.id,
+      related_id: original.id,
+      message: `"${t.description}" de ${brl(t.amount)} aparece duas vezes (${brDate(original.date)} e ${brDate(t.date)}).`
+    });
+  }
+
+  // Each expense against the rest of its category; scheduled rows are expected to be large. The
+  // category totals are summed once and the expense being checked is taken back out of them.
+  const expenses = transactions.filter(t => isExpense(t) && !t.is_recurring && (t.installments || 1) <= 1);
+  const totals = new Map<string, { count: number; sum: number; squares: number }>();
+  for (const t of expenses) {
+    const total = totals.get(t.category) || { count: 0, sum: 0, squares: 0 };
+    totals.set(t.category, { count: total.count + 1, sum: total.sum + t.amount, squares: total.squares + t.amount ** 2 });
+  }
+  for (const t of expenses) {
+    const total = totals.get(t.category)!;
+    const count = total.count - 1;
+    if (count < REVIEW_SETTINGS.outlierMinSamples) continue;
+    const mean = (total.sum - t.amount) / count;
+    const deviation = Math.sqrt(Math.max(0, (total.squares - t.amount ** 2) / count - mean ** 2));
+    if (t.amount > mean + REVIEW_SETTINGS.outlierDeviations * deviation && t.amount > mean * 2) {
+      drafts.push({
+        kind: 'outlier',
+        key: `outlier:${t.id}`,
+        transaction_id: t.id,
+        related_id: null,
+        message: `${brl(t.amount)} em ${t.category} é ${(t.amount / mean).toFixed(1).replace('.', ',')}× o gasto médio da categoria (${brl(mean)}).`
+      });
+    }
+  }
+
+  for (const series of monthlySeries(transactions)) {
+    const [previous, last] = series.slice(-2);
+    const change = ((last.amount - previous.amount) / previous.amount) * 100;
+    if (Math.abs(change) < REVIEW_SETTINGS.priceChangeMinPercent) continue;
+    drafts.push({
+      kind: 'price_change',
+      key: `price_change:${last.id}`,
+      transaction_id: last.id,
+      related_id: previous.id,
+      message: `${last.description} passou de ${brl(previous.amount)} para ${brl(last.amount)} (${change > 0 ? '+' : ''}${change.toFixed(1).replace('.', ',')}%).`
+    });
+  }
+
+  return drafts;
+}
+
+export const REVIEW_KIND_LABELS: Record<ReviewDraft['kind'], string> = {
+  duplicate: 'Possível duplicata',
+  outlier: 'Valor fora do padrão',
+  price_change: 'Preço alterado'
+};
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AskContext, planQuestion, runAskQuery, sanitizeQuery } from './ask';
+import { Occurrence } from '../types';
+
+const context: AskContext = {
+  today: '2026-10-19',
+  categories: [{ id: 1, name: 'Alimentação', type: 'expense', parent_id: null }],
+  accounts: []
+};
+
+const query = (from: string, to: string) => ({
+  function: 'monthly_average', kind: 'expense', category: null, search: null, account_id: null, from, to
+});
+
+const occurrence = (date: string, amount: number): Occurrence => ({
+  transaction_id: 1, description: 'Mercado', amount, type: 'variable_expense', category: 'Alimentação',
+  account_id: null, date, installment_number: 1, installments: 1
+});
+
+describe('sanitizeQuery', () => {
+  it('ends the period today at the latest', () => {
+    const sanitized = sanitizeQuery(planQuestion('quanto gastei este ano?', context, null), context);
+    assert.equal(sanitized.from, '2026-01-01');
+    assert.equal(sanitized.to, '2026-10-19');
+    assert.equal(sanitizeQuery(query('2026-09-01', '2026-09-30'), context).to, '2026-09-30');
+  });
+
+  it('rejects periods that start in the future and shortens ones longer than ten years', () => {
+    assert.throws(() => sanitizeQuery(query('2026-11-01', '2026-11-30'), context));
+    assert.equal(sanitizeQuery(query('1900-01-01', '2026-10-19'), context).from, '2016-10-20');
+  });
+});
+
+describe('runAskQuery', () => {
+  it('averages over the months up to today only', () => {
+    const sanitized = sanitizeQuery(query('2026-09-01', '2026-12-31'), context);
+    const result = runAskQuery(sanitized, [occurrence('2026-09-10', 300), occurrence('2026-10-05', 100)], []);
+    assert.equal(result.value, 200);
+  });
+});
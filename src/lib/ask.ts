@@ -0,0 +1,234 @@
+import { addDays, differenceInCalendarMonths, endOfMonth, endOfQuarter, endOfWeek, endOfYear, format, parseISO, startOfMonth, startOfQuarter, startOfWeek, startOfYear, subMonths, subQuarters, subWeeks, subYears } from 'date-fns';
+import { Account, AskQuery, AskResult, Category, Occurrence } from '../types';
+import { JsonSchema } from './ai';
+import { categoryFamily } from './categories';
+
+export interface AskContext {
+  today: string;
+  categories: Pick<Category, 'id' | 'name' | 'type' | 'parent_id'>[];
+  accounts: Pick<Account, 'id' | 'name' | 'type'>[];
+}
+
+const ASK_FUNCTIONS: AskQuery['function'][] = ['sum', 'count', 'average', 'monthly_average', 'max', 'by_category', 'by_month'];
+const MAX_TRANSACTIONS = 50;
+// Longest period a question may cover; older dates are dropped from the start
+const MAX_YEARS = 10;
+const MONTH_NAMES = ['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+// Words after "com"/"no"/"de"/"usei" that are part of the period or the question, not something to search for
+const NOT_SEARCH = ['o', 'a', 'os', 'as', 'ultimo', 'ultima', 'ultimos', 'ultimas', 'este', 'esta', 'esse', 'essa', 'neste', 'nesta', 'mes', 'ano',
+  'semana', 'trimestre', 'total', 'media', 'hoje', 'ontem', 'cada', 'categoria', 'geral', 'despesas', 'gastos', 'receitas', 'vezes',
+  'lancamentos', 'compras', ...MONTH_NAMES];
+
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+const toDateStr = (d: Date) => format(d, 'yyyy-MM-dd');
+
+export const ASK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    function: { type: 'string', enum: ASK_FUNCTIONS },
+    kind: { type: 'string', enum: ['expense', 'income'] },
+    category: { type: ['string', 'null'] },
+    search: { type: ['string', 'null'] },
+    account_id: { type: ['integer', 'null'] },
+    from: { type: 'string', description: 'yyyy-MM-dd' },
+    to: { type: 'string', description: 'yyyy-MM-dd' }
+  },
+  required: ['function', 'kind', 'category', 'search', 'account_id', 'from', 'to']
+};
+
+export const ASK_SYSTEM = 'Você traduz perguntas sobre finanças pessoais, em português do Brasil, para uma consulta estruturada. '
+  + 'Nunca responda a pergunta: apenas escolha a função de agregação, o tipo, os filtros e o período. Use somente categorias e '
+  + 'contas da lista; "search" é um trecho da descrição dos lançamentos (ex.: "uber") quando a pergunta não cita categoria.';
+
+export function askPrompt(question: string, context: AskContext, previous: AskQuery | null): string {
+  return `Hoje é ${context.today}. Pergunta: "${question}"\n`
+    + 'Funções: sum = total, count = número de lançamentos, average = valor médio por lançamento, monthly_average = média '
+    + 'por mês, max = maior lançamento, by_category = total por categoria, by_month = total por mês.\n'
+    + 'Trimestres são de calendário: "último trimestre" é o trimestre anterior ao atual. Sem período na pergunta, use o mês atual.\n'
+    + (previous ? `Consulta anterior da conversa (use-a para completar perguntas de acompanhamento como "e no mês passado?"): ${JSON.stringify(previous)}\n` : '')
+    + `Categorias: ${JSON.stringify(context.categories.map(c => ({ name: c.name, type: c.type })))}\n`
+    + `Contas: ${JSON.stringify(context.accounts)}`;
+}
+
+// Period mentioned in the question, if any. "Último trimestre" is the previous calendar quarter and
+// "últimos 3 meses" the current month and the two before it.
+function questionPeriod(q: string, today: Date): { from: string, to: string } | null {
+  const range = (from: Date, to: Date) => ({ from: toDateStr(from), to: toDateStr(to) });
+  const has = (pattern: RegExp) => pattern.test(q);
+
+  const lastN = q.match(/ultim[oa]s (\d+) (dias|meses)/);
+  if (lastN) {
+    const n = Number(lastN[1]);
+    return lastN[2] === 'dias' ? range(addDays(today, -(n - 1)), today) : range(startOfMonth(subMonths(today, n - 1)), endOfMonth(today));
+  }
+  if (has(/\bhoje\b/)) return range(today, today);
+  if (has(/\bontem\b/)) return range(addDays(today, -1), addDays(today, -1));
+  if (has(/semana passada|ultima semana/)) return range(startOfWeek(subWeeks(today, 1), { weekStartsOn: 1 }), endOfWeek(subWeeks(today, 1), { weekStartsOn: 1 }));
+  if (has(/(est|ess|nest|ness)a semana/)) return range(startOfWeek(today, { weekStartsOn: 1 }), endOfWeek(today, { weekStartsOn: 1 }));
+  if (has(/trimestre passado|ultimo trimestre/)) return range(startOfQuarter(subQuarters(today, 1)), endOfQuarter(subQuarters(today, 1)));
+  if (has(/(est|ess|nest|ness)e trimestre/)) return range(startOfQuarter(today), endOfQuarter(today));
+  if (has(/ano passado|ultimo ano/)) return range(startOfYear(subYears(today, 1)), endOfYear(subYears(today, 1)));
+  if (has(/(est|ess|nest|ness)e ano/)) return range(startOfYear(today), endOfYear(today));
+  if (has(/mes passado|ultimo mes/)) return range(startOfMonth(subMonths(today, 1)), endOfMonth(subMonths(today, 1)));
+  if (has(/(est|ess|nest|ness)e mes/)) return range(startOfMonth(today), endOfMonth(today));
+
+  const monthMatch = q.match(new RegExp(`\\b(${MONTH_NAMES.join('|')})\\b(?: de (\\d{4}))?`));
+  if (monthMatch) {
+    const month = MONTH_NAMES.indexOf(monthMatch[1]);
+    // Without a year, the last such month up to now: "março" asked in October is this year's
+    const year = monthMatch[2] ? Number(monthMatch[2]) : month <= today.getMonth() ? today.getFullYear() : today.getFullYear() - 1;
+    const start = new Date(year, month, 1);
+    return range(start, endOfMonth(start));
+  }
+  const yearMatch = q.match(/\b(?:em|de) (\d{4})\b/);
+  if (yearMatch) return range(new Date(Number(yearMatch[1]), 0, 1), new Date(Number(yearMatch[1]), 11, 31));
+  return null;
+}
+
+// Deterministic translation used by the stub provider. A question starting with "e" ("e no mês
+// passado?") keeps whatever it doesn't mention from the previous query.
+export function planQuestion(question: string, context: AskContext, previous: AskQuery | null): AskQuery {
+  const q = ` ${normalize(question).replace(/[?!.,;]/g, ' ').replace(/\s+/g, ' ')} `;
+  const today = parseISO(context.today);
+  const followUp = previous !== null && /^ e /.test(q);
+  const has = (phrase: string) => q.includes(` ${normalize(phrase)} `);
+
+  const fn: AskQuery['function'] | null =
+    /media (mensal|por mes)|por mes em media/.test(q) ? 'monthly_average'
+    : /\bmedia\b/.test(q) ? 'average'
+    : /por categoria/.test(q) ? 'by_category'
+    : /por mes|mes a mes|cada mes/.test(q) ? 'by_month'
+    : /\bmaior\b|mais car[oa]/.test(q) ? 'max'
+    : /\bquant[oa]s\b|numero de/.test(q) ? 'count'
+    : /\bquanto\b|\btotal\b/.test(q) ? 'sum'
+    : null;
+
+  const category = [...context.categories].sort((a, b) => b.name.length - a.name.length).find(c => has(c.name)) || null;
+  const account = [...context.accounts].sort((a, b) => b.name.length - a.name.length).find(a => has(a.name)) || null;
+  const mentionsIncome = /\b(recebi|ganhei|receitas?|renda|entradas?|salario)\b/.test(q);
+  const mentionsExpense = /\b(gastei|gastos?|despesas?|paguei|compras?)\b/.test(q);
+  const kind: AskQuery['kind'] | null = category ? (category.type === 'income' ? 'income' : 'expense')
+    : mentionsIncome ? 'income' : mentionsExpense ? 'expense' : null;
+
+  let search: string | null = null;
+  if (!category) {
+    const match = [...q.matchAll(/ (?:com|no|na|em|de|usei|pedi) ([a-z0-9]+) /g)].map(m => m[1])
+      .find(word => !NOT_SEARCH.includes(word) && !/^\d+$/.test(word) && !(account && normalize(account.name).split(' ').includes(word)));
+    search = match || null;
+  }
+
+  const period = questionPeriod(q, today);
+  const base: AskQuery = followUp && previous ? previous : {
+    function: 'sum', kind: 'expense', category: null, search: null, account_id: null,
+    from: toDateStr(startOfMonth(today)), to: toDateStr(endOfMonth(today))
+  };
+  const refiltered = Boolean(category || search || account);
+
+  return {
+    function: fn || base.function,
+    kind: kind || base.kind,
+    category: category ? category.name : refiltered ? null : base.category,
+    search: search || (refiltered ? null : base.search),
+    account_id: account ? account.id : refiltered ? null : base.account_id,
+    from: period?.from || base.from,
+    to: period?.to || base.to
+  };
+}
+
+// Model output is untrusted: anything outside the whitelist or the catalog is rejected or dropped.
+// Questions are about money already spent or received, so the period ends today at the latest
+// ("this month" averages over the days gone by, not the whole month) and spans at most MAX_YEARS.
+export function sanitizeQuery(raw: unknown, context: AskContext): AskQuery {
+  const query = (raw || {}) as Partial<Record<keyof AskQuery, unknown>>;
+  const isDate = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(parseISO(value).getTime());
+  if (!ASK_FUNCTIONS.includes(query.function as AskQuery['function'])) throw new Error('Função de consulta inválida');
+  if (!isDate(query.from) || !isDate(query.to) || query.from > query.to) throw new Error('Período de consulta inválido');
+  if (query.from > context.today) throw new Error('Período de consulta no futuro');
+  const to = query.to < context.today ? query.to : context.today;
+  const earliest = toDateStr(addDays(subYears(parseISO(to), MAX_YEARS), 1));
+
+  return {
+    function: query.function as AskQuery['function'],
+    kind: query.kind === 'income' ? 'income' : 'expense',
+    category: context.categories.find(c => c.name === query.category)?.name || null,
+    search: typeof query.search === 'string' && query.search.trim() ? query.search.trim().slice(0, 60) : null,
+    account_id: context.accounts.find(a => a.id === query.account_id)?.id ?? null,
+    from: query.from > earliest ? query.from : earliest,
+    to
+  };
+}
+
+// `occurrences` must already be limited to [query.from, query.to], and the query sanitized so that
+// monthly_average divides by the months up to today only
+export function runAskQuery(query: AskQuery, occurrences: Occurrence[], categories: Category[]): AskResult {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const family = query.category ? categoryFamily(categories, query.category) : null;
+  const search = query.search ? normalize(query.search) : null;
+  const matched = occurrences.filter(o =>
+    (query.kind === 'income' ? o.type === 'income' || o.type === 'variable_income' : o.type === 'fixed_expense' || o.type === 'variable_expense')
+    && (!family || family.includes(o.category))
+    && (!search || normalize(o.description).includes(search))
+    && (query.account_id === null || o.account_id === query.account_id)
+  );
+  const total = matched.reduce((sum, o) => sum + o.amount, 0);
+
+  const groupBy = (key: (o: Occurrence) => string) => {
+    const groups = new Map<string, number>();
+    matched.forEach(o => groups.set(key(o), (groups.get(key(o)) || 0) + o.amount));
+    return [...groups.entries()].map(([label, value]) => ({ label, value: round(value) }));
+  };
+  const rows = query.function === 'by_category' ? groupBy(o => o.category).sort((a, b) => b.value - a.value)
+    : query.function === 'by_month' ? groupBy(o => o.date.slice(0, 7)).sort((a, b) => a.label.localeCompare(b.label))
+    : [];
+  const months = differenceInCalendarMonths(parseISO(query.to), parseISO(query.from)) + 1;
+
+  const value = query.function === 'count' ? matched.length
+    : query.function === 'average' ? (matched.length ? total / matched.length : 0)
+    : query.function === 'monthly_average' ? total / months
+    : query.function === 'max' ? Math.max(0, ...matched.map(o => o.amount))
+    : total;
+
+  const sorted = [...matched].sort(query.function === 'max'
+    ? (a, b) => b.amount - a.amount
+    : (a, b) => b.date.localeCompare(a.date) || b.amount - a.amount);
+  return { value: round(value), rows, transactions: sorted.slice(0, MAX_TRANSACTIONS), total_transactions: matched.length };
+}
+
+const brl = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+const brDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+// The answer sentence is built from the numbers, never by the model, so it can't state anything the data doesn't
+export function describeAnswer(query: AskQuery, result: AskResult, accounts: Pick<Account, 'id' | 'name'>[]): string {
+  const account = accounts.find(a => a.id === query.account_id);
+  const scope = [
+    query.category && `em ${query.category}`,
+    query.search && `com "${query.search}"`,
+    account && `na conta ${account.name}`,
+    query.from === query.to ? `em ${brDate(query.from)}` : `de ${brDate(query.from)} a ${brDate(query.to)}`
+  ].filter(Boolean).join(' ');
+  const noun = query.kind === 'income' ? 'receita' : 'despesa';
+  const count = `${result.total_transactions} ${result.total_transactions === 1 ? 'lançamento' : 'lançamentos'}`;
+
+  if (result.total_transactions === 0) return `Não encontrei nenhuma ${noun} ${scope}.`;
+  switch (query.function) {
+    case 'count':
+      return `Foram ${result.value} ${noun}s ${scope}.`;
+    case 'average':
+      return `O valor médio por ${noun} ${scope} foi ${brl(result.value)} (${count}).`;
+    case 'monthly_average':
+      return `A média mensal de ${noun}s ${scope} foi ${brl(result.value)} (${count}).`;
+    case 'max': {
+      const top = result.transactions[0];
+      return `A maior ${noun} ${scope} foi "${top.description}", de ${brl(top.amount)} em ${brDate(top.date)}.`;
+    }
+    case 'by_category':
+    case 'by_month': {
+      const total = result.rows.reduce((sum, r) => sum + r.value, 0);
+      const top = [...result.rows].sort((a, b) => b.value - a.value)[0];
+      const label = query.function === 'by_month' ? format(parseISO(`${top.label}-01`), 'MM/yyyy') : top.label;
+      return `${query.kind === 'income' ? 'Receitas' : 'Despesas'} ${scope}: ${brl(total)} no total; o maior valor foi ${label} (${brl(top.value)}).`;
+    }
+    default:
+      return `Você ${query.kind === 'income' ? 'recebeu' : 'gastou'} ${brl(result.value)} ${scope} (${count}).`;
+  }
+}
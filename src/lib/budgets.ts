@@ -0,0 +1,101 @@
+import { addDays, endOfMonth, endOfQuarter, endOfWeek, endOfYear, format, parseISO, startOfMonth, startOfQuarter, startOfWeek, startOfYear } from 'date-fns';
+import { Budget, BudgetStatus, BudgetVariance, Occurrence } from '../types';
+
+const toDateStr = (d: Date) => format(d, 'yyyy-MM-dd');
+
+// Weeks start on Monday, as on Brazilian bank statements
+export function budgetPeriodRange(period: Budget['period'], date: string): { from: string, to: string } {
+  const d = parseISO(date);
+  switch (period) {
+    case 'weekly':
+      return { from: toDateStr(startOfWeek(d, { weekStartsOn: 1 })), to: toDateStr(endOfWeek(d, { weekStartsOn: 1 })) };
+    case 'quarterly':
+      return { from: toDateStr(startOfQuarter(d)), to: toDateStr(endOfQuarter(d)) };
+    case 'annual':
+      return { from: toDateStr(startOfYear(d)), to: toDateStr(endOfYear(d)) };
+    default:
+      return { from: toDateStr(startOfMonth(d)), to: toDateStr(endOfMonth(d)) };
+  }
+}
+
+// The day a month is looked at from: today within the current month, otherwise the month's last day
+// (or first, for future months). Weekly budgets show the week containing that day.
+export function referenceDate(month: string, today: string) {
+  const from = `${month}-01`;
+  const to = toDateStr(endOfMonth(parseISO(from)));
+  return today < from ? from : today > to ? to : today;
+}
+
+// `expenses` must already be limited to the budget's category and its subcategories. With rollover,
+// whatever was left (or overspent) in each period since `start_date` is carried into the next one.
+export function budgetStatus(budget: Budget, expenses: Pick<Occurrence, 'date' | 'amount'>[], date: string): BudgetStatus {
+  const { from, to } = budgetPeriodRange(budget.period, date);
+  const spentBetween = (start: string, end: string) => expenses
+    .filter(e => e.date >= start && e.date <= end)
+    .reduce((sum, e) => sum + e.amount, 0);
+
+  let carried = 0;
+  if (budget.rollover && budget.start_date) {
+    let periodStart = budgetPeriodRange(budget.period, budget.start_date).from;
+    while (periodStart < from) {
+      const periodEnd = budgetPeriodRange(budget.period, periodStart).to;
+      carried += budget.limit_amount - spentBetween(periodStart, periodEnd);
+      // Periods are contiguous, so the next one starts the day after this one ends
+      periodStart = toDateStr(addDays(parseISO(periodEnd), 1));
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const available = budget.limit_amount + carried;
+  const spent = spentBetween(from, to);
+  return {
+    budget_id: budget.id,
+    category: budget.category,
+    period: budget.period,
+    from,
+    to,
+    limit_amount: budget.limit_amount,
+    carried: round(carried),
+    available: round(available),
+    spent: round(spent),
+    remaining: round(available - spent),
+    percent: available > 0 ? round((spent / available) * 100) : spent > 0 ? 100 : 0
+  };
+}
+
+// Limits of weekly, quarterly and annual budgets spread evenly over the months
+const MONTHLY_FACTOR: Record<Budget['period'], number> = {
+  weekly: 52 / 12,
+  monthly: 1,
+  quarterly: 1 / 3,
+  annual: 1 / 12
+};
+
+// Limit vs. actual spending for each month (yyyy-MM). Average overshoot only counts the months over
+// the limit, so a single bad month isn't diluted by the good ones.
+export function budgetVariance(budget: Budget, expenses: Pick<Occurrence, 'date' | 'amount'>[], months: string[]): BudgetVariance {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const limit = round(budget.limit_amount * MONTHLY_FACTOR[budget.period]);
+  const rows = months.map(month => {
+    const spent = round(expenses.filter(e => e.date.startsWith(month)).reduce((sum, e) => sum + e.amount, 0));
+    return { month, limit, spent, variance: round(spent - limit) };
+  });
+  const over = rows.filter(r => r.variance > 0);
+
+  return {
+    budget_id: budget.id,
+    category: budget.category,
+    monthly_limit: limit,
+    months: rows,
+    average_spent: rows.length ? round(rows.reduce((sum, r) => sum + r.spent, 0) / rows.length) : 0,
+    average_overshoot: over.length ? round(over.reduce((sum, r) => sum + r.variance, 0) / over.length) : 0,
+    months_over: over.length
+  };
+}
+
+export const BUDGET_PERIOD_LABELS: Record<Budget['period'], string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  quarterly: 'Trimestral',
+  annual: 'Anual'
+};
@@ -0,0 +1,60 @@
+import { Category } from '../types';
+
+// Depth-first order for pickers and lists: each parent followed by its children, siblings by name.
+export function categoryTree(categories: Category[]): { category: Category, depth: number }[] {
+  const byParent = new Map<number | null, Category[]>();
+  for (const c of categories) {
+    const parent = c.parent_id !== null && categories.some(p => p.id === c.parent_id) ? c.parent_id : null;
+    byParent.set(parent, [...(byParent.get(parent) || []), c]);
+  }
+
+  const walk = (parent: number | null, depth: number): { category: Category, depth: number }[] =>
+    (byParent.get(parent) || [])
+      .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'))
+      .flatMap(category => [{ category, depth }, ...walk(category.id, depth + 1)]);
+
+  return walk(null, 0);
+}
+
+// The category and all of its descendants, by name. Budgets and filters on a parent category
+// ("Alimentação") also cover its subcategories ("Mercado", "Restaurantes").
+export function categoryFamily(categories: Category[], name: string): string[] {
+  const root = categories.find(c => c.name === name);
+  if (!root) return [name];
+
+  const names = [root.name];
+  const pending = [root.id];
+  while (pending.length > 0) {
+    const id = pending.pop();
+    for (const child of categories.filter(c => c.parent_id === id)) {
+      names.push(child.name);
+      pending.push(child.id);
+    }
+  }
+  return names;
+}
+
+// Top-level ancestor of a category, used to group charts by main category.
+export function rootCategory(categories: Category[], name: string): Category | undefined {
+  let category = categories.find(c => c.name === name);
+  const seen = new Set<number>();
+  while (category && category.parent_id !== null && !seen.has(category.id)) {
+    seen.add(category.id);
+    const parent = categories.find(c => c.id === category!.parent_id);
+    if (!parent) break;
+    category = parent;
+  }
+  return category;
+}
+
+// True when `id` is `ancestorId` itself or sits somewhere below it; guards against parent cycles.
+export function isDescendant(categories: Category[], id: number, ancestorId: number): boolean {
+  const seen = new Set<number>();
+  let current: number | null = id;
+  while (current !== null && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    current = categories.find(c => c.id === current)?.parent_id ?? null;
+  }
+  return false;
+}
@@ -0,0 +1,148 @@
+import { format, isValid, parse } from 'date-fns';
+import { CsvColumnMapping, CsvImportOptions, Transaction } from '../types';
+
+export type CsvDelimiter = CsvImportOptions['delimiter'];
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+export const CSV_DATE_FORMATS = ['dd/MM/yyyy', 'yyyy-MM-dd', 'MM/dd/yyyy', 'dd-MM-yyyy', 'dd/MM/yy'] as const;
+
+const TRANSACTION_TYPES: Transaction['type'][] = ['income', 'variable_income', 'fixed_expense', 'variable_expense'];
+
+// RFC-4180 parser: quoted fields may contain delimiters, line breaks and "" escaped quotes.
+// Both \n and \r\n line endings are accepted; fully blank lines are dropped.
+export function parseCSV(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// Brazilian exports use ';' because ',' is the decimal separator, and spreadsheets copy out with tabs;
+// pick whichever splits the header more, ',' on a tie.
+export function detectDelimiter(text: string): CsvDelimiter {
+  const header = text.replace(/^\uFEFF/, '').split(/\r?\n/)[0] || '';
+  const count = (d: CsvDelimiter) => parseCSV(header, d)[0]?.length || 0;
+  return CSV_DELIMITERS.reduce((best, d) => count(d) > count(best) ? d : best);
+}
+
+// "1.234,56", "-R$ 42,50" and "(42.50)" style amounts; returns NaN when unparseable.
+export function parseAmount(value: string, decimalSeparator: ',' | '.'): number {
+  let cleaned = value.trim().replace(/R\$|\s/g, '');
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith('-') || cleaned.endsWith('-');
+  cleaned = cleaned.replace(/[()+-]/g, '');
+  if (!/^[\d.,]+$/.test(cleaned)) return NaN;
+
+  const thousands = decimalSeparator === ',' ? '.' : ',';
+  cleaned = cleaned.split(thousands).join('').replace(decimalSeparator, '.');
+  const amount = parseFloat(cleaned);
+  return negative ? -amount : amount;
+}
+
+// Returns the date as yyyy-MM-dd, or null when it does not match the expected format.
+export function parseDate(value: string, dateFormat: string): string | null {
+  const parsed = parse(value.trim(), dateFormat, new Date());
+  return isValid(parsed) ? format(parsed, 'yyyy-MM-dd') : null;
+}
+
+// Guesses which header holds each field from common pt-BR/English column names.
+export function guessMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(h => h.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim());
+  const find = (...names: string[]) => {
+    const index = normalized.findIndex(h => names.some(n => h.includes(n)));
+    return index >= 0 ? index : null;
+  };
+
+  return {
+    description: find('descri', 'historico', 'memo', 'lancamento'),
+    amount: find('valor', 'amount', 'quantia'),
+    date: find('data', 'date'),
+    type: find('tipo', 'type'),
+    category: find('categoria', 'category')
+  };
+}
+
+export interface CsvRowDraft {
+  row: number;
+  transaction?: Pick<Transaction, 'description' | 'amount' | 'type' | 'category' | 'date'>;
+  error?: string;
+}
+
+// Turns raw CSV cells into transaction drafts. `row` is the 1-based record number, header included.
+// Without a mapped type column, negative amounts become variable expenses and the rest take
+// `default_type`; the stored amount is always positive.
+export function mapCsvRows(rows: string[][], options: CsvImportOptions): CsvRowDraft[] {
+  const { mapping } = options;
+  const dataRows = options.has_header ? rows.slice(1) : rows;
+  const offset = options.has_header ? 2 : 1;
+
+  return dataRows.map((cells, index) => {
+    const row = index + offset;
+    const cell = (column: number | null) => column === null ? '' : (cells[column] || '').trim();
+
+    const description = cell(mapping.description);
+    if (!description) return { row, error: 'Descrição vazia' };
+
+    const amount = parseAmount(cell(mapping.amount), options.decimal_separator);
+    if (isNaN(amount)) return { row, error: `Valor inválido: "${cell(mapping.amount)}"` };
+
+    const date = parseDate(cell(mapping.date), options.date_format);
+    if (!date) return { row, error: `Data inválida: "${cell(mapping.date)}"` };
+
+    let type: Transaction['type'] = amount < 0 ? 'variable_expense' : options.default_type;
+    if (mapping.type !== null) {
+      const value = cell(mapping.type) as Transaction['type'];
+      if (!TRANSACTION_TYPES.includes(value)) return { row, error: `Tipo inválido: "${value}"` };
+      type = value;
+    }
+
+    return {
+      row,
+      transaction: {
+        description,
+        amount: Math.abs(amount),
+        type,
+        category: cell(mapping.category) || options.default_category,
+        date
+      }
+    };
+  });
+}
+
+export function duplicateKey(t: Pick<Transaction, 'description' | 'amount' | 'date'>) {
+  return `${t.date}|${Math.round(t.amount * 100)}|${t.description.trim().toLowerCase()}`;
+}
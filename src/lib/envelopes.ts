@@ -0,0 +1,58 @@
+import { Category, EnvelopeMove, EnvelopeSummary, Occurrence } from '../types';
+
+// Nearest envelope for a category: its own, else the closest ancestor's. An expense in "Mercado" draws
+// from the "Alimentação" envelope unless "Mercado" has one of its own.
+export function envelopeFor(categories: Category[], envelopes: string[], name: string): string | null {
+  let category = categories.find(c => c.name === name);
+  if (!category) return envelopes.includes(name) ? name : null;
+  const seen = new Set<number>();
+  while (category && !seen.has(category.id)) {
+    if (envelopes.includes(category.name)) return category.name;
+    seen.add(category.id);
+    category = categories.find(c => c.id === category!.parent_id);
+  }
+  return null;
+}
+
+// Envelope balances as of the end of `month`. Balances and unassigned money carry over from month to
+// month, starting at the first month money was assigned; income and expenses before that are ignored.
+// A move with a null side goes to or comes from the unassigned pool ("a distribuir").
+export function envelopeSummary(
+  month: string,
+  moves: Pick<EnvelopeMove, 'month' | 'from_category' | 'to_category' | 'amount'>[],
+  income: Pick<Occurrence, 'date' | 'amount'>[],
+  expenses: Pick<Occurrence, 'date' | 'amount' | 'category'>[],
+  categories: Category[]
+): Omit<EnvelopeSummary, 'moves'> {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const upTo = moves.filter(m => m.month <= month);
+  const startMonth = upTo.reduce((first, m) => m.month < first ? m.month : first, month);
+  const inRange = <T extends { date: string }>(items: T[]) => items.filter(i => i.date >= `${startMonth}-01` && i.date.slice(0, 7) <= month);
+  const sum = (items: { amount: number }[]) => items.reduce((total, i) => total + i.amount, 0);
+
+  const names = [...new Set(upTo.flatMap(m => [m.from_category, m.to_category]).filter((c): c is string => c !== null))]
+    .sort((a, b) => a.localeCompare(b, 'pt-BR'));
+  const charged = inRange(expenses).map(e => ({ ...e, envelope: envelopeFor(categories, names, e.category) }));
+  const net = (name: string | null, current: boolean) => {
+    const selected = upTo.filter(m => (m.month === month) === current);
+    return sum(selected.filter(m => m.to_category === name)) - sum(selected.filter(m => m.from_category === name));
+  };
+
+  const envelopes = names.map(category => {
+    const spentBefore = sum(charged.filter(e => e.envelope === category && !e.date.startsWith(month)));
+    const spent = sum(charged.filter(e => e.envelope === category && e.date.startsWith(month)));
+    const carried = net(category, false) - spentBefore;
+    const assigned = net(category, true);
+    return { category, carried: round(carried), assigned: round(assigned), spent: round(spent), balance: round(carried + assigned - spent) };
+  });
+
+  const received = inRange(income);
+  return {
+    month,
+    start_month: startMonth,
+    income: round(sum(received.filter(i => i.date.startsWith(month)))),
+    unassigned: round(sum(received) + net(null, false) + net(null, true)),
+    envelopes,
+    unenveloped_spent: round(sum(charged.filter(e => e.envelope === null && e.date.startsWith(month))))
+  };
+}
@@ -0,0 +1,179 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { FixedIncomeValue, IndexRate, InvestmentOperation } from '../types';
+import { detectDelimiter, parseAmount, parseCSV, parseDate } from './csv';
+
+export const INDEXER_LABELS: Record<IndexRate['indexer'] | 'prefixado', string> = {
+  cdi: 'CDI',
+  selic: 'SELIC',
+  ipca: 'IPCA+',
+  prefixado: 'Prefixado'
+};
+
+const toDateStr = (d: Date) => format(d, 'yyyy-MM-dd');
+
+// Meeus/Jones/Butcher algorithm for Easter Sunday
+function easter(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+// National bank holidays (ANBIMA calendar): fixed dates plus Carnaval, Sexta-feira Santa and Corpus Christi
+export function nationalHolidays(year: number): Set<string> {
+  if (!holidayCache.has(year)) {
+    const fixed = ['01-01', '04-21', '05-01', '09-07', '10-12', '11-02', '11-15', '12-25'].map(md => `${year}-${md}`);
+    // Dia da Consciência Negra became a national holiday in 2024
+    if (year >= 2024) fixed.push(`${year}-11-20`);
+    const e = easter(year);
+    const movable = [-48, -47, -2, 60].map(offset => toDateStr(addDays(e, offset)));
+    holidayCache.set(year, new Set([...fixed, ...movable]));
+  }
+  return holidayCache.get(year)!;
+}
+
+export function isBusinessDay(date: Date): boolean {
+  const weekday = date.getDay();
+  return weekday !== 0 && weekday !== 6 && !nationalHolidays(date.getFullYear()).has(toDateStr(date));
+}
+
+// Business days in (from, to]: money invested on `from` earns from the next business day on
+export function businessDaysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let d = addDays(parseISO(from), 1); toDateStr(d) <= to; d = addDays(d, 1)) {
+    if (isBusinessDay(d)) days.push(toDateStr(d));
+  }
+  return days;
+}
+
+export interface FixedIncomeTerms {
+  indexer: IndexRate['indexer'] | 'prefixado';
+  // % of CDI/SELIC (e.g. 110), the real spread for IPCA+ or the annual rate for prefixado, all in %
+  indexer_rate: number;
+  tax_exempt: boolean | number;
+}
+
+// Growth factor of one real invested on `from` and held until `to`, compounded per business day
+// (252 per year). CDI and SELIC series hold annual rates; the IPCA series holds monthly inflation,
+// spread evenly over the business days of a year.
+export function accrualFactor(terms: FixedIncomeTerms, rates: IndexRate[], from: string, to: string): { factor: number, missing_rates: boolean } {
+  const days = businessDaysBetween(from, to);
+  const rate = terms.indexer_rate / 100;
+  if (terms.indexer === 'prefixado') {
+    return { factor: Math.pow(1 + rate, days.length / 252), missing_rates: false };
+  }
+
+  const series = rates.filter(r => r.indexer === terms.indexer).sort((a, b) => a.date.localeCompare(b.date));
+  if (series.length === 0) {
+    // Without the index only the IPCA spread can be accrued
+    return { factor: terms.indexer === 'ipca' ? Math.pow(1 + rate, days.length / 252) : 1, missing_rates: true };
+  }
+
+  // The rate in force on a day is the latest entry on or before it, else the earliest one. Past the end
+  // of the series the last known rate is assumed to hold, which is what projections to maturity rely on.
+  let factor = 1;
+  let current = 0;
+  for (const day of days) {
+    while (current + 1 < series.length && series[current + 1].date <= day) current++;
+    const index = series[current].rate / 100;
+    if (terms.indexer === 'ipca') {
+      factor *= Math.pow(1 + index, 12 / 252) * Math.pow(1 + rate, 1 / 252);
+    } else {
+      factor *= 1 + (Math.pow(1 + index, 1 / 252) - 1) * rate;
+    }
+  }
+  return { factor, missing_rates: false };
+}
+
+// Regressive income tax on fixed income gains, by calendar days held
+export function incomeTaxRate(daysHeld: number): number {
+  if (daysHeld <= 180) return 0.225;
+  if (daysHeld <= 360) return 0.2;
+  if (daysHeld <= 720) return 0.175;
+  return 0.15;
+}
+
+// IOF on gains for redemptions in the first 29 days (96% on day 1 down to 3% on day 29)
+const IOF_TABLE = [96, 93, 90, 86, 83, 80, 76, 73, 70, 66, 63, 60, 56, 53, 50, 46, 43, 40, 36, 33, 30, 26, 23, 20, 16, 13, 10, 6, 3];
+export function iofRate(daysHeld: number): number {
+  return daysHeld >= 1 && daysHeld < 30 ? IOF_TABLE[daysHeld - 1] / 100 : 0;
+}
+
+// Gross and net value on `date` of the lots still held. Each purchase is its own lot with its own holding
+// period for IR and IOF; sales redeem units from the oldest lots first. IOF is charged on the gain first
+// and IR on what remains; IR is waived for exempt papers (LCI, LCA, debêntures incentivadas).
+export function fixedIncomeValue(
+  terms: FixedIncomeTerms,
+  operations: Pick<InvestmentOperation, 'id' | 'type' | 'date' | 'quantity' | 'amount' | 'fees'>[],
+  rates: IndexRate[],
+  date: string
+): FixedIncomeValue {
+  const lots: { date: string, quantity: number, unitCost: number }[] = [];
+  const sorted = [...operations].sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  for (const op of sorted) {
+    if (op.date > date) break;
+    if (op.type === 'buy' && op.quantity) {
+      lots.push({ date: op.date, quantity: op.quantity, unitCost: (op.amount + (op.fees || 0)) / op.quantity });
+    } else if (op.type === 'sell' && op.quantity) {
+      let remaining = op.quantity;
+      while (remaining > 1e-9 && lots.length > 0) {
+        const redeemed = Math.min(lots[0].quantity, remaining);
+        lots[0].quantity -= redeemed;
+        remaining -= redeemed;
+        if (lots[0].quantity <= 1e-9) lots.shift();
+      }
+    }
+  }
+
+  let invested = 0, gross = 0, iof = 0, ir = 0, missing = false;
+  for (const lot of lots) {
+    const cost = lot.quantity * lot.unitCost;
+    const { factor, missing_rates } = accrualFactor(terms, rates, lot.date, date);
+    const value = cost * factor;
+    const gain = Math.max(value - cost, 0);
+    const daysHeld = differenceInCalendarDays(parseISO(date), parseISO(lot.date));
+    const lotIof = gain * iofRate(daysHeld);
+    invested += cost;
+    gross += value;
+    iof += lotIof;
+    ir += terms.tax_exempt ? 0 : (gain - lotIof) * incomeTaxRate(daysHeld);
+    missing = missing || missing_rates;
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    date,
+    invested: round(invested),
+    gross: round(gross),
+    iof: round(iof),
+    ir: round(ir),
+    net: round(gross - iof - ir),
+    missing_rates: missing
+  };
+}
+
+// Rows of "date;rate" as exported by the Banco Central (SGS): dd/MM/yyyy or yyyy-MM-dd dates, or MM/yyyy
+// for monthly series, with comma or point decimals. Header and unparseable rows are skipped.
+export function parseRateSeries(content: string): { date: string, rate: number }[] {
+  const rows = parseCSV(content.trim(), detectDelimiter(content));
+  const entries: { date: string, rate: number }[] = [];
+  for (const [rawDate = '', rawRate = ''] of rows) {
+    const date = parseDate(rawDate, 'dd/MM/yyyy') || parseDate(rawDate, 'yyyy-MM-dd') || parseDate(rawDate, 'MM/yyyy');
+    const rate = parseAmount(rawRate, rawRate.includes(',') ? ',' : '.');
+    if (date && !isNaN(rate)) entries.push({ date, rate });
+  }
+  return entries;
+}
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { forecastGoal, monthlyPace } from './forecast';
+import { Goal } from '../types';
+
+const today = '2026-10-19';
+const opening = (date: string, amount: number) => ({ date, amount, is_opening: 1 });
+const saving = (date: string, amount: number) => ({ date, amount, is_opening: 0 });
+
+// Months are counted as 30.44 days, so whole-month spacing lands close to but not exactly on the amount
+const near = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 10, `${actual} is not near ${expected}`);
+
+const goal = (current_amount: number): Goal => ({
+  id: 1, name: 'Reserva', target_amount: 10000, current_amount, deadline: '2027-10-19', category: 'Poupança'
+});
+
+describe('monthlyPace', () => {
+  it('leaves the opening balance out of the pace even when it is dated after the contributions', () => {
+    const contributions = [opening(today, 2000), saving('2026-07-19', 500), saving('2026-08-19', 500), saving('2026-09-19', 500)];
+    near(monthlyPace(contributions, today), 500);
+  });
+
+  it('counts from an earlier opening balance without adding it', () => {
+    const contributions = [opening('2026-07-19', 2000), saving('2026-08-19', 500), saving('2026-09-19', 500), saving('2026-10-19', 500)];
+    near(monthlyPace(contributions, today), 500);
+  });
+
+  it('counts every contribution when the goal had no opening balance', () => {
+    assert.equal(monthlyPace([saving('2026-10-10', 300)], today), 300);
+    near(monthlyPace([saving('2026-08-19', 600), saving('2026-09-19', 600)], today), 600);
+  });
+
+  it('is zero with only an opening balance or contributions older than a year', () => {
+    assert.equal(monthlyPace([opening('2026-09-01', 2000)], today), 0);
+    assert.equal(monthlyPace([saving('2025-01-10', 900)], today), 0);
+  });
+});
+
+describe('forecastGoal', () => {
+  it('compares the pace, without the opening balance, with what the deadline requires', () => {
+    const forecast = forecastGoal(goal(3500), [opening(today, 2000), saving('2026-07-19', 500), saving('2026-08-19', 500), saving('2026-09-19', 500)], today);
+    near(forecast.monthly_pace, 500);
+    assert.ok(forecast.required_monthly > 540);
+    assert.equal(forecast.status, 'at_risk');
+  });
+
+  it('projects from a single contribution', () => {
+    const single = forecastGoal(goal(9600), [saving('2026-10-01', 600)], today);
+    assert.equal(single.monthly_pace, 600);
+    assert.equal(single.status, 'on_track');
+  });
+});
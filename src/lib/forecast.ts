@@ -0,0 +1,47 @@
+import { addMonths, differenceInCalendarDays, format, parseISO, subMonths } from 'date-fns';
+import { Goal, GoalContribution, GoalForecast } from '../types';
+
+const PACE_WINDOW_MONTHS = 12;
+
+type PaceContribution = Pick<GoalContribution, 'date' | 'amount' | 'is_opening'>;
+
+// Average saved per month over the last year, counted from the goal's first entry in the window. The
+// opening balance only marks where saving started: a goal opened with R$ 5.000 already saved isn't
+// saving R$ 5.000/month.
+export function monthlyPace(contributions: PaceContribution[], today: string): number {
+  const windowStart = format(subMonths(parseISO(today), PACE_WINDOW_MONTHS), 'yyyy-MM-dd');
+  const recent = contributions
+    .filter(c => c.date >= windowStart && c.date <= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const saved = recent.filter(c => !c.is_opening).reduce((sum, c) => sum + c.amount, 0);
+  if (saved <= 0) return 0;
+
+  const months = Math.max(differenceInCalendarDays(parseISO(today), parseISO(recent[0].date)) / 30.44, 1);
+  return saved / months;
+}
+
+export function forecastGoal(goal: Goal, contributions: PaceContribution[], today: string): GoalForecast {
+  const remaining = Math.max(goal.target_amount - goal.current_amount, 0);
+  const daysLeft = differenceInCalendarDays(parseISO(goal.deadline), parseISO(today));
+  const monthsLeft = Math.max(daysLeft / 30.44, 0);
+  const pace = monthlyPace(contributions, today);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const projected = remaining === 0 ? today
+    : pace > 0 ? format(addMonths(parseISO(today), Math.ceil(remaining / pace)), 'yyyy-MM-dd')
+    : null;
+
+  return {
+    goal_id: goal.id,
+    remaining: round(remaining),
+    months_left: Math.round(monthsLeft * 10) / 10,
+    // With less than a month to go the whole remainder is due now
+    required_monthly: round(remaining / Math.max(monthsLeft, 1)),
+    monthly_pace: round(pace),
+    projected_completion: projected,
+    status: remaining === 0 ? 'achieved'
+      : daysLeft < 0 ? 'late'
+      : projected && projected <= goal.deadline ? 'on_track'
+      : 'at_risk'
+  };
+}
@@ -0,0 +1,97 @@
+import { Insight, InsightContext } from '../types';
+import { JsonSchema } from './ai';
+
+const INSIGHT_KINDS: Insight['kind'][] = ['alert', 'tip', 'positive'];
+
+export const INSIGHTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    insights: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 3,
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: INSIGHT_KINDS },
+          title: { type: 'string' },
+          message: { type: 'string' }
+        },
+        required: ['kind', 'title', 'message']
+      }
+    }
+  },
+  required: ['insights']
+};
+
+export const INSIGHTS_SYSTEM = 'Você é um assistente de finanças pessoais. Responda em português do Brasil, com valores em reais, '
+  + 'usando apenas os dados fornecidos. Cada insight deve ser curto, concreto e acionável.';
+
+export function insightsPrompt(context: InsightContext): string {
+  return `Analise o resumo financeiro de ${context.month} abaixo e forneça até 3 insights para melhorar a saúde financeira. `
+    + 'Use "alert" para riscos (orçamentos estourados, metas atrasadas, gastos acima da renda), "tip" para sugestões '
+    + 'e "positive" para conquistas.\n'
+    + 'Os totais são por tipo: income = receitas fixas, variable_income = receitas variáveis, fixed = despesas fixas, '
+    + 'variable = despesas variáveis, invested = aportes líquidos; "previous" é o mês anterior.\n'
+    + JSON.stringify(context);
+}
+
+// Model output is untrusted: anything not matching the schema is dropped rather than shown
+export function parseInsights(raw: unknown): Insight[] {
+  const list = (raw as { insights?: unknown })?.insights;
+  if (!Array.isArray(list)) throw new Error('Resposta sem a lista de insights');
+  const insights = list
+    .filter((i): i is Insight => Boolean(i) && INSIGHT_KINDS.includes(i.kind) && typeof i.title === 'string' && typeof i.message === 'string' && i.message.trim() !== '')
+    .slice(0, 3)
+    .map(i => ({ kind: i.kind, title: i.title.trim(), message: i.message.trim() }));
+  if (insights.length === 0) throw new Error('Resposta sem insights válidos');
+  return insights;
+}
+
+const brl = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+// Deterministic answer for the stub provider: the same checks a model would be expected to make first
+export function ruleBasedInsights(context: InsightContext): { insights: Insight[] } {
+  const insights: Insight[] = [];
+  const income = context.totals.income + context.totals.variable_income;
+  const expenses = context.totals.fixed + context.totals.variable;
+  const previousExpenses = context.previous.fixed + context.previous.variable;
+
+  const over = context.budgets.filter(b => b.percent >= 100).sort((a, b) => b.percent - a.percent);
+  if (over.length > 0) {
+    insights.push({
+      kind: 'alert',
+      title: 'Orçamento estourado',
+      message: `${over[0].category} já consumiu ${Math.round(over[0].percent)}% do limite (${brl(over[0].spent)} de ${brl(over[0].available)}).`
+    });
+  }
+
+  if (expenses > income) {
+    insights.push({ kind: 'alert', title: 'Gastos acima da renda', message: `As despesas do mês (${brl(expenses)}) superam as receitas (${brl(income)}).` });
+  } else if (income > 0) {
+    const rate = Math.round(((income - expenses) / income) * 100);
+    insights.push({ kind: rate >= 20 ? 'positive' : 'tip', title: 'Taxa de poupança', message: `Você guardou ${rate}% da renda do mês${rate < 20 ? '; a meta usual é de pelo menos 20%' : ''}.` });
+  }
+
+  const late = context.goals.find(g => g.status === 'late' || g.status === 'at_risk');
+  if (late) {
+    insights.push({
+      kind: 'tip',
+      title: `Meta "${late.name}"`,
+      message: `Para chegar a ${brl(late.target_amount)} no prazo, guarde ${brl(late.required_monthly)} por mês (ritmo atual: ${brl(late.monthly_pace)}).`
+    });
+  }
+
+  if (previousExpenses > 0 && context.top_categories.length > 0 && expenses > previousExpenses * 1.1) {
+    insights.push({
+      kind: 'tip',
+      title: 'Despesas em alta',
+      message: `Os gastos subiram ${Math.round((expenses / previousExpenses - 1) * 100)}% em relação ao mês anterior; a maior categoria foi ${context.top_categories[0].category} (${brl(context.top_categories[0].amount)}).`
+    });
+  }
+
+  if (insights.length === 0) {
+    insights.push({ kind: 'tip', title: 'Poucos dados', message: 'Registre receitas, despesas e orçamentos do mês para receber análises mais completas.' });
+  }
+  return { insights: insights.slice(0, 3) };
+}
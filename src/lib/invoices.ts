@@ -0,0 +1,59 @@
+import { addMonths, format, getDaysInMonth, parseISO } from 'date-fns';
+import { Invoice, Occurrence } from '../types';
+
+const toDateStr = (d: Date) => format(d, 'yyyy-MM-dd');
+
+// The closing/due day is clamped to the month's length (closing day 31 closes on 30/11).
+function dayInMonth(monthStart: Date, day: number) {
+  return new Date(monthStart.getFullYear(), monthStart.getMonth(), Math.min(day, getDaysInMonth(monthStart)));
+}
+
+// Which invoice a purchase made on `date` belongs to. Purchases after the closing day roll over to
+// the next cycle; invoices are identified by the month they are due ("fatura de novembro").
+export function invoiceCycle(date: string, closingDay: number, dueDay: number) {
+  const purchase = parseISO(date);
+  const purchaseMonth = new Date(purchase.getFullYear(), purchase.getMonth(), 1);
+  const closingMonth = purchase <= dayInMonth(purchaseMonth, closingDay) ? purchaseMonth : addMonths(purchaseMonth, 1);
+  const closing = dayInMonth(closingMonth, closingDay);
+  // A due day on or before the closing day falls in the following month
+  const due = dueDay > closingDay ? dayInMonth(closingMonth, dueDay) : dayInMonth(addMonths(closingMonth, 1), dueDay);
+
+  return {
+    month: format(due, 'yyyy-MM'),
+    closing_date: toDateStr(closing),
+    due_date: toDateStr(due)
+  };
+}
+
+// Groups a card's purchases and parcelas into invoices, oldest first. `payments` maps an invoice
+// month to the amount already paid towards it; `today` decides open/closed/overdue.
+export function buildInvoices(
+  occurrences: Occurrence[],
+  closingDay: number,
+  dueDay: number,
+  payments: Record<string, number>,
+  today: string
+): Invoice[] {
+  const invoices = new Map<string, Invoice>();
+
+  for (const occurrence of occurrences) {
+    const cycle = invoiceCycle(occurrence.date, closingDay, dueDay);
+    const invoice = invoices.get(cycle.month) || { ...cycle, items: [], total: 0, paid: payments[cycle.month] || 0, status: 'open' as const };
+    // Refunds and cashback are recorded as income on the card and reduce the invoice
+    const signed = (occurrence.type === 'income' || occurrence.type === 'variable_income') ? -occurrence.amount : occurrence.amount;
+    invoice.items.push(occurrence);
+    invoice.total += signed;
+    invoices.set(cycle.month, invoice);
+  }
+
+  return [...invoices.values()]
+    .map(invoice => ({
+      ...invoice,
+      total: Math.round(invoice.total * 100) / 100,
+      status: invoice.paid >= invoice.total - 0.005 && invoice.closing_date < today ? 'paid' as const
+        : today <= invoice.closing_date ? 'open' as const
+        : today > invoice.due_date ? 'overdue' as const
+        : 'closed' as const
+    }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+}
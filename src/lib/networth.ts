@@ -0,0 +1,27 @@
+import { Account, Liability, NetWorth } from '../types';
+
+// Account balances plus investments at market value, minus card debt and loans. A credit card with a
+// positive balance (a refund or overpayment) counts as cash like any other account.
+export function computeNetWorth(accounts: Pick<Account, 'type' | 'balance'>[], investments: number, liabilities: Pick<Liability, 'balance'>[]): NetWorth {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const isCardDebt = (a: Pick<Account, 'type' | 'balance'>) => a.type === 'credit_card' && a.balance < 0;
+  const cash = accounts.filter(a => !isCardDebt(a)).reduce((sum, a) => sum + a.balance, 0);
+  const cardDebt = accounts.filter(isCardDebt).reduce((sum, a) => sum - a.balance, 0);
+  const loans = liabilities.reduce((sum, l) => sum + l.balance, 0);
+
+  return {
+    accounts: round(cash),
+    investments: round(investments),
+    card_debt: round(cardDebt),
+    loans: round(loans),
+    assets: round(cash + investments),
+    liabilities: round(cardDebt + loans),
+    net_worth: round(cash + investments - cardDebt - loans)
+  };
+}
+
+export const LIABILITY_KIND_LABELS: Record<Liability['kind'], string> = {
+  loan: 'Empréstimo',
+  financing: 'Financiamento',
+  other: 'Outra'
+};
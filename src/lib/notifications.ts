@@ -0,0 +1,82 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { BudgetStatus, Goal, NotificationDraft, Occurrence, Transaction } from '../types';
+
+export const NOTIFICATION_SETTINGS = {
+  budgetThresholds: [80, 100],
+  billDaysAhead: 3,
+  goalDaysAhead: 30,
+  largeTransactionAmount: 1000,
+  largeTransactionDays: 7
+};
+
+const brl = (value: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+const day = (date: string) => format(parseISO(date), 'dd/MM');
+const isExpense = (type: Transaction['type']) => type === 'fixed_expense' || type === 'variable_expense';
+
+// Everything worth warning about as of `today`. Each draft has a stable key (budget period + threshold,
+// bill occurrence, goal deadline, transaction), so running this repeatedly never warns twice.
+// `bills` should only hold occurrences of recurring or installment transactions.
+export function detectNotifications(input: {
+  today: string,
+  budgets: BudgetStatus[],
+  bills: Occurrence[],
+  goals: Goal[],
+  transactions: Transaction[]
+}, settings = NOTIFICATION_SETTINGS): NotificationDraft[] {
+  const { today } = input;
+  const drafts: NotificationDraft[] = [];
+
+  for (const status of input.budgets) {
+    // Only the highest threshold crossed: a budget that jumps straight past 100% gets one warning
+    const threshold = [...settings.budgetThresholds].reverse().find(t => status.percent >= t);
+    if (threshold === undefined) continue;
+    drafts.push({
+      kind: 'budget',
+      key: `budget:${status.budget_id}:${status.from}:${threshold}`,
+      title: threshold >= 100 ? `Orçamento de ${status.category} estourado` : `Orçamento de ${status.category} em ${threshold}%`,
+      message: `Gasto de ${brl(status.spent)} de ${brl(status.available)} entre ${day(status.from)} e ${day(status.to)}.`,
+      date: today
+    });
+  }
+
+  const billLimit = format(addDays(parseISO(today), settings.billDaysAhead), 'yyyy-MM-dd');
+  for (const bill of input.bills) {
+    if (!isExpense(bill.type) || bill.date < today || bill.date > billLimit) continue;
+    const days = differenceInCalendarDays(parseISO(bill.date), parseISO(today));
+    drafts.push({
+      kind: 'bill',
+      key: `bill:${bill.transaction_id}:${bill.date}`,
+      title: `${bill.description} vence ${days === 0 ? 'hoje' : days === 1 ? 'amanhã' : `em ${days} dias`}`,
+      message: `${brl(bill.amount)} em ${day(bill.date)}.`,
+      date: today
+    });
+  }
+
+  for (const goal of input.goals) {
+    const days = differenceInCalendarDays(parseISO(goal.deadline), parseISO(today));
+    // NaN for a deadline that isn't a date, which would slip past both bounds
+    if (!Number.isFinite(days) || days < 0 || days > settings.goalDaysAhead || goal.current_amount >= goal.target_amount) continue;
+    drafts.push({
+      kind: 'goal',
+      key: `goal:${goal.id}:${goal.deadline}`,
+      title: `Prazo da meta ${goal.name} se aproximando`,
+      message: `Faltam ${brl(goal.target_amount - goal.current_amount)} e ${days} dia(s) até ${format(parseISO(goal.deadline), 'dd/MM/yyyy')}.`,
+      date: today
+    });
+  }
+
+  // Only recent ones, so importing an old statement doesn't flood the panel
+  const recentFrom = format(addDays(parseISO(today), -settings.largeTransactionDays), 'yyyy-MM-dd');
+  for (const t of input.transactions) {
+    if (!isExpense(t.type) || t.amount < settings.largeTransactionAmount || t.date < recentFrom || t.date > today) continue;
+    drafts.push({
+      kind: 'large_transaction',
+      key: `large_transaction:${t.id}`,
+      title: 'Transação de valor alto',
+      message: `${t.description}: ${brl(t.amount)} em ${day(t.date)} (${t.category}).`,
+      date: t.date
+    });
+  }
+
+  return drafts;
+}
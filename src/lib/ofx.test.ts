@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { decodeOfx, inferOfxType, parseOfx } from './ofx';
+
+const fixture = (name: string) => {
+  const bytes = readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+  return decodeOfx(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+};
+
+describe('parseOfx', () => {
+  it('reads an SGML (1.x) statement in Windows-1252 with decimal commas', () => {
+    const statement = parseOfx(fixture('statement-sgml.ofx'));
+    assert.equal(statement.bank_id, '0341');
+    assert.equal(statement.account_id, '12345-6');
+    assert.deepEqual(statement.transactions.map(t => [t.fitid, t.date, t.amount]), [
+      ['20261005001', '2026-10-05', 5432.1],
+      ['20261007001', '2026-10-07', -42.5],
+      ['20261010001', '2026-10-10', -1250],
+      ['20261010001', '2026-10-10', -1250]
+    ]);
+    assert.equal(statement.transactions[1].description, 'PADARIA SÃO JOÃO - Compra no débito');
+  });
+
+  it('reads an XML (2.x) statement, decoding entities and skipping entries without a date', () => {
+    const statement = parseOfx(fixture('statement-xml.ofx'));
+    assert.equal(statement.bank_id, '0260');
+    assert.equal(statement.account_id, '98765-4');
+    assert.deepEqual(statement.transactions.map(t => [t.fitid, t.date, t.amount]), [
+      ['A1', '2026-10-03', 1234.56],
+      ['A2', '2026-10-12', -89.9]
+    ]);
+    assert.equal(statement.transactions[0].description, 'PIX RECEBIDO - Maria & João');
+  });
+});
+
+describe('inferOfxType', () => {
+  it('maps transaction types and signs to income and expense kinds', () => {
+    const [salary, bakery, rent] = parseOfx(fixture('statement-sgml.ofx')).transactions;
+    const [pix, phone] = parseOfx(fixture('statement-xml.ofx')).transactions;
+    assert.equal(inferOfxType(salary), 'income');
+    assert.equal(inferOfxType(pix), 'variable_income');
+    assert.equal(inferOfxType(bakery), 'variable_expense');
+    assert.equal(inferOfxType(rent), 'fixed_expense');
+    assert.equal(inferOfxType(phone), 'fixed_expense');
+  });
+});
@@ -0,0 +1,85 @@
+import { Transaction } from '../types';
+import { parseAmount } from './csv';
+
+export interface OfxTransaction {
+  fitid: string;
+  trntype: string;
+  date: string;
+  amount: number;
+  description: string;
+}
+
+export interface OfxStatement {
+  bank_id: string | null;
+  account_id: string | null;
+  transactions: OfxTransaction[];
+}
+
+// OFX 1.x headers declare "CHARSET:1252" and most Brazilian banks still send Latin-1;
+// OFX 2.x is XML and carries its encoding in the prolog.
+export function decodeOfx(buffer: ArrayBuffer): string {
+  const head = new TextDecoder('ascii').decode(buffer.slice(0, 512));
+  const latin1 = /CHARSET:\s*(1252|ISO-?8859-?1)/i.test(head) || /encoding="(windows-1252|iso-8859-1)"/i.test(head);
+  return new TextDecoder(latin1 ? 'windows-1252' : 'utf-8').decode(buffer);
+}
+
+const decodeEntities = (value: string) => value
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+// Leaf elements in SGML (1.x) have no closing tag, so a value runs until the next tag or line break.
+// The same pattern reads XML (2.x) leaves, where the next tag is the closing one.
+function readField(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? decodeEntities(match[1].trim()) : null;
+}
+
+// DTPOSTED is YYYYMMDD optionally followed by time and a [-3:BRT] timezone.
+function parseOfxDate(value: string | null): string | null {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})/.exec(value) : null;
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// The spec uses a decimal point, but some Brazilian banks write TRNAMT as "1.234,56": whichever
+// separator comes last is the decimal one.
+function parseOfxAmount(value: string | null): number {
+  if (!value) return NaN;
+  return parseAmount(value, value.lastIndexOf(',') > value.lastIndexOf('.') ? ',' : '.');
+}
+
+export function parseOfx(content: string): OfxStatement {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  const transactions = blocks.flatMap(block => {
+    const date = parseOfxDate(readField(block, 'DTPOSTED'));
+    const amount = parseOfxAmount(readField(block, 'TRNAMT'));
+    if (!date || isNaN(amount)) return [];
+
+    const name = readField(block, 'NAME');
+    const memo = readField(block, 'MEMO');
+    return [{
+      fitid: readField(block, 'FITID') || `${date}|${amount}|${name || memo}`,
+      trntype: (readField(block, 'TRNTYPE') || 'OTHER').toUpperCase(),
+      date,
+      amount,
+      description: [name, memo].filter(Boolean).join(' - ') || 'Sem descrição'
+    }];
+  });
+
+  return {
+    bank_id: readField(content, 'BANKID'),
+    account_id: readField(content, 'ACCTID'),
+    transactions
+  };
+}
+
+// Salary-like credits become fixed income, other credits variable income; scheduled debits are
+// fixed expenses and everything else leaving the account is a variable expense.
+export function inferOfxType(t: OfxTransaction): Transaction['type'] {
+  if (t.amount >= 0) {
+    return t.trntype === 'DIRECTDEP' ? 'income' : 'variable_income';
+  }
+  return t.trntype === 'REPEATPMT' || t.trntype === 'DIRECTDEBIT' ? 'fixed_expense' : 'variable_expense';
+}
@@ -0,0 +1,102 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  format,
+  getQuarter,
+  isValid,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subMonths,
+  subQuarters,
+  subYears
+} from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+export type PeriodPreset = 'month' | 'quarter' | 'year';
+
+export interface PeriodQuery {
+  from?: string;
+  to?: string;
+  month?: string;   // 2026-10
+  quarter?: string; // 2026-Q4
+  year?: string;    // 2026
+}
+
+export interface ResolvedPeriod {
+  from: string;
+  to: string;
+  previousFrom: string;
+  previousTo: string;
+}
+
+const toDateStr = (d: Date) => format(d, 'yyyy-MM-dd');
+
+// Turns a preset (month/quarter/year) or an explicit from/to range into concrete dates plus the
+// immediately preceding period of the same kind. Returns null when the query is malformed.
+export function resolvePeriod(query: PeriodQuery): ResolvedPeriod | null {
+  if (query.month) {
+    const match = /^(\d{4})-(\d{2})$/.exec(query.month);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null;
+    const start = new Date(Number(match[1]), Number(match[2]) - 1, 1);
+    const previous = subMonths(start, 1);
+    return { from: toDateStr(start), to: toDateStr(endOfMonth(start)), previousFrom: toDateStr(previous), previousTo: toDateStr(endOfMonth(previous)) };
+  }
+
+  if (query.quarter) {
+    const match = /^(\d{4})-Q([1-4])$/i.exec(query.quarter);
+    if (!match) return null;
+    const start = new Date(Number(match[1]), (Number(match[2]) - 1) * 3, 1);
+    const previous = subQuarters(start, 1);
+    return { from: toDateStr(start), to: toDateStr(endOfQuarter(start)), previousFrom: toDateStr(previous), previousTo: toDateStr(endOfQuarter(previous)) };
+  }
+
+  if (query.year) {
+    if (!/^\d{4}$/.test(query.year)) return null;
+    const start = new Date(Number(query.year), 0, 1);
+    const previous = subYears(start, 1);
+    return { from: toDateStr(start), to: toDateStr(endOfYear(start)), previousFrom: toDateStr(previous), previousTo: toDateStr(endOfYear(previous)) };
+  }
+
+  if (query.from && query.to) {
+    const from = parseISO(query.from);
+    const to = parseISO(query.to);
+    if (!isValid(from) || !isValid(to) || from > to) return null;
+    const length = differenceInCalendarDays(to, from) + 1;
+    return { from: query.from, to: query.to, previousFrom: toDateStr(addDays(from, -length)), previousTo: toDateStr(addDays(from, -1)) };
+  }
+
+  return null;
+}
+
+// Query string for the period containing `anchor`, e.g. "month=2026-10" or "quarter=2026-Q4".
+export function periodQueryString(preset: PeriodPreset, anchor: Date) {
+  if (preset === 'month') return `month=${format(anchor, 'yyyy-MM')}`;
+  if (preset === 'quarter') return `quarter=${format(anchor, 'yyyy')}-Q${getQuarter(anchor)}`;
+  return `year=${format(anchor, 'yyyy')}`;
+}
+
+export function periodStart(preset: PeriodPreset, anchor: Date) {
+  if (preset === 'month') return startOfMonth(anchor);
+  if (preset === 'quarter') return startOfQuarter(anchor);
+  return startOfYear(anchor);
+}
+
+export function periodMonths(preset: PeriodPreset) {
+  return preset === 'month' ? 1 : preset === 'quarter' ? 3 : 12;
+}
+
+export function shiftPeriod(preset: PeriodPreset, anchor: Date, amount: number) {
+  return addMonths(periodStart(preset, anchor), amount * periodMonths(preset));
+}
+
+export function periodLabel(preset: PeriodPreset, anchor: Date) {
+  if (preset === 'month') return format(anchor, 'MMMM yyyy', { locale: ptBR });
+  if (preset === 'quarter') return `${getQuarter(anchor)}º Trimestre ${format(anchor, 'yyyy')}`;
+  return format(anchor, 'yyyy');
+}
@@ -0,0 +1,82 @@
+import { InvestmentOperation, InvestmentPosition } from '../types';
+
+export const OPERATION_LABELS: Record<InvestmentOperation['type'], string> = {
+  buy: 'Compra',
+  sell: 'Venda',
+  dividend: 'Dividendo',
+  jcp: 'JCP',
+  fee: 'Taxa'
+};
+
+// Position after replaying the operations in date order, using average cost: buys (plus their fees)
+// raise the cost basis, sells realize the difference to the average cost at that moment. Dividends and
+// JCP are tracked as income; standalone fees count against the realized result. Without a price quote
+// the asset is valued at the last traded unit price.
+export function computePosition(
+  operations: Pick<InvestmentOperation, 'id' | 'type' | 'date' | 'quantity' | 'unit_price' | 'amount' | 'fees'>[],
+  quote: { price: number, date: string } | null
+): InvestmentPosition {
+  let quantity = 0;
+  let cost = 0;
+  let realized = 0;
+  let income = 0;
+  let lastTrade: { price: number, date: string } | null = null;
+
+  const sorted = [...operations].sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  for (const op of sorted) {
+    const fees = op.fees || 0;
+    if (op.type === 'buy') {
+      quantity += op.quantity!;
+      cost += op.amount + fees;
+    } else if (op.type === 'sell') {
+      const averageCost = quantity > 0 ? cost / quantity : 0;
+      realized += op.amount - fees - averageCost * op.quantity!;
+      cost -= averageCost * op.quantity!;
+      quantity -= op.quantity!;
+    } else if (op.type === 'fee') {
+      realized -= op.amount;
+    } else {
+      income += op.amount;
+    }
+    if ((op.type === 'buy' || op.type === 'sell') && op.unit_price) {
+      lastTrade = { price: op.unit_price, date: op.date };
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  // Prefer whichever is more recent: a sale after the last manual quote is a better price
+  const price = quote && (!lastTrade || quote.date >= lastTrade.date) ? quote : lastTrade;
+  // Floating point leftovers after selling everything
+  if (Math.abs(quantity) < 1e-9) {
+    quantity = 0;
+    cost = 0;
+  }
+  const marketValue = price ? quantity * price.price : cost;
+  const unrealized = marketValue - cost;
+
+  return {
+    quantity: Math.round(quantity * 1e8) / 1e8,
+    average_cost: quantity > 0 ? round(cost / quantity) : 0,
+    cost_basis: round(cost),
+    current_price: price ? price.price : null,
+    price_date: price ? price.date : null,
+    market_value: round(marketValue),
+    unrealized: round(unrealized),
+    unrealized_percent: cost > 0 ? round((unrealized / cost) * 100) : 0,
+    realized: round(realized),
+    income: round(income),
+    total_return: round(unrealized + realized + income)
+  };
+}
+
+// True when, at some point in date order, more units were sold than were held
+export function isOversold(operations: Pick<InvestmentOperation, 'id' | 'type' | 'date' | 'quantity'>[]): boolean {
+  let quantity = 0;
+  const sorted = [...operations].sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  for (const op of sorted) {
+    if (op.type === 'buy') quantity += op.quantity!;
+    if (op.type === 'sell') quantity -= op.quantity!;
+    if (quantity < -1e-9) return true;
+  }
+  return false;
+}
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuickAddContext, parseQuickAdd } from './quickAdd';
+
+// 2026-10-19 is a Monday
+const context: QuickAddContext = {
+  today: '2026-10-19',
+  categories: [
+    { name: 'Restaurantes', type: 'expense', parent_id: null },
+    { name: 'Mercado', type: 'expense', parent_id: null },
+    { name: 'Transporte', type: 'expense', parent_id: null },
+    { name: 'Moradia', type: 'expense', parent_id: null },
+    { name: 'Salário', type: 'income', parent_id: null }
+  ],
+  accounts: [
+    { id: 1, name: 'Nubank', type: 'credit_card' },
+    { id: 2, name: 'Conta Itaú', type: 'checking' },
+    { id: 3, name: 'Carteira', type: 'cash' }
+  ]
+};
+
+const parse = (text: string) => parseQuickAdd(text, context);
+
+describe('parseQuickAdd amounts', () => {
+  it('reads Brazilian and plain decimal amounts', () => {
+    assert.equal(parse('almoço 42,50').amount, 42.5);
+    assert.equal(parse('uber 23.90').amount, 23.9);
+    assert.equal(parse('recebi 1.500 de freela').amount, 1500);
+    assert.equal(parse('vendi o carro por 30 mil').amount, 30000);
+  });
+
+  it('prefers the number marked as money, then the last one', () => {
+    assert.deepEqual([parse('2 pizzas 80').amount, parse('2 pizzas 80').description], [80, '2 pizzas']);
+    assert.equal(parse('R$ 45 em 3 cafés').amount, 45);
+    assert.equal(parse('150 reais de gasolina 2 vezes').amount, 150);
+    assert.equal(parse('jantar').amount, null);
+  });
+});
+
+describe('parseQuickAdd dates', () => {
+  it('reads relative days, day numbers and weekdays', () => {
+    assert.equal(parse('padaria 12').date, '2026-10-19');
+    assert.equal(parse('padaria 12 ontem').date, '2026-10-18');
+    assert.equal(parse('aluguel 1500 dia 5').date, '2026-10-05');
+    assert.equal(parse('aluguel 1500 dia 25').date, '2026-09-25');
+    assert.equal(parse('cinema 60 sexta').date, '2026-10-16');
+    assert.equal(parse('cinema 60 segunda-feira').date, '2026-10-19');
+    assert.equal(parse('mercado 200 10/10').date, '2026-10-10');
+  });
+});
+
+describe('parseQuickAdd accounts and categories', () => {
+  it('matches accounts by name or by kind of payment', () => {
+    assert.equal(parse('uber 30 no nubank').account_id, 1);
+    assert.equal(parse('mercado 90 conta itaú').account_id, 2);
+    assert.equal(parse('feira 40 em dinheiro').account_id, 3);
+    assert.equal(parse('pão 8 no pix').account_id, 2);
+    assert.equal(parse('pão 8').account_id, null);
+  });
+
+  it('picks the category by name or keyword and infers the type', () => {
+    const lunch = parse('paguei 42,50 de almoço ontem no cartão');
+    assert.deepEqual(lunch, {
+      description: 'Almoço', amount: 42.5, type: 'variable_expense', category: 'Restaurantes', date: '2026-10-18', account_id: 1
+    });
+    assert.equal(parse('uber 30').category, 'Transporte');
+    assert.equal(parse('supermercado 300').category, 'Mercado');
+    assert.deepEqual([parse('aluguel 1500').category, parse('aluguel 1500').type], ['Moradia', 'fixed_expense']);
+    assert.deepEqual([parse('salário 5000').category, parse('salário 5000').type], ['Salário', 'income']);
+    assert.deepEqual([parse('recebi 200 de freela').category, parse('recebi 200 de freela').type], [null, 'variable_income']);
+  });
+});
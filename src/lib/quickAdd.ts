@@ -0,0 +1,209 @@
+import { addDays, format, getDaysInMonth, parseISO, setDate, subMonths } from 'date-fns';
+import { Account, Category, QuickAddDraft } from '../types';
+import { JsonSchema } from './ai';
+import { parseAmount } from './csv';
+
+export interface QuickAddContext {
+  today: string;
+  categories: Pick<Category, 'name' | 'type' | 'parent_id'>[];
+  accounts: Pick<Account, 'id' | 'name' | 'type'>[];
+}
+
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// Everyday words for the default categories; a category missing from the catalog is skipped
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  'Restaurantes': ['almoco', 'jantar', 'lanche', 'restaurante', 'ifood', 'pizza', 'cafe', 'padaria', 'hamburguer', 'bar'],
+  'Mercado': ['mercado', 'supermercado', 'feira', 'hortifruti', 'acougue'],
+  'Transporte': ['uber', 'taxi', 'onibus', 'metro', 'gasolina', 'combustivel', 'estacionamento', 'pedagio'],
+  'Saúde': ['farmacia', 'remedio', 'medico', 'consulta', 'exame', 'dentista'],
+  'Educação': ['curso', 'livro', 'escola', 'faculdade'],
+  'Lazer': ['cinema', 'show', 'netflix', 'spotify', 'viagem', 'ingresso'],
+  'Moradia': ['aluguel', 'condominio', 'luz', 'agua', 'internet', 'iptu'],
+  'Salário': ['salario'],
+  'Comissões': ['comissao'],
+  'Rendimentos': ['rendimento', 'dividendos', 'juros']
+};
+
+const INCOME_WORDS = ['recebi', 'ganhei', 'salario', 'freela', 'reembolso', 'vendi'];
+const FIXED_WORDS = ['aluguel', 'condominio', 'mensalidade', 'assinatura', 'iptu', 'parcela'];
+// Dropped from the start of the description: "paguei 30 de uber" is described as "Uber"
+const LEADING_VERBS = ['paguei', 'gastei', 'comprei', 'recebi', 'ganhei'];
+const CONNECTORS = ['no', 'na', 'em', 'de', 'do', 'da', 'com', 'pelo', 'pela', 'por', 'e'];
+const WEEKDAYS = ['domingo', 'segunda', 'terca', 'quarta', 'quinta', 'sexta', 'sabado'];
+
+const AMOUNT_PATTERN = /^(r\$)?(\d{1,3}(\.\d{3})+(,\d{1,2})?|\d+([.,]\d{1,2})?)$/;
+
+// Reads text like "almoço 42,50 ontem no cartão" or "recebi 1.500 de freela dia 5". Amounts use the
+// Brazilian format ("1.234,56"); "42.50" is read as a decimal. Relative days count back from `today`.
+export function parseQuickAdd(text: string, context: QuickAddContext): QuickAddDraft {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const norm = words.map(w => normalize(w).replace(/[!?;:]+$/, '').replace(/(?<=\D)[.,]+$/, ''));
+  const used = new Set<number>();
+  const today = parseISO(context.today);
+  const toDateStr = (d: Date) => format(d, 'yyyy-MM-dd');
+  const phraseAt = (phrase: string) => {
+    const parts = normalize(phrase).split(/\s+/);
+    return norm.findIndex((_, i) => parts.every((p, j) => norm[i + j] === p));
+  };
+  // Marks a span as read, along with the connector right before it ("no cartão", "dia 5")
+  const consume = (start: number, length: number) => {
+    for (let i = start; i < start + length; i++) used.add(i);
+    if (start > 0 && CONNECTORS.includes(norm[start - 1])) used.add(start - 1);
+  };
+
+  let date = context.today;
+  for (let i = 0; i < norm.length; i++) {
+    const word = norm[i];
+    const relative: Record<string, number> = { hoje: 0, ontem: -1, anteontem: -2, amanha: 1 };
+    if (word in relative) {
+      date = toDateStr(addDays(today, relative[word]));
+      consume(i, 1);
+      break;
+    }
+    const day = word === 'dia' ? parseInt(norm[i + 1]) : NaN;
+    if (day >= 1 && day <= 31 && /^\d+$/.test(norm[i + 1])) {
+      // The last day with that number: "dia 25" typed on the 10th is last month's
+      const month = day <= today.getDate() ? today : subMonths(today, 1);
+      date = toDateStr(setDate(month, Math.min(day, getDaysInMonth(month))));
+      consume(i, 2);
+      break;
+    }
+    const numeric = word.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+    if (numeric) {
+      const year = numeric[3] ? (numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3])) : today.getFullYear();
+      const parsed = new Date(year, Number(numeric[2]) - 1, Number(numeric[1]));
+      if (parsed.getMonth() === Number(numeric[2]) - 1) {
+        date = toDateStr(parsed);
+        consume(i, 1);
+        break;
+      }
+    }
+    const weekday = WEEKDAYS.indexOf(word.replace(/-feira$/, ''));
+    if (weekday >= 0) {
+      date = toDateStr(addDays(today, -((today.getDay() - weekday + 7) % 7)));
+      const extra = ['feira', 'passada', 'passado'].includes(norm[i + 1]) ? 1 : 0;
+      consume(i, 1 + extra);
+      break;
+    }
+  }
+
+  let account_id: number | null = null;
+  const named = [...context.accounts]
+    .sort((a, b) => b.name.length - a.name.length)
+    .map(account => ({ account, index: phraseAt(account.name) }))
+    .find(match => match.index >= 0);
+  if (named) {
+    account_id = named.account.id;
+    consume(named.index, normalize(named.account.name).split(/\s+/).length);
+  } else {
+    const generic: [string[], Account['type']][] = [[['cartao', 'credito'], 'credit_card'], [['dinheiro', 'especie'], 'cash'], [['debito', 'pix'], 'checking']];
+    for (const [keywords, type] of generic) {
+      const index = norm.findIndex(w => keywords.includes(w));
+      const account = context.accounts.find(a => a.type === type);
+      if (index >= 0 && account) {
+        account_id = account.id;
+        consume(index, ['de', 'do'].includes(norm[index + 1]) && keywords.includes(norm[index + 2]) ? 3 : 1);
+        break;
+      }
+    }
+  }
+
+  // With several numbers ("2 pizzas 80") the one marked as money wins, else the last: quantities
+  // come before what they describe and the price after
+  const candidates: { index: number, span: number, value: number, marked: boolean }[] = [];
+  for (let i = 0; i < norm.length; i++) {
+    if (used.has(i)) continue;
+    const token = norm[i] === 'r$' && norm[i + 1] ? `r$${norm[i + 1]}` : norm[i];
+    if (!AMOUNT_PATTERN.test(token)) continue;
+    const span = token === norm[i] ? 1 : 2;
+    const digits = token.replace('r$', '');
+    const value = parseAmount(digits, /^\d+\.\d{1,2}$/.test(digits) ? '.' : ',');
+    if (isNaN(value) || value <= 0) continue;
+    const thousands = norm[i + span] === 'mil';
+    const next = norm[i + span + (thousands ? 1 : 0)];
+    candidates.push({
+      index: i,
+      span: span + (thousands ? 1 : 0),
+      value: value * (thousands ? 1000 : 1),
+      marked: token.startsWith('r$') || ['reais', 'real'].includes(next)
+    });
+  }
+  const chosen = candidates.filter(c => c.marked).pop() || candidates.pop();
+  let amount: number | null = null;
+  if (chosen) {
+    amount = Math.round(chosen.value * 100) / 100;
+    consume(chosen.index, chosen.span);
+    if (['reais', 'real'].includes(norm[chosen.index + chosen.span])) used.add(chosen.index + chosen.span);
+  }
+
+  // Categories typed by name come first, the more specific (longer) name winning; then keywords
+  const free = norm.filter((_, i) => !used.has(i)).join(' ');
+  const has = (phrase: string) => ` ${free} `.includes(` ${normalize(phrase)} `);
+  const byName = [...context.categories].sort((a, b) => b.name.length - a.name.length).find(c => has(c.name));
+  const byKeyword = Object.entries(CATEGORY_KEYWORDS)
+    .find(([name, keywords]) => context.categories.some(c => c.name === name) && keywords.some(has));
+  const category = byName || context.categories.find(c => c.name === byKeyword?.[0]) || null;
+
+  const isIncome = category ? category.type === 'income' : INCOME_WORDS.some(has);
+  const type: QuickAddDraft['type'] = isIncome
+    ? (category?.name === 'Salário' || has('salario') ? 'income' : 'variable_income')
+    : (FIXED_WORDS.some(has) ? 'fixed_expense' : 'variable_expense');
+
+  const rest = words.filter((_, i) => !used.has(i));
+  while (rest.length > 0 && [...LEADING_VERBS, ...CONNECTORS].includes(normalize(rest[0]))) rest.shift();
+  while (rest.length > 0 && CONNECTORS.includes(normalize(rest[rest.length - 1]))) rest.pop();
+  const description = rest.join(' ').replace(/[,;]+$/, '');
+
+  return {
+    description: description ? description[0].toUpperCase() + description.slice(1) : category?.name || '',
+    amount,
+    type,
+    category: category?.name || null,
+    date,
+    account_id
+  };
+}
+
+export const QUICK_ADD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    amount: { type: ['number', 'null'] },
+    type: { type: 'string', enum: ['income', 'variable_income', 'fixed_expense', 'variable_expense'] },
+    category: { type: ['string', 'null'] },
+    date: { type: 'string', description: 'yyyy-MM-dd' },
+    account_id: { type: ['integer', 'null'] }
+  },
+  required: ['description', 'amount', 'type', 'category', 'date', 'account_id']
+};
+
+export const QUICK_ADD_SYSTEM = 'Você converte frases em português do Brasil em lançamentos financeiros. Valores usam vírgula como '
+  + 'separador decimal. Use apenas categorias e contas da lista fornecida; quando nenhuma servir, use null.';
+
+export function quickAddPrompt(text: string, context: QuickAddContext): string {
+  return `Hoje é ${context.today}. Interprete o lançamento: "${text}".\n`
+    + 'Tipos: income = receita fixa (salário), variable_income = outras receitas, fixed_expense = despesa fixa (aluguel, '
+    + 'assinaturas), variable_expense = demais despesas. A descrição deve ser curta, sem valor, data nem conta.\n'
+    + `Categorias: ${JSON.stringify(context.categories.map(c => ({ name: c.name, type: c.type })))}\n`
+    + `Contas: ${JSON.stringify(context.accounts)}`;
+}
+
+// Keeps only what fits the catalog: unknown categories and accounts become null, a bad date becomes today
+export function sanitizeDraft(raw: unknown, context: QuickAddContext): QuickAddDraft {
+  const draft = (raw || {}) as Partial<Record<keyof QuickAddDraft, unknown>>;
+  const types: QuickAddDraft['type'][] = ['income', 'variable_income', 'fixed_expense', 'variable_expense'];
+  const amount = typeof draft.amount === 'number' && draft.amount > 0 ? Math.round(draft.amount * 100) / 100 : null;
+  const date = typeof draft.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(draft.date) && !isNaN(parseISO(draft.date).getTime()) ? draft.date : context.today;
+  const description = typeof draft.description === 'string' ? draft.description.trim() : '';
+  if (!description && amount === null) throw new Error('Resposta sem lançamento');
+
+  return {
+    description,
+    amount,
+    type: types.includes(draft.type as QuickAddDraft['type']) ? draft.type as QuickAddDraft['type'] : 'variable_expense',
+    category: context.categories.find(c => c.name === draft.category)?.name || null,
+    date,
+    account_id: context.accounts.find(a => a.id === draft.account_id)?.id ?? null
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { categorize, findMatchingRule, matchesRule } from './rules';
+import { CategoryRule } from '../types';
+
+const rule = (overrides: Partial<CategoryRule>): CategoryRule => ({
+  id: 1,
+  priority: 0,
+  description_pattern: null,
+  min_amount: null,
+  max_amount: null,
+  account_id: null,
+  category: 'Transporte',
+  type: null,
+  enabled: 1,
+  ...overrides
+});
+
+describe('matchesRule', () => {
+  it('matches the pattern ignoring accents and case', () => {
+    assert.equal(matchesRule(rule({ description_pattern: 'sao joao' }), { description: 'PADARIA SÃO JOÃO', amount: 10 }), true);
+    assert.equal(matchesRule(rule({ description_pattern: 'Padaria São' }), { description: 'padaria sao joao', amount: 10 }), true);
+    assert.equal(matchesRule(rule({ description_pattern: 'uber' }), { description: 'Padaria', amount: 10 }), false);
+  });
+
+  it('keeps amounts within the min/max bounds, inclusive and as absolute values', () => {
+    const bounded = rule({ min_amount: 10, max_amount: 50 });
+    assert.equal(matchesRule(bounded, { description: 'x', amount: 10 }), true);
+    assert.equal(matchesRule(bounded, { description: 'x', amount: 50 }), true);
+    assert.equal(matchesRule(bounded, { description: 'x', amount: -30 }), true);
+    assert.equal(matchesRule(bounded, { description: 'x', amount: 9.99 }), false);
+    assert.equal(matchesRule(bounded, { description: 'x', amount: 50.01 }), false);
+  });
+
+  it('requires the account when the rule sets one', () => {
+    const onCard = rule({ account_id: 2 });
+    assert.equal(matchesRule(onCard, { description: 'x', amount: 1, account_id: 2 }), true);
+    assert.equal(matchesRule(onCard, { description: 'x', amount: 1, account_id: 3 }), false);
+    assert.equal(matchesRule(onCard, { description: 'x', amount: 1 }), false);
+    assert.equal(matchesRule(rule({}), { description: 'x', amount: 1, account_id: 3 }), true);
+  });
+
+  it('skips disabled rules', () => {
+    assert.equal(matchesRule(rule({ enabled: 0 }), { description: 'x', amount: 1 }), false);
+    assert.equal(matchesRule(rule({ enabled: false }), { description: 'x', amount: 1 }), false);
+  });
+});
+
+describe('findMatchingRule', () => {
+  it('picks the lowest priority first, then the oldest rule', () => {
+    const rules = [
+      rule({ id: 3, priority: 1, category: 'C' }),
+      rule({ id: 2, priority: 0, category: 'B' }),
+      rule({ id: 1, priority: 0, category: 'A' })
+    ];
+    assert.equal(findMatchingRule(rules, { description: 'x', amount: 1 })?.category, 'A');
+    assert.equal(findMatchingRule(rules.slice(0, 1), { description: 'x', amount: 1 })?.category, 'C');
+  });
+
+  it('does not reorder the rules it is given', () => {
+    const rules = [rule({ id: 2, priority: 5 }), rule({ id: 1, priority: 0 })];
+    findMatchingRule(rules, { description: 'x', amount: 1 });
+    assert.deepEqual(rules.map(r => r.id), [2, 1]);
+  });
+});
+
+describe('categorize', () => {
+  const subject = { description: 'UBER *TRIP', amount: 25, category: 'Outros', type: 'variable_expense' as const };
+
+  it('applies the category and the type set by the rule', () => {
+    const result = categorize([rule({ id: 7, description_pattern: 'uber', type: 'fixed_expense' })], subject);
+    assert.deepEqual(result, { ...subject, category: 'Transporte', type: 'fixed_expense', rule_id: 7 });
+  });
+
+  it('keeps the original type when the rule does not set one', () => {
+    const result = categorize([rule({ description_pattern: 'uber' })], subject);
+    assert.equal(result?.type, 'variable_expense');
+    assert.equal(result?.category, 'Transporte');
+  });
+
+  it('returns null when no rule matches', () => {
+    assert.equal(categorize([rule({ description_pattern: 'ifood' })], subject), null);
+  });
+});
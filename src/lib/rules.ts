@@ -0,0 +1,32 @@
+import { CategoryRule, Transaction } from '../types';
+
+export type RuleSubject = Pick<Transaction, 'description' | 'amount'> & { account_id?: number | null };
+
+// Accents and case are ignored so "UBER *TRIP" matches a rule for "uber" and "Padaria São João" one for "sao joao".
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// Every condition set on the rule must hold; conditions left empty are ignored. Amounts are compared
+// as absolute values, the way they are stored.
+export function matchesRule(rule: CategoryRule, t: RuleSubject): boolean {
+  if (!rule.enabled) return false;
+  if (rule.description_pattern && !normalize(t.description).includes(normalize(rule.description_pattern))) return false;
+  const amount = Math.abs(t.amount);
+  if (rule.min_amount !== null && amount < rule.min_amount) return false;
+  if (rule.max_amount !== null && amount > rule.max_amount) return false;
+  if (rule.account_id !== null && rule.account_id !== (t.account_id ?? null)) return false;
+  return true;
+}
+
+// Rules run by ascending priority (ties by creation order); the first match wins.
+export function findMatchingRule(rules: CategoryRule[], t: RuleSubject): CategoryRule | undefined {
+  return [...rules]
+    .sort((a, b) => a.priority - b.priority || a.id - b.id)
+    .find(rule => matchesRule(rule, t));
+}
+
+// Category and, when the rule sets one, type of `t` after the rules run; null when no rule matches.
+export function categorize<T extends RuleSubject & Pick<Transaction, 'category' | 'type'>>(rules: CategoryRule[], t: T): (T & { rule_id: number }) | null {
+  const rule = findMatchingRule(rules, t);
+  if (!rule) return null;
+  return { ...t, category: rule.category, type: rule.type || t.type, rule_id: rule.id };
+}
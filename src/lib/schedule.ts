@@ -0,0 +1,46 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { Occurrence, Transaction } from '../types';
+
+type ScheduledTransaction = Pick<Transaction, 'id' | 'description' | 'amount' | 'type' | 'category' | 'date' | 'installments' | 'start_date' | 'account_id'> & {
+  is_recurring: boolean | number;
+};
+
+// Expands a transaction into its monthly occurrences within [from, to] (inclusive, yyyy-MM-dd).
+// Installment purchases produce exactly `installments` parcelas; a recurring transaction without
+// a fixed number of installments repeats every month until `to`. Days past the end of a shorter
+// month are clamped to its last day (31/01 -> 28/02).
+export function expandTransaction(t: ScheduledTransaction, from: string | null, to: string): Occurrence[] {
+  const installments = t.installments && t.installments > 1 ? t.installments : null;
+  const openEnded = Boolean(t.is_recurring) && !installments;
+  const anchor = parseISO(t.start_date || t.date);
+  const occurrences: Occurrence[] = [];
+
+  for (let i = 0; openEnded || i < (installments || 1); i++) {
+    const date = format(addMonths(anchor, i), 'yyyy-MM-dd');
+    if (date > to) break;
+    if (from && date < from) continue;
+    occurrences.push({
+      transaction_id: t.id,
+      description: t.description,
+      amount: t.amount,
+      type: t.type,
+      category: t.category,
+      account_id: t.account_id ?? null,
+      date,
+      installment_number: i + 1,
+      installments
+    });
+  }
+
+  return occurrences;
+}
+
+export function expandSchedule(transactions: ScheduledTransaction[], from: string | null, to: string): Occurrence[] {
+  return transactions
+    .flatMap(t => expandTransaction(t, from, to))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.transaction_id - b.transaction_id);
+}
+
+export function formatInstallment(o: Occurrence) {
+  return o.installments ? `${o.installment_number}/${o.installments}` : null;
+}
@@ -0,0 +1,99 @@
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Subscription } from '../types';
+import { Charge, SERIES_FREQUENCIES, SIMILARITY_THRESHOLD, chargeSeries, merchantTokens, similarity } from './anomalies';
+import { expandTransaction } from './schedule';
+
+// Detection lives in SERIES_FREQUENCIES (anomalies.ts); these turn a frequency into costs and dates
+const FREQUENCIES: Record<Subscription['frequency'], { perMonth: number, next: (d: Date, times?: number) => Date }> = {
+  weekly: { perMonth: 52 / 12, next: (d, times = 1) => addWeeks(d, times) },
+  monthly: { perMonth: 1, next: (d, times = 1) => addMonths(d, times) },
+  quarterly: { perMonth: 1 / 3, next: (d, times = 1) => addMonths(d, times * 3) },
+  annual: { perMonth: 1 / 12, next: (d, times = 1) => addYears(d, times) }
+};
+
+// How far a charge may drift from the series' median amount and still belong to it (price changes)
+const AMOUNT_TOLERANCE = 0.2;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const toDateStr = (d: Date) => format(d, 'yyyy-MM-dd');
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const costs = (amount: number, frequency: Subscription['frequency']) => ({
+  monthly_cost: round(amount * FREQUENCIES[frequency].perMonth),
+  annual_cost: round(amount * FREQUENCIES[frequency].perMonth * 12)
+});
+
+// A recurring transaction already in the schedule, shown alongside the detected ones
+export function recurringSubscription(t: Charge & { start_date?: string }, today: string): Subscription {
+  const past = expandTransaction(t, null, today);
+  const next = expandTransaction(t, toDateStr(addDays(parseISO(today), 1)), toDateStr(addMonths(parseISO(today), 1)))[0];
+  return {
+    key: `recurring:${t.id}`,
+    description: t.description,
+    category: t.category,
+    account_id: t.account_id ?? null,
+    frequency: 'monthly',
+    amount: t.amount,
+    ...costs(t.amount, 'monthly'),
+    last_charge: past.length ? past[past.length - 1].date : null,
+    next_charge: next?.date || t.start_date || t.date,
+    active: true,
+    charges: past.length,
+    transaction_ids: [t.id],
+    recurring_transaction_id: t.id
+  };
+}
+
+// The charge series whose amounts stay close. Series resembling one of `recurring` (already
+// scheduled) are skipped.
+export function detectSubscriptions(transactions: Charge[], recurring: Charge[], today: string): Subscription[] {
+  const subscriptions: Subscription[] = [];
+  for (const { tokens, account_id, frequency, charges } of chargeSeries(transactions)) {
+    if (recurring.some(r => (r.account_id ?? null) === account_id && similarity(merchantTokens(r.description), tokens) >= SIMILARITY_THRESHOLD)) continue;
+    const { tolerance } = SERIES_FREQUENCIES[frequency];
+    const { next } = FREQUENCIES[frequency];
+    const typicalAmount = median(charges.map(t => t.amount));
+    if (charges.some(t => Math.abs(t.amount - typicalAmount) > typicalAmount * AMOUNT_TOLERANCE)) continue;
+
+    const last = charges[charges.length - 1];
+    const nextCharge = toDateStr(next(parseISO(last.date)));
+    subscriptions.push({
+      key: `${tokens.join(' ')}|${account_id ?? ''}`,
+      description: last.description,
+      category: last.category,
+      account_id,
+      frequency,
+      amount: last.amount,
+      ...costs(last.amount, frequency),
+      last_charge: last.date,
+      next_charge: nextCharge,
+      // A charge more than a tolerance late means it was probably cancelled
+      active: differenceInCalendarDays(parseISO(today), parseISO(nextCharge)) <= tolerance,
+      charges: charges.length,
+      transaction_ids: charges.map(t => t.id),
+      recurring_transaction_id: null
+    });
+  }
+  return subscriptions;
+}
+
+// The first charge expected after today, counted from the last one so the day of the month doesn't
+// drift (Jan 31 -> Feb 28 -> Mar 31)
+export function firstChargeAfter(subscription: Subscription, today: string): string {
+  const { next } = FREQUENCIES[subscription.frequency];
+  const last = parseISO(subscription.last_charge || subscription.next_charge);
+  let times = 1;
+  while (toDateStr(next(last, times)) <= today) times++;
+  return toDateStr(next(last, times));
+}
+
+export const SUBSCRIPTION_FREQUENCY_LABELS: Record<Subscription['frequency'], string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  quarterly: 'Trimestral',
+  annual: 'Anual'
+};
@@ -8,18 +8,125 @@ export interface Transaction {
   is_recurring: boolean;
   installments?: number;
   start_date?: string;
+  fitid?: string | null;
+  account_id?: number | null;
 }
 
 export interface Investment {
   id: number;
   name: string;
+  ticker: string | null;
+  // Current market value of the position, derived from the operations
   amount: number;
   type: string;
   expected_return: number;
   date: string;
+  // Fixed income terms; null indexer means a market-priced asset
+  indexer: IndexRate['indexer'] | 'prefixado' | null;
+  indexer_rate: number | null;
+  maturity_date: string | null;
+  tax_exempt: boolean | number;
+  asset_class: AssetClass | null;
+  position?: InvestmentPosition;
+  fixed_income?: { current: FixedIncomeValue, maturity: FixedIncomeValue | null };
 }
 
-export interface Summary {
+export type AssetClass = 'renda_fixa' | 'acoes' | 'fiis' | 'internacional' | 'cripto';
+
+export interface AllocationClass {
+  asset_class: AssetClass;
+  value: number;
+  current_percent: number;
+  target_percent: number;
+  // Market value above (positive) or below the target share of the current total
+  difference: number;
+  suggested: number;
+}
+
+export interface Allocation {
+  total: number;
+  contribution: number;
+  classes: AllocationClass[];
+  unclassified: number;
+}
+
+export interface Liability {
+  id: number;
+  name: string;
+  kind: 'loan' | 'financing' | 'other';
+  // Outstanding amount, updated by hand
+  balance: number;
+  updated_at: string;
+}
+
+export interface NetWorth {
+  accounts: number;
+  investments: number;
+  card_debt: number;
+  loans: number;
+  assets: number;
+  liabilities: number;
+  net_worth: number;
+}
+
+export interface NetWorthSnapshot extends NetWorth {
+  month: string;
+  date: string;
+}
+
+export interface IndexRate {
+  id: number;
+  indexer: 'cdi' | 'selic' | 'ipca';
+  date: string;
+  // Annual % for CDI and SELIC, monthly % for IPCA
+  rate: number;
+}
+
+export interface FixedIncomeValue {
+  date: string;
+  invested: number;
+  gross: number;
+  iof: number;
+  ir: number;
+  net: number;
+  missing_rates: boolean;
+}
+
+export interface InvestmentOperation {
+  id: number;
+  investment_id: number;
+  type: 'buy' | 'sell' | 'dividend' | 'jcp' | 'fee';
+  date: string;
+  // Only buys and sells have a quantity and unit price; amount is always the cash value
+  quantity: number | null;
+  unit_price: number | null;
+  amount: number;
+  fees: number;
+  notes: string | null;
+}
+
+export interface InvestmentPrice {
+  id: number;
+  investment_id: number;
+  date: string;
+  price: number;
+}
+
+export interface InvestmentPosition {
+  quantity: number;
+  average_cost: number;
+  cost_basis: number;
+  current_price: number | null;
+  price_date: string | null;
+  market_value: number;
+  unrealized: number;
+  unrealized_percent: number;
+  realized: number;
+  income: number;
+  total_return: number;
+}
+
+export interface PeriodTotals {
   income: number;
   variable_income: number;
   fixed: number;
@@ -27,6 +134,40 @@ export interface Summary {
   invested: number;
 }
 
+export interface Summary extends PeriodTotals {
+  from?: string;
+  to?: string;
+  previous?: PeriodTotals & { from: string; to: string };
+}
+
+export interface Category {
+  id: number;
+  name: string;
+  parent_id: number | null;
+  type: 'income' | 'expense';
+  icon: string | null;
+  color: string | null;
+}
+
+export interface CategoryRule {
+  id: number;
+  priority: number;
+  description_pattern: string | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  account_id: number | null;
+  category: string;
+  type: Transaction['type'] | null;
+  enabled: boolean | number;
+}
+
+export interface RuleApplication {
+  transaction: Transaction;
+  rule_id: number;
+  category: string;
+  type: Transaction['type'];
+}
+
 export interface Goal {
   id: number;
   name: string;
@@ -34,11 +175,308 @@ export interface Goal {
   current_amount: number;
   deadline: string;
   category: string;
+  forecast?: GoalForecast;
+}
+
+export interface GoalForecast {
+  goal_id: number;
+  remaining: number;
+  months_left: number;
+  required_monthly: number;
+  monthly_pace: number;
+  projected_completion: string | null;
+  status: 'achieved' | 'on_track' | 'at_risk' | 'late';
+}
+
+export interface GoalContribution {
+  id: number;
+  goal_id: number;
+  date: string;
+  amount: number;
+  description: string | null;
+  transaction_id: number | null;
+  // Joined in by GET /api/goals/:id/contributions
+  transaction_description?: string | null;
+  investment_id: number | null;
+  // The amount already saved when the goal was created, which is not part of the saving pace
+  is_opening: boolean | number;
 }
 
 export interface Budget {
   id: number;
   category: string;
   limit_amount: number;
-  period: 'monthly';
+  period: 'weekly' | 'monthly' | 'quarterly' | 'annual';
+  rollover: boolean | number;
+  start_date: string | null;
+}
+
+export interface BudgetStatus {
+  budget_id: number;
+  category: string;
+  period: Budget['period'];
+  from: string;
+  to: string;
+  limit_amount: number;
+  carried: number;
+  available: number;
+  spent: number;
+  remaining: number;
+  percent: number;
+}
+
+export interface BudgetVarianceMonth {
+  month: string;
+  limit: number;
+  spent: number;
+  variance: number;
+}
+
+export interface BudgetVariance {
+  budget_id: number;
+  category: string;
+  monthly_limit: number;
+  months: BudgetVarianceMonth[];
+  average_spent: number;
+  average_overshoot: number;
+  months_over: number;
+}
+
+export interface EnvelopeMove {
+  id: number;
+  month: string;
+  date: string;
+  from_category: string | null;
+  to_category: string | null;
+  amount: number;
+  description: string | null;
+}
+
+export interface Envelope {
+  category: string;
+  carried: number;
+  assigned: number;
+  spent: number;
+  balance: number;
+}
+
+export interface EnvelopeSummary {
+  month: string;
+  start_month: string;
+  income: number;
+  unassigned: number;
+  envelopes: Envelope[];
+  unenveloped_spent: number;
+  moves: EnvelopeMove[];
+}
+
+export interface NotificationDraft {
+  kind: 'budget' | 'bill' | 'goal' | 'large_transaction';
+  key: string;
+  title: string;
+  message: string;
+  date: string;
+}
+
+export interface Notification extends NotificationDraft {
+  id: number;
+  read: boolean | number;
+  dismissed: boolean | number;
+  created_at: string;
+}
+
+export interface Occurrence {
+  transaction_id: number;
+  description: string;
+  amount: number;
+  type: Transaction['type'];
+  category: string;
+  account_id: number | null;
+  date: string;
+  installment_number: number;
+  installments: number | null;
+}
+
+export interface TransactionFilters {
+  q: string;
+  type: '' | Transaction['type'];
+  category: string;
+  account_id: string;
+  from: string;
+  to: string;
+  min_amount: string;
+  max_amount: string;
+  sort: 'date' | 'amount' | 'description';
+  order: 'asc' | 'desc';
+}
+
+export interface CsvColumnMapping {
+  description: number | null;
+  amount: number | null;
+  date: number | null;
+  type: number | null;
+  category: number | null;
+}
+
+export interface CsvImportOptions {
+  delimiter: ',' | ';' | '\t';
+  has_header: boolean;
+  mapping: CsvColumnMapping;
+  date_format: string;
+  decimal_separator: ',' | '.';
+  default_type: Transaction['type'];
+  default_category: string;
+}
+
+export interface ImportRowResult {
+  row: number;
+  status: 'ready' | 'imported' | 'duplicate' | 'error';
+  transaction?: Pick<Transaction, 'description' | 'amount' | 'type' | 'category' | 'date' | 'fitid'>;
+  rule_id?: number;
+  id?: number;
+  error?: string;
+}
+
+export interface CsvImportPreview {
+  headers: string[];
+  options: CsvImportOptions;
+  rows: ImportRowResult[];
+}
+
+export interface OfxImportPreview {
+  bank_id: string | null;
+  account_id: string | null;
+  rows: ImportRowResult[];
+}
+
+export interface Account {
+  id: number;
+  name: string;
+  type: 'checking' | 'savings' | 'credit_card' | 'cash';
+  opening_balance: number;
+  closing_day: number | null;
+  due_day: number | null;
+  balance: number;
+}
+
+export interface Transfer {
+  id: number;
+  from_account_id: number;
+  to_account_id: number;
+  amount: number;
+  date: string;
+  description: string | null;
+  invoice_month: string | null;
+}
+
+export interface Invoice {
+  month: string;
+  closing_date: string;
+  due_date: string;
+  items: Occurrence[];
+  total: number;
+  paid: number;
+  status: 'open' | 'closed' | 'paid' | 'overdue';
+}
+
+export interface Insight {
+  kind: 'alert' | 'tip' | 'positive';
+  title: string;
+  message: string;
+}
+
+// What the insights prompt is built from, aggregated on the server for one month
+export interface InsightContext {
+  month: string;
+  totals: PeriodTotals;
+  previous: PeriodTotals;
+  top_categories: { category: string; amount: number }[];
+  budgets: { category: string; available: number; spent: number; percent: number }[];
+  goals: { name: string; target_amount: number; current_amount: number; deadline: string; status: GoalForecast['status']; required_monthly: number; monthly_pace: number }[];
+}
+
+export interface InsightsResult {
+  insights: Insight[];
+  provider: string;
+  cached: boolean;
+  generated_at: string;
+}
+
+// A transaction read from free text, shown for confirmation before it is saved. Null fields were not
+// recognized; a null category is left to the categorization rules.
+export interface QuickAddDraft {
+  description: string;
+  amount: number | null;
+  type: Transaction['type'];
+  category: string | null;
+  date: string;
+  account_id: number | null;
+}
+
+// A question to the finances chat, translated into one of the whitelisted aggregations over occurrences
+export interface AskQuery {
+  function: 'sum' | 'count' | 'average' | 'monthly_average' | 'max' | 'by_category' | 'by_month';
+  kind: 'expense' | 'income';
+  category: string | null;
+  search: string | null;
+  account_id: number | null;
+  from: string;
+  to: string;
+}
+
+export interface AskResult {
+  value: number;
+  rows: { label: string; value: number }[];
+  transactions: Occurrence[];
+  total_transactions: number;
+}
+
+export interface AskMessage {
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  query: AskQuery | null;
+  result: AskResult | null;
+  created_at: string;
+}
+
+export interface ReviewDraft {
+  kind: 'duplicate' | 'outlier' | 'price_change';
+  key: string;
+  transaction_id: number;
+  // The earlier charge it was compared with: the original of a duplicate, the previous price
+  related_id: number | null;
+  message: string;
+}
+
+export interface TransactionReview extends ReviewDraft {
+  id: number;
+  status: 'open' | 'dismissed';
+  created_at: string;
+  transaction: Transaction;
+  related: Transaction | null;
+}
+
+export interface Subscription {
+  key: string;
+  description: string;
+  category: string;
+  account_id: number | null;
+  frequency: 'weekly' | 'monthly' | 'quarterly' | 'annual';
+  amount: number;
+  monthly_cost: number;
+  annual_cost: number;
+  last_charge: string | null;
+  next_charge: string;
+  active: boolean;
+  charges: number;
+  transaction_ids: number[];
+  // Set when it is already a recurring transaction; otherwise it was detected from separate charges
+  recurring_transaction_id: number | null;
+}
+
+export interface SubscriptionsSummary {
+  subscriptions: Subscription[];
+  monthly_total: number;
+  annual_total: number;
 }